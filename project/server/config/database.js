@@ -10,7 +10,14 @@ const pool = mysql.createPool({
   database: process.env.DB_NAME,
   waitForConnections: true,
   connectionLimit: 10,
-  queueLimit: 0
+  queueLimit: 0,
+  // DATETIME values are UTC: JS Dates are written and read as UTC, and NOW() etc. run in UTC on every connection
+  timezone: 'Z'
+});
+pool.on('connection', (connection) => {
+  connection.query("SET time_zone = '+00:00'", (error) => {
+    if (error) console.error('Error setting the connection time zone to UTC:', error);
+  });
 });
 
 // Test the connection
@@ -0,0 +1,42 @@
+// server/config/permissions.js
+// Permission registry. Routes check these keys with requirePermission(); roles map to them through the
+// role_permissions table. Back-office permissions can be granted to custom roles; the operations and
+// customer permissions belong to the built-in employee and user roles, whose pages still assume those roles.
+
+const PERMISSIONS = [
+  { key: 'dashboard:read', group: 'back-office', description: 'View dashboard statistics and recent activity' },
+  { key: 'bookings:read', group: 'back-office', description: 'View all bookings' },
+  { key: 'bookings:write', group: 'back-office', description: 'Book parking on behalf of customers and add guest contacts' },
+  { key: 'locations:read', group: 'back-office', description: 'View parking locations' },
+  { key: 'locations:write', group: 'back-office', description: 'Create, edit and delete parking locations' },
+  { key: 'employees:read', group: 'back-office', description: 'View employees' },
+  { key: 'employees:write', group: 'back-office', description: 'Create, edit and delete employees' },
+  { key: 'feedback:read', group: 'back-office', description: 'View customer feedback' },
+  { key: 'rates:read', group: 'back-office', description: 'View the hourly rate' },
+  { key: 'rates:write', group: 'back-office', description: 'Change the hourly rate' },
+  { key: 'users:manage', group: 'back-office', description: 'Sign users out and unlock locked accounts' },
+  { key: 'security:manage', group: 'back-office', description: 'Manage the two-factor policy and review login attempts' },
+  { key: 'roles:manage', group: 'back-office', description: 'Create roles and assign them to accounts' },
+  { key: 'audit:read', group: 'back-office', description: 'View and export the audit log' },
+  { key: 'api-keys:manage', group: 'back-office', description: 'Create and revoke API keys for machine clients' },
+  { key: 'parking:operate', group: 'operations', description: 'Check vehicles in and out at the assigned location' },
+  { key: 'bookings:create', group: 'customer', description: 'Book parking and manage own bookings and feedback' }
+];
+
+const PERMISSION_KEYS = PERMISSIONS.map(p => p.key);
+const BACK_OFFICE_PERMISSIONS = PERMISSIONS.filter(p => p.group === 'back-office').map(p => p.key);
+// API keys can read data and operate gates, nothing more. Only GET /admin/bookings and the gate routes honour a
+// key's location scope, and a key must never be able to create accounts that sign in with a password.
+const API_KEY_PERMISSIONS = PERMISSIONS
+  .filter(p => p.key.endsWith(':read') || p.key === 'parking:operate')
+  .map(p => p.key);
+
+// Built-in roles can't be edited or deleted. Admins always hold every back-office permission, including ones
+// added in later releases.
+const SYSTEM_ROLES = [
+  { name: 'admin', label: 'Administrator', description: 'Full access to the back office', permissions: BACK_OFFICE_PERMISSIONS },
+  { name: 'employee', label: 'Employee', description: 'Operates the gate at an assigned location', permissions: ['parking:operate', 'bookings:write'] },
+  { name: 'user', label: 'Customer', description: 'Books parking', permissions: ['bookings:create'] }
+];
+
+export { PERMISSIONS, PERMISSION_KEYS, BACK_OFFICE_PERMISSIONS, API_KEY_PERMISSIONS, SYSTEM_ROLES };
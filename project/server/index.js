@@ -7,7 +7,9 @@ import authRoutes from './routes/auth.js';
 import adminRoutes from './routes/admin.js';
 import employeeRoutes from './routes/employee.js';
 import generalRoutes from './routes/general.js';
-import { verifyToken } from './middleware/auth.js'; // verifyToken is used by admin/employee routes here
+import { verifyToken, requirePermission } from './middleware/auth.js'; // verifyToken is used by admin/employee routes here
+import { startNoShowJob } from './utils/noShows.js';
+import { startOverstayJob } from './utils/overstays.js';
 
 const app = express();
 
@@ -29,8 +31,8 @@ app.use('/uploads', express.static(path.join(__dirname, 'uploads')));
 
 // API Routes
 app.use('/api/auth', authRoutes);
-app.use('/api/admin', verifyToken(['admin']), adminRoutes); // verifyToken used here
-app.use('/api/employee', verifyToken(['employee']), employeeRoutes); // and here
+app.use('/api/admin', verifyToken(), adminRoutes); // verifyToken used here; each admin route checks its own permission
+app.use('/api/employee', verifyToken(), requirePermission('parking:operate'), employeeRoutes); // and here (employees or location-scoped API keys)
 app.use('/api', generalRoutes); // This will handle /api/locations/*
 
 // Serve static files in production
@@ -50,6 +52,8 @@ app.use((err, req, res, next) => {
 // Start the server
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  startNoShowJob();
+  startOverstayJob();
 });
 
 export default app;
\ No newline at end of file
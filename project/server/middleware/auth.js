@@ -1,12 +1,41 @@
 // server/middleware/auth.js
 import jwt from 'jsonwebtoken';
+import { getActiveSession, touchSession } from '../utils/sessions.js';
+import { getCurrentUser } from '../utils/currentUser.js';
+import { authenticateApiKey } from '../utils/apiKeys.js';
 
-// Middleware to verify JWT token and roles
+// Machine clients send X-API-Key instead of a bearer token (see utils/apiKeys.js)
+const verifyApiKey = async (req, res, next, rawKey, allowedRoles) => {
+  try {
+    const principal = await authenticateApiKey(rawKey);
+    if (!principal) {
+      console.log('[verifyToken] Invalid or revoked API key.'); // Log: Bad API key
+      return res.status(401).json({ message: 'Invalid or revoked API key' });
+    }
+    req.user = principal;
+    // Keys have permissions but no role, so routes still restricted by role name stay people-only
+    if (allowedRoles.length > 0) {
+      console.log(`[verifyToken] API key ${principal.apiKeyId} refused on role-restricted route.`); // Log: Role check outcome
+      return res.status(403).json({ message: 'Insufficient permissions' });
+    }
+    console.log('[verifyToken] API key auth success, calling next() for key ID:', principal.apiKeyId); // Log: Success
+    next();
+  } catch (error) {
+    console.error('[verifyToken] API key verification EXCEPTION:', error);
+    return res.status(500).json({ message: 'Error verifying API key' });
+  }
+};
+
+// Middleware to verify JWT token (or API key) and roles
 const verifyToken = (allowedRoles = []) => {
-  return (req, res, next) => {
+  return async (req, res, next) => {
     console.log('\n[verifyToken] Middleware invoked for path:', req.originalUrl); // Log: Entry point
     const token = req.headers.authorization?.split(' ')[1];
+    const apiKey = req.get('X-API-Key');
 
+    if (!token && apiKey) {
+      return verifyApiKey(req, res, next, apiKey, allowedRoles);
+    }
     if (!token) {
       console.log('[verifyToken] Access denied. No token provided.'); // Log: No token found
       return res.status(401).json({ message: 'No token provided' });
@@ -17,9 +46,31 @@ const verifyToken = (allowedRoles = []) => {
       const decoded = jwt.verify(token, process.env.JWT_SECRET);
       // Log crucial parts of the decoded token, especially id and role
       console.log('[verifyToken] Token decoded. User ID:', decoded.id, 'Role:', decoded.role, 'Payload:', decoded); // Log: Decoded token details
-      
+
+      // The token is only as good as the session it was issued for
+      const session = decoded.sid ? await getActiveSession(decoded.sid, decoded.id) : null;
+      if (!session) {
+        console.log('[verifyToken] Session missing, expired or revoked. Session ID:', decoded.sid); // Log: Revoked session
+        return res.status(401).json({ message: 'Session expired or revoked' });
+      }
+
+      const { authVersion } = session;
+      await touchSession(decoded.sid, session.lastSeenAt, { ip: req.ip });
+
+      // Role and location come from the database, so admin changes apply on the next request
+      const currentUser = await getCurrentUser(decoded.id, authVersion);
+      if (!currentUser) {
+        return res.status(401).json({ message: 'User no longer exists' });
+      }
+      if (!currentUser.active) {
+        console.log('[verifyToken] Account is deactivated. User ID:', decoded.id); // Log: Deactivated account
+        return res.status(401).json({ message: 'This account has been deactivated' });
+      }
+
       // Add user data to request
-      req.user = decoded;
+      req.user = { ...decoded, ...currentUser };
+      // Lets the client notice that its copy of the user is out of date
+      res.set('X-Auth-Version', String(authVersion));
 
       // Check role if any roles are specified
       if (allowedRoles.length > 0) {
@@ -44,4 +95,17 @@ const verifyToken = (allowedRoles = []) => {
   };
 };
 
-export { verifyToken }; // This named export is correct
\ No newline at end of file
+// Middleware to require one or more permissions (see server/config/permissions.js). Use after verifyToken.
+const requirePermission = (...permissions) => {
+  return (req, res, next) => {
+    const granted = req.user?.permissions || [];
+    const missing = permissions.filter(permission => !granted.includes(permission));
+    if (missing.length > 0) {
+      console.log(`[requirePermission] Denied for user ID: ${req.user?.id}. Missing: [${missing.join(', ')}]`); // Log: Permission check outcome
+      return res.status(403).json({ message: 'Insufficient permissions' });
+    }
+    next();
+  };
+};
+
+export { verifyToken, requirePermission }; // This named export is correct
\ No newline at end of file
@@ -3,6 +3,18 @@ import express from 'express';
 import bcrypt from 'bcryptjs';
 import { query } from '../config/database.js'; // Assuming 'query' is the named export
 import upload from '../middleware/upload.js';
+import { requirePermission } from '../middleware/auth.js';
+import { revokeAllSessionsForUser, revokeSessionForUser, listActiveSessionsForUser } from '../utils/sessions.js';
+import { getTwoFactorPolicy } from '../utils/twoFactor.js';
+import { unlockAccount } from '../utils/loginThrottle.js';
+import { bumpAuthVersion, bumpAuthVersionForRole } from '../utils/currentUser.js';
+import { PERMISSIONS, BACK_OFFICE_PERMISSIONS, API_KEY_PERMISSIONS } from '../config/permissions.js';
+import { getRolePermissions } from '../utils/permissions.js';
+import { recordAuditEvent } from '../utils/audit.js';
+import { createApiKey, listApiKeys, revokeApiKey } from '../utils/apiKeys.js';
+import { DEFAULT_CAPACITY_POLICY, bookingCapacityFor, parseCapacityPolicy } from '../utils/capacity.js';
+import { getNoShowPolicy, parseNoShowPolicy } from '../utils/noShows.js';
+import { DEFAULT_TIME_ZONE, parseTimeZone, toZonedIso, startOfZonedDay, zonedDayBounds, toDbDateTime } from '../utils/time.js';
 import fs from 'fs/promises'; 
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -15,10 +27,10 @@ const router = express.Router();
 
 // === PARKING LOCATION ROUTES ===
 // Add new parking location with cover image
-router.post('/parking-location', upload.single('coverImage'), async (req, res) => {
+router.post('/parking-location', requirePermission('locations:write'), upload.single('coverImage'), async (req, res) => {
     console.log('\n>>> Reached POST /api/admin/parking-location handler');
     try {
-        const { name, latitude: latitudeStr, longitude: longitudeStr, totalSlots: totalSlotsStr } = req.body;
+        const { name, latitude: latitudeStr, longitude: longitudeStr, totalSlots: totalSlotsStr, capacityMode, capacityValue, timeZone: timeZoneStr } = req.body;
         const coverImageUrl = req.file ? `/uploads/${req.file.filename}` : null;
 
         if (!name || name.trim() === '' || !latitudeStr || !longitudeStr || !totalSlotsStr) {
@@ -34,15 +46,35 @@ router.post('/parking-location', upload.single('coverImage'), async (req, res) =
         if (totalSlots <= 0) {
             return res.status(400).json({ message: 'Total slots must be a positive number.' });
         }
+        const capacityPolicy = capacityMode
+            ? parseCapacityPolicy({ mode: capacityMode, value: capacityValue }, totalSlots)
+            : DEFAULT_CAPACITY_POLICY;
+        const timeZone = parseTimeZone(timeZoneStr);
 
         const result = await query(
-            'INSERT INTO parking_locations (name, latitude, longitude, total_slots, available_slots, cover_image_url) VALUES (?, ?, ?, ?, ?, ?)',
-            [name, latitude, longitude, totalSlots, totalSlots, coverImageUrl]
+            `INSERT INTO parking_locations (name, latitude, longitude, total_slots, available_slots, cover_image_url, booking_capacity_mode, booking_capacity_value, time_zone)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [name, latitude, longitude, totalSlots, totalSlots, coverImageUrl, capacityPolicy.mode, capacityPolicy.value, timeZone]
         );
+        await recordAuditEvent(req, {
+            action: 'location.create', entityType: 'location', entityId: result.insertId,
+            after: {
+                name, latitude, longitude, total_slots: totalSlots, cover_image_url: coverImageUrl,
+                booking_capacity_mode: capacityPolicy.mode, booking_capacity_value: capacityPolicy.value, time_zone: timeZone
+            }
+        });
         res.status(201).json({
-            id: result.insertId, name, latitude, longitude, totalSlots, availableSlots: totalSlots, coverImageUrl
+            id: result.insertId, name, latitude, longitude, totalSlots, availableSlots: totalSlots, coverImageUrl,
+            capacityMode: capacityPolicy.mode, capacityValue: capacityPolicy.value, timeZone,
+            bookingCapacity: bookingCapacityFor({ total_slots: totalSlots, booking_capacity_mode: capacityPolicy.mode, booking_capacity_value: capacityPolicy.value })
         });
     } catch (error) {
+        if (error.status) {
+            if (req.file) {
+                try { await fs.unlink(req.file.path); } catch (e) { console.error("Error deleting uploaded file during error handling:", e); }
+            }
+            return res.status(error.status).json({ message: error.message });
+        }
         console.error('Error adding parking location:', error);
         if (req.file) {
             try { await fs.unlink(req.file.path); } catch (e) { console.error("Error deleting uploaded file during error handling:", e); }
@@ -52,12 +84,12 @@ router.post('/parking-location', upload.single('coverImage'), async (req, res) =
 });
 
 // Get all parking locations (for admin management) -- CORRECTED
-router.get('/locations', async (req, res) => {
+router.get('/locations', requirePermission('locations:read'), async (req, res) => {
     console.log('\n>>> Reached GET /api/admin/locations handler');
     try {
         const dbLocations = await query(`
             SELECT pl.id, pl.name, pl.latitude, pl.longitude, pl.total_slots, 
-                   pl.available_slots, pl.cover_image_url,
+                   pl.available_slots, pl.cover_image_url, pl.booking_capacity_mode, pl.booking_capacity_value, pl.time_zone,
                    IFNULL(AVG(f.rating), 0) as average_rating,
                    COUNT(DISTINCT f.id) as feedback_count
             FROM parking_locations pl LEFT JOIN feedback f ON pl.id = f.parking_location_id
@@ -69,6 +101,10 @@ router.get('/locations', async (req, res) => {
                 id: loc.id, name: loc.name, latitude: loc.latitude, longitude: loc.longitude,
                 totalSlots: parseInt(loc.total_slots, 10), availableSlots: parseInt(loc.available_slots, 10),
                 coverImageUrl: loc.cover_image_url, 
+                capacityMode: loc.booking_capacity_mode,
+                capacityValue: loc.booking_capacity_value,
+                bookingCapacity: bookingCapacityFor(loc),
+                timeZone: loc.time_zone,
                 averageRating: calculatedAverageRating,
                 feedbackCount: parseInt(loc.feedback_count, 10)
             };
@@ -81,9 +117,9 @@ router.get('/locations', async (req, res) => {
 });
 
 // PUT update an existing parking location
-router.put('/parking-location/:locationId', upload.single('coverImage'), async (req, res) => {
+router.put('/parking-location/:locationId', requirePermission('locations:write'), upload.single('coverImage'), async (req, res) => {
     const { locationId } = req.params;
-    const { name, latitude: latitudeStr, longitude: longitudeStr, totalSlots: totalSlotsStr } = req.body;
+    const { name, latitude: latitudeStr, longitude: longitudeStr, totalSlots: totalSlotsStr, capacityMode, capacityValue, timeZone: timeZoneStr } = req.body;
     let newCoverImageDbPath = null; 
 
     console.log(`\n>>> Reached PUT /api/admin/parking-location/${locationId} handler. Body:`, req.body, "File:", req.file);
@@ -103,7 +139,11 @@ router.put('/parking-location/:locationId', upload.single('coverImage'), async (
     }
 
     try {
-        const [existingLocation] = await query('SELECT cover_image_url, total_slots, available_slots FROM parking_locations WHERE id = ?', [locationId]);
+        const [existingLocation] = await query(
+            `SELECT name, latitude, longitude, cover_image_url, total_slots, available_slots, booking_capacity_mode, booking_capacity_value, time_zone
+             FROM parking_locations WHERE id = ?`,
+            [locationId]
+        );
         if (!existingLocation) {
             if (req.file) {
                 try { await fs.unlink(req.file.path); } catch (delErr) { console.error("Error deleting orphaned uploaded file:", delErr); }
@@ -111,6 +151,13 @@ router.put('/parking-location/:locationId', upload.single('coverImage'), async (
             return res.status(404).json({ message: 'Parking location not found.' });
         }
 
+        // Keep the current policy when the form doesn't send one
+        const capacityPolicy = parseCapacityPolicy({
+            mode: capacityMode || existingLocation.booking_capacity_mode,
+            value: capacityMode ? capacityValue : existingLocation.booking_capacity_value
+        }, totalSlots);
+        const timeZone = parseTimeZone(timeZoneStr, existingLocation.time_zone);
+
         let oldCoverImageServerPath = existingLocation.cover_image_url;
         newCoverImageDbPath = oldCoverImageServerPath; 
 
@@ -136,18 +183,37 @@ router.put('/parking-location/:locationId', upload.single('coverImage'), async (
         if (newAvailableSlots > totalSlots) newAvailableSlots = totalSlots;
 
         const updateResult = await query(
-            'UPDATE parking_locations SET name = ?, latitude = ?, longitude = ?, total_slots = ?, available_slots = ?, cover_image_url = ? WHERE id = ?',
-            [name, latitude, longitude, totalSlots, newAvailableSlots, newCoverImageDbPath, locationId]
+            `UPDATE parking_locations SET name = ?, latitude = ?, longitude = ?, total_slots = ?, available_slots = ?, cover_image_url = ?,
+                    booking_capacity_mode = ?, booking_capacity_value = ?, time_zone = ?
+             WHERE id = ?`,
+            [name, latitude, longitude, totalSlots, newAvailableSlots, newCoverImageDbPath, capacityPolicy.mode, capacityPolicy.value, timeZone, locationId]
         );
 
         if (updateResult.affectedRows === 0) {
             return res.status(404).json({ message: 'Parking location not found or no changes applied.' });
         }
+        await recordAuditEvent(req, {
+            action: 'location.update', entityType: 'location', entityId: locationId,
+            before: existingLocation,
+            after: {
+                name, latitude, longitude, cover_image_url: newCoverImageDbPath, total_slots: totalSlots, available_slots: newAvailableSlots,
+                booking_capacity_mode: capacityPolicy.mode, booking_capacity_value: capacityPolicy.value, time_zone: timeZone
+            }
+        });
         res.json({ 
             message: 'Parking location updated successfully',
-            updatedLocation: { id: parseInt(locationId, 10), name, latitude, longitude, totalSlots, availableSlots: newAvailableSlots, coverImageUrl: newCoverImageDbPath }
+            updatedLocation: {
+                id: parseInt(locationId, 10), name, latitude, longitude, totalSlots, availableSlots: newAvailableSlots, coverImageUrl: newCoverImageDbPath,
+                capacityMode: capacityPolicy.mode, capacityValue: capacityPolicy.value, timeZone
+            }
         });
     } catch (err) {
+        if (err.status) {
+            if (req.file) {
+                try { await fs.unlink(req.file.path); } catch (delErr) { console.error("Error deleting new uploaded file during error rollback:", delErr); }
+            }
+            return res.status(err.status).json({ message: err.message });
+        }
         console.error(`Error updating parking location ${locationId}:`, err);
         if (req.file) {
              try { await fs.unlink(req.file.path); console.log("Rolled back uploaded file due to error:", req.file.path); } 
@@ -158,11 +224,14 @@ router.put('/parking-location/:locationId', upload.single('coverImage'), async (
 });
 
 // DELETE a parking location
-router.delete('/parking-location/:locationId', async (req, res) => {
+router.delete('/parking-location/:locationId', requirePermission('locations:write'), async (req, res) => {
     const { locationId } = req.params;
     console.log(`\n>>> Reached DELETE /api/admin/parking-location/${locationId} handler`);
     try {
-        const [location] = await query('SELECT cover_image_url FROM parking_locations WHERE id = ?', [locationId]);
+        const [location] = await query(
+            'SELECT name, latitude, longitude, cover_image_url, total_slots, available_slots FROM parking_locations WHERE id = ?',
+            [locationId]
+        );
         if (!location) {
             return res.status(404).json({ message: 'Parking location not found.' });
         }
@@ -170,6 +239,7 @@ router.delete('/parking-location/:locationId', async (req, res) => {
         if (deleteResult.affectedRows === 0) {
             return res.status(404).json({ message: 'Parking location not found or already deleted.' });
         }
+        await recordAuditEvent(req, { action: 'location.delete', entityType: 'location', entityId: locationId, before: location });
         if (location.cover_image_url) {
             const imageFileSystemPath = path.join(__dirname, '..', location.cover_image_url);
             try {
@@ -193,8 +263,22 @@ router.delete('/parking-location/:locationId', async (req, res) => {
 });
 
 // === EMPLOYEE MANAGEMENT ROUTES ===
+// Whether an employee is referenced as the one who checked a booking or vehicle in or out
+const employeeHasHistory = async (employeeId) => {
+    const [bookingRef] = await query(
+        'SELECT id FROM bookings WHERE employee_id_check_in = ? OR employee_id_check_out = ? LIMIT 1',
+        [employeeId, employeeId]
+    );
+    if (bookingRef) return true;
+    const [sessionRef] = await query(
+        'SELECT id FROM vehicle_sessions WHERE employee_id_check_in = ? OR employee_id_check_out = ? LIMIT 1',
+        [employeeId, employeeId]
+    );
+    return Boolean(sessionRef);
+};
+
 // Add new employee
-router.post('/employee', async (req, res) => {
+router.post('/employee', requirePermission('employees:write'), async (req, res) => {
     console.log('\n>>> Reached POST /api/admin/employee handler');
     try {
         const { name, email, password, parkingLocationId } = req.body;
@@ -211,10 +295,15 @@ router.post('/employee', async (req, res) => {
         if (parkingLocationId && isNaN(numericParkingLocationId)) { 
             return res.status(400).json({ message: 'Invalid Parking Location ID.' });
         }
+        // Staff accounts are created by an admin, so the address is trusted as verified
         const result = await query(
-            'INSERT INTO users (name, email, password, role, parking_location_id) VALUES (?, ?, ?, ?, ?)',
+            'INSERT INTO users (name, email, password, role, parking_location_id, email_verified_at) VALUES (?, ?, ?, ?, ?, NOW())',
             [name, email, hashedPassword, 'employee', numericParkingLocationId] 
         );
+        await recordAuditEvent(req, {
+            action: 'employee.create', entityType: 'employee', entityId: result.insertId,
+            after: { name, email, parking_location_id: numericParkingLocationId }
+        });
         res.status(201).json({
             id: result.insertId, name, email, role: 'employee', parkingLocationId: numericParkingLocationId
         });
@@ -225,16 +314,17 @@ router.post('/employee', async (req, res) => {
 });
 
 // Get all employees
-router.get('/employees', async (req, res) => {
+router.get('/employees', requirePermission('employees:read'), async (req, res) => {
     console.log('\n>>> Reached GET /api/admin/employees handler');
     try {
         const dbEmployees = await query(`
-            SELECT u.id, u.name, u.email, u.parking_location_id, pl.name as location_name
+            SELECT u.id, u.name, u.email, u.parking_location_id, u.active, u.deactivated_at, pl.name as location_name
             FROM users u LEFT JOIN parking_locations pl ON u.parking_location_id = pl.id
-            WHERE u.role = 'employee' ORDER BY u.name ASC`);
+            WHERE u.role = 'employee' ORDER BY u.active DESC, u.name ASC`);
         const formattedEmployees = dbEmployees.map(emp => ({
             id: emp.id, name: emp.name, email: emp.email,
-            parkingLocationId: emp.parking_location_id, locationName: emp.location_name 
+            parkingLocationId: emp.parking_location_id, locationName: emp.location_name,
+            active: Boolean(emp.active), deactivatedAt: emp.deactivated_at
         }));
         res.json(formattedEmployees);
     } catch (error) {
@@ -244,7 +334,7 @@ router.get('/employees', async (req, res) => {
 });
 
 // PUT update an existing employee
-router.put('/employee/:employeeId', async (req, res) => {
+router.put('/employee/:employeeId', requirePermission('employees:write'), async (req, res) => {
     const { employeeId } = req.params;
     const { name, email, parkingLocationId } = req.body;
     console.log(`\n>>> Reached PUT /api/admin/employee/${employeeId} handler. Data:`, req.body);
@@ -258,7 +348,7 @@ router.put('/employee/:employeeId', async (req, res) => {
     }
 
     try {
-        const [userToUpdate] = await query('SELECT email FROM users WHERE id = ? AND role = ?', [employeeId, 'employee']);
+        const [userToUpdate] = await query('SELECT name, email, parking_location_id FROM users WHERE id = ? AND role = ?', [employeeId, 'employee']);
         if (!userToUpdate) {
             return res.status(404).json({ message: 'Employee not found.' });
         }
@@ -275,6 +365,12 @@ router.put('/employee/:employeeId', async (req, res) => {
         if (result.affectedRows === 0) {
             return res.status(404).json({ message: 'Employee not found or no changes made.' });
         }
+        // The employee's open sessions switch to the new location on their next request
+        await bumpAuthVersion(employeeId);
+        await recordAuditEvent(req, {
+            action: 'employee.update', entityType: 'employee', entityId: employeeId,
+            before: userToUpdate, after: { name, email, parking_location_id: numericParkingLocationId }
+        });
         res.json({ message: 'Employee updated successfully' });
     } catch (err) {
         console.error(`Error updating employee ${employeeId}:`, err);
@@ -283,14 +379,21 @@ router.put('/employee/:employeeId', async (req, res) => {
 });
 
 // DELETE an employee
-router.delete('/employee/:employeeId', async (req, res) => {
+router.delete('/employee/:employeeId', requirePermission('employees:write'), async (req, res) => {
     const { employeeId } = req.params;
     console.log(`\n>>> Reached DELETE /api/admin/employee/${employeeId} handler`);
     try {
+        // The check-in/check-out foreign keys are ON DELETE SET NULL, so deleting someone with history would
+        // silently erase their name from past bookings and sessions
+        if (await employeeHasHistory(employeeId)) {
+            return res.status(400).json({ message: 'This employee has handled check-ins or check-outs. Deactivate them instead so their history is kept.' });
+        }
+        const [employee] = await query('SELECT name, email, parking_location_id FROM users WHERE id = ? AND role = ?', [employeeId, 'employee']);
         const result = await query('DELETE FROM users WHERE id = ? AND role = ?', [employeeId, 'employee']);
         if (result.affectedRows === 0) {
             return res.status(404).json({ message: 'Employee not found or already deleted.' });
         }
+        await recordAuditEvent(req, { action: 'employee.delete', entityType: 'employee', entityId: employeeId, before: employee });
         res.json({ message: 'Employee deleted successfully' });
     } catch (err) {
         console.error(`Error deleting employee ${employeeId}:`, err);
@@ -301,9 +404,157 @@ router.delete('/employee/:employeeId', async (req, res) => {
     }
 });
 
+// Deactivate an employee who has left: they can no longer log in, open sessions end, and past records keep their name
+router.post('/employee/:employeeId/deactivate', requirePermission('employees:write'), async (req, res) => {
+    const { employeeId } = req.params;
+    console.log(`\n>>> Reached POST /api/admin/employee/${employeeId}/deactivate handler`);
+    try {
+        const result = await query(
+            "UPDATE users SET active = 0, deactivated_at = NOW() WHERE id = ? AND role = 'employee' AND active = 1",
+            [employeeId]
+        );
+        if (result.affectedRows === 0) {
+            return res.status(404).json({ message: 'Employee not found or already deactivated.' });
+        }
+        await revokeAllSessionsForUser(employeeId);
+        await bumpAuthVersion(employeeId);
+        await recordAuditEvent(req, {
+            action: 'employee.deactivate', entityType: 'employee', entityId: employeeId, before: { active: true }, after: { active: false }
+        });
+        res.json({ message: 'Employee deactivated successfully' });
+    } catch (err) {
+        console.error(`Error deactivating employee ${employeeId}:`, err);
+        res.status(500).json({ message: 'Failed to deactivate employee' });
+    }
+});
+
+// Let a deactivated employee log in again
+router.post('/employee/:employeeId/reactivate', requirePermission('employees:write'), async (req, res) => {
+    const { employeeId } = req.params;
+    console.log(`\n>>> Reached POST /api/admin/employee/${employeeId}/reactivate handler`);
+    try {
+        const result = await query(
+            "UPDATE users SET active = 1, deactivated_at = NULL WHERE id = ? AND role = 'employee' AND active = 0",
+            [employeeId]
+        );
+        if (result.affectedRows === 0) {
+            return res.status(404).json({ message: 'Employee not found or already active.' });
+        }
+        await bumpAuthVersion(employeeId);
+        await recordAuditEvent(req, {
+            action: 'employee.reactivate', entityType: 'employee', entityId: employeeId, before: { active: false }, after: { active: true }
+        });
+        res.json({ message: 'Employee reactivated successfully' });
+    } catch (err) {
+        console.error(`Error reactivating employee ${employeeId}:`, err);
+        res.status(500).json({ message: 'Failed to reactivate employee' });
+    }
+});
+
+// List a user's active sessions (device, IP address, last seen)
+router.get('/users/:userId/sessions', requirePermission('users:manage'), async (req, res) => {
+    const { userId } = req.params;
+    console.log(`\n>>> Reached GET /api/admin/users/${userId}/sessions handler`);
+    try {
+        const [user] = await query('SELECT id FROM users WHERE id = ?', [userId]);
+        if (!user) {
+            return res.status(404).json({ message: 'User not found.' });
+        }
+        res.json(await listActiveSessionsForUser(user.id));
+    } catch (err) {
+        console.error(`Error fetching sessions for user ${userId}:`, err);
+        res.status(500).json({ message: 'Failed to fetch sessions' });
+    }
+});
+
+// Revoke a single session of a user
+router.delete('/users/:userId/sessions/:sessionId', requirePermission('users:manage'), async (req, res) => {
+    const { userId, sessionId } = req.params;
+    console.log(`\n>>> Reached DELETE /api/admin/users/${userId}/sessions/${sessionId} handler`);
+    try {
+        const revokedCount = await revokeSessionForUser(userId, sessionId);
+        if (revokedCount === 0) {
+            return res.status(404).json({ message: 'Session not found or already revoked.' });
+        }
+        await recordAuditEvent(req, { action: 'user.revoke_session', entityType: 'user', entityId: userId, after: { sessionId: parseInt(sessionId, 10) } });
+        res.json({ message: 'Session revoked.' });
+    } catch (err) {
+        console.error(`Error revoking session ${sessionId} for user ${userId}:`, err);
+        res.status(500).json({ message: 'Failed to revoke session' });
+    }
+});
+
+// Revoke every active session of a user (e.g. an employee left logged in on a shared kiosk)
+router.post('/users/:userId/revoke-sessions', requirePermission('users:manage'), async (req, res) => {
+    const { userId } = req.params;
+    console.log(`\n>>> Reached POST /api/admin/users/${userId}/revoke-sessions handler`);
+    try {
+        const [user] = await query('SELECT id FROM users WHERE id = ?', [userId]);
+        if (!user) {
+            return res.status(404).json({ message: 'User not found.' });
+        }
+        const revokedCount = await revokeAllSessionsForUser(user.id);
+        await recordAuditEvent(req, { action: 'user.revoke_all_sessions', entityType: 'user', entityId: user.id, after: { revokedCount } });
+        res.json({ message: `Revoked ${revokedCount} active session(s).`, revokedCount });
+    } catch (err) {
+        console.error(`Error revoking sessions for user ${userId}:`, err);
+        res.status(500).json({ message: 'Failed to revoke sessions' });
+    }
+});
+
+// Lift a login lockout caused by repeated failed attempts
+router.post('/users/:userId/unlock', requirePermission('users:manage'), async (req, res) => {
+    const { userId } = req.params;
+    console.log(`\n>>> Reached POST /api/admin/users/${userId}/unlock handler`);
+    try {
+        const [user] = await query('SELECT id, locked_until FROM users WHERE id = ?', [userId]);
+        if (!user) {
+            return res.status(404).json({ message: 'User not found.' });
+        }
+        await unlockAccount(user.id);
+        await recordAuditEvent(req, {
+            action: 'user.unlock', entityType: 'user', entityId: user.id, before: { locked_until: user.locked_until }, after: { locked_until: null }
+        });
+        res.json({ message: 'Account unlocked.' });
+    } catch (err) {
+        console.error(`Error unlocking user ${userId}:`, err);
+        res.status(500).json({ message: 'Failed to unlock account' });
+    }
+});
+
+// Recent login attempts, newest first. Optional filters: email, ip, userId, success (true/false), limit
+router.get('/login-attempts', requirePermission('security:manage'), async (req, res) => {
+    console.log('\n>>> Reached GET /api/admin/login-attempts handler');
+    try {
+        const { email, ip, userId, success } = req.query;
+        const limit = Math.min(parseInt(req.query.limit, 10) || 100, 500);
+        const conditions = [];
+        const params = [];
+        if (email) { conditions.push('la.email = ?'); params.push(email); }
+        if (ip) { conditions.push('la.ip_address = ?'); params.push(ip); }
+        if (userId) { conditions.push('la.user_id = ?'); params.push(userId); }
+        if (success === 'true' || success === 'false') { conditions.push('la.success = ?'); params.push(success === 'true' ? 1 : 0); }
+
+        const attempts = await query(
+            `SELECT la.id, la.email, la.user_id as userId, u.name as userName, la.ip_address as ipAddress,
+                    la.user_agent as userAgent, la.success, la.reason, la.attempted_at as attemptedAt
+             FROM login_attempts la
+             LEFT JOIN users u ON la.user_id = u.id
+             ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+             ORDER BY la.attempted_at DESC, la.id DESC
+             LIMIT ${limit}`,
+            params
+        );
+        res.json(attempts.map(a => ({ ...a, success: Boolean(a.success) })));
+    } catch (error) {
+        console.error('Error fetching login attempts:', error);
+        res.status(500).json({ message: 'Error fetching login attempts' });
+    }
+});
+
 // === SETTINGS ROUTES ===
 // Set global hourly rate
-router.post('/rate', async (req, res) => {
+router.post('/rate', requirePermission('rates:write'), async (req, res) => {
     console.log('\n>>> Reached POST /api/admin/rate handler');
     try {
         const { hourlyRate } = req.body;
@@ -317,6 +568,11 @@ router.post('/rate', async (req, res) => {
         } else {
             await query('INSERT INTO settings (id, hourly_rate) VALUES (1, ?)', [numericHourlyRate]);
         }
+        await recordAuditEvent(req, {
+            action: 'settings.update_rate', entityType: 'settings', entityId: 1,
+            before: existingSettings ? { hourly_rate: parseFloat(existingSettings.hourly_rate) } : null,
+            after: { hourly_rate: numericHourlyRate }
+        });
         res.json({ hourlyRate: numericHourlyRate });
     } catch (error) {
         console.error('Error setting hourly rate:', error);
@@ -325,7 +581,7 @@ router.post('/rate', async (req, res) => {
 });
 
 // Get current hourly rate
-router.get('/current-rate', async (req, res) => {
+router.get('/current-rate', requirePermission('rates:read'), async (req, res) => {
     console.log('\n>>> Reached GET /api/admin/current-rate handler');
     try {
         const [settings] = await query('SELECT hourly_rate FROM settings WHERE id = 1 LIMIT 1');
@@ -341,14 +597,495 @@ router.get('/current-rate', async (req, res) => {
     }
 });
 
+// Get the no-show grace period (minutes after the booked start) and fee
+router.get('/no-show-policy', requirePermission('rates:read'), async (req, res) => {
+    console.log('\n>>> Reached GET /api/admin/no-show-policy handler');
+    try {
+        res.json(await getNoShowPolicy());
+    } catch (error) {
+        console.error('Error fetching no-show policy:', error);
+        res.status(500).json({ message: 'Error fetching no-show policy' });
+    }
+});
+
+// Update the no-show policy, e.g. { graceMinutes: 30, fee: 100 }. Applies to the job's next run.
+router.put('/no-show-policy', requirePermission('rates:write'), async (req, res) => {
+    console.log('\n>>> Reached PUT /api/admin/no-show-policy handler');
+    try {
+        const policy = parseNoShowPolicy(req.body);
+        const currentPolicy = await getNoShowPolicy();
+        const [existingSettings] = await query('SELECT id FROM settings WHERE id = 1 LIMIT 1');
+        if (existingSettings) {
+            await query('UPDATE settings SET no_show_grace_minutes = ?, no_show_fee = ? WHERE id = 1', [policy.graceMinutes, policy.fee]);
+        } else {
+            await query(
+                'INSERT INTO settings (id, hourly_rate, no_show_grace_minutes, no_show_fee) VALUES (1, 0, ?, ?)',
+                [policy.graceMinutes, policy.fee]
+            );
+        }
+        await recordAuditEvent(req, {
+            action: 'settings.update_no_show_policy', entityType: 'settings', entityId: 'no-show-policy',
+            before: currentPolicy, after: policy
+        });
+        res.json(policy);
+    } catch (error) {
+        if (error.status) {
+            return res.status(error.status).json({ message: error.message });
+        }
+        console.error('Error updating no-show policy:', error);
+        res.status(500).json({ message: 'Error updating no-show policy' });
+    }
+});
+
+// Get which staff roles must use two-factor authentication
+router.get('/two-factor-policy', requirePermission('security:manage'), async (req, res) => {
+    console.log('\n>>> Reached GET /api/admin/two-factor-policy handler');
+    try {
+        res.json(await getTwoFactorPolicy());
+    } catch (error) {
+        console.error('Error fetching two-factor policy:', error);
+        res.status(500).json({ message: 'Error fetching two-factor policy' });
+    }
+});
+
+// Update the two-factor policy, e.g. { admin: true, employee: false }. Takes effect at each user's next login.
+router.put('/two-factor-policy', requirePermission('security:manage'), async (req, res) => {
+    console.log('\n>>> Reached PUT /api/admin/two-factor-policy handler');
+    try {
+        const currentPolicy = await getTwoFactorPolicy();
+        const roles = Object.keys(req.body);
+        for (const role of roles) {
+            if (currentPolicy[role] === undefined) {
+                return res.status(400).json({ message: `'${role}' is not a staff role.` });
+            }
+            if (typeof req.body[role] !== 'boolean') {
+                return res.status(400).json({ message: `Policy for '${role}' must be true or false.` });
+            }
+        }
+        for (const role of roles) {
+            await query(
+                'INSERT INTO two_factor_policies (role, required) VALUES (?, ?) ON DUPLICATE KEY UPDATE required = VALUES(required)',
+                [role, req.body[role] ? 1 : 0]
+            );
+        }
+        const updatedPolicy = await getTwoFactorPolicy();
+        await recordAuditEvent(req, {
+            action: 'settings.update_two_factor_policy', entityType: 'settings', entityId: 'two-factor-policy',
+            before: currentPolicy, after: updatedPolicy
+        });
+        res.json(updatedPolicy);
+    } catch (error) {
+        console.error('Error updating two-factor policy:', error);
+        res.status(500).json({ message: 'Error updating two-factor policy' });
+    }
+});
+
+// === ROLE & PERMISSION ROUTES ===
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9-]{1,49}$/;
+
+// Custom roles may only hold back-office permissions; returns an error message or null
+const validateRolePermissions = (permissions) => {
+    if (!Array.isArray(permissions)) {
+        return 'Permissions must be a list.';
+    }
+    const invalid = permissions.filter(p => !BACK_OFFICE_PERMISSIONS.includes(p));
+    if (invalid.length > 0) {
+        return `Unknown or non-assignable permission(s): ${invalid.join(', ')}`;
+    }
+    return null;
+};
+
+const setRolePermissions = async (roleName, permissions) => {
+    await query('DELETE FROM role_permissions WHERE role_name = ?', [roleName]);
+    for (const permission of new Set(permissions)) {
+        await query('INSERT INTO role_permissions (role_name, permission) VALUES (?, ?)', [roleName, permission]);
+    }
+    // Everyone holding the role picks up the change on their next request
+    await bumpAuthVersionForRole(roleName);
+};
+
+// List the permission registry
+router.get('/permissions', requirePermission('roles:manage'), (req, res) => {
+    res.json(PERMISSIONS.map(p => ({
+        ...p,
+        assignable: BACK_OFFICE_PERMISSIONS.includes(p.key),
+        apiKeyAssignable: API_KEY_PERMISSIONS.includes(p.key)
+    })));
+});
+
+// List all roles with their permissions; custom roles include their members
+router.get('/roles', requirePermission('roles:manage'), async (req, res) => {
+    console.log('\n>>> Reached GET /api/admin/roles handler');
+    try {
+        const roles = await query(
+            `SELECT r.name, r.label, r.description, r.is_system, COUNT(u.id) as memberCount
+             FROM roles r LEFT JOIN users u ON u.role = r.name
+             GROUP BY r.name, r.label, r.description, r.is_system
+             ORDER BY r.is_system DESC, r.label`
+        );
+        const members = await query(
+            `SELECT u.id, u.name, u.email, u.role FROM users u JOIN roles r ON u.role = r.name
+             WHERE r.is_system = 0 ORDER BY u.name`
+        );
+        const result = [];
+        for (const role of roles) {
+            result.push({
+                name: role.name,
+                label: role.label,
+                description: role.description,
+                isSystem: Boolean(role.is_system),
+                memberCount: parseInt(role.memberCount, 10) || 0,
+                permissions: await getRolePermissions(role.name),
+                members: members.filter(m => m.role === role.name).map(({ id, name, email }) => ({ id, name, email }))
+            });
+        }
+        res.json(result);
+    } catch (error) {
+        console.error('Error fetching roles:', error);
+        res.status(500).json({ message: 'Error fetching roles' });
+    }
+});
+
+// Create a custom role
+router.post('/roles', requirePermission('roles:manage'), async (req, res) => {
+    console.log('\n>>> Reached POST /api/admin/roles handler. Data:', req.body);
+    const { name, label, description, permissions = [] } = req.body;
+    if (!name || !ROLE_NAME_PATTERN.test(name)) {
+        return res.status(400).json({ message: 'Role name must be 2-50 characters: lowercase letters, digits and dashes, starting with a letter.' });
+    }
+    if (!label || !label.trim()) {
+        return res.status(400).json({ message: 'Role label is required.' });
+    }
+    const permissionError = validateRolePermissions(permissions);
+    if (permissionError) {
+        return res.status(400).json({ message: permissionError });
+    }
+
+    try {
+        const [existingRole] = await query('SELECT name FROM roles WHERE name = ?', [name]);
+        if (existingRole) {
+            return res.status(400).json({ message: 'A role with this name already exists.' });
+        }
+        await query('INSERT INTO roles (name, label, description, is_system) VALUES (?, ?, ?, 0)', [name, label.trim(), description || null]);
+        await setRolePermissions(name, permissions);
+        await recordAuditEvent(req, {
+            action: 'role.create', entityType: 'role', entityId: name,
+            after: { label: label.trim(), description: description || null, permissions }
+        });
+        res.status(201).json({ message: 'Role created successfully' });
+    } catch (error) {
+        console.error('Error creating role:', error);
+        res.status(500).json({ message: 'Error creating role' });
+    }
+});
+
+// Update a custom role's label, description and permissions
+router.put('/roles/:roleName', requirePermission('roles:manage'), async (req, res) => {
+    const { roleName } = req.params;
+    console.log(`\n>>> Reached PUT /api/admin/roles/${roleName} handler. Data:`, req.body);
+    const { label, description, permissions } = req.body;
+    if (!label || !label.trim()) {
+        return res.status(400).json({ message: 'Role label is required.' });
+    }
+    const permissionError = validateRolePermissions(permissions);
+    if (permissionError) {
+        return res.status(400).json({ message: permissionError });
+    }
+
+    try {
+        const [role] = await query('SELECT name, label, description, is_system FROM roles WHERE name = ?', [roleName]);
+        if (!role) {
+            return res.status(404).json({ message: 'Role not found.' });
+        }
+        if (role.is_system) {
+            return res.status(400).json({ message: 'Built-in roles cannot be changed.' });
+        }
+        const previousPermissions = await getRolePermissions(roleName);
+        await query('UPDATE roles SET label = ?, description = ? WHERE name = ?', [label.trim(), description || null, roleName]);
+        await setRolePermissions(roleName, permissions);
+        await recordAuditEvent(req, {
+            action: 'role.update', entityType: 'role', entityId: roleName,
+            before: { label: role.label, description: role.description, permissions: previousPermissions },
+            after: { label: label.trim(), description: description || null, permissions }
+        });
+        res.json({ message: 'Role updated successfully' });
+    } catch (error) {
+        console.error(`Error updating role ${roleName}:`, error);
+        res.status(500).json({ message: 'Error updating role' });
+    }
+});
+
+// Delete a custom role that nobody holds any more
+router.delete('/roles/:roleName', requirePermission('roles:manage'), async (req, res) => {
+    const { roleName } = req.params;
+    console.log(`\n>>> Reached DELETE /api/admin/roles/${roleName} handler`);
+    try {
+        const [role] = await query('SELECT name, label, description, is_system FROM roles WHERE name = ?', [roleName]);
+        if (!role) {
+            return res.status(404).json({ message: 'Role not found.' });
+        }
+        if (role.is_system) {
+            return res.status(400).json({ message: 'Built-in roles cannot be deleted.' });
+        }
+        const [holder] = await query('SELECT id FROM users WHERE role = ? LIMIT 1', [roleName]);
+        if (holder) {
+            return res.status(400).json({ message: 'Remove all members from this role before deleting it.' });
+        }
+        await query('DELETE FROM two_factor_policies WHERE role = ?', [roleName]);
+        const previousPermissions = await getRolePermissions(roleName);
+        await query('DELETE FROM roles WHERE name = ?', [roleName]); // role_permissions cascade
+        await recordAuditEvent(req, {
+            action: 'role.delete', entityType: 'role', entityId: roleName,
+            before: { label: role.label, description: role.description, permissions: previousPermissions }
+        });
+        res.json({ message: 'Role deleted successfully' });
+    } catch (error) {
+        console.error(`Error deleting role ${roleName}:`, error);
+        res.status(500).json({ message: 'Error deleting role' });
+    }
+});
+
+// Give an existing customer account (or a member of another custom role) a custom role, by email
+router.post('/roles/:roleName/members', requirePermission('roles:manage'), async (req, res) => {
+    const { roleName } = req.params;
+    const { email } = req.body;
+    console.log(`\n>>> Reached POST /api/admin/roles/${roleName}/members handler. Email:`, email);
+    if (!email) {
+        return res.status(400).json({ message: 'Email is required.' });
+    }
+
+    try {
+        const [role] = await query('SELECT name, is_system FROM roles WHERE name = ?', [roleName]);
+        if (!role) {
+            return res.status(404).json({ message: 'Role not found.' });
+        }
+        if (role.is_system) {
+            return res.status(400).json({ message: 'Use the Employees page for built-in roles.' });
+        }
+        const [user] = await query(
+            `SELECT u.id, u.role, r.is_system FROM users u LEFT JOIN roles r ON u.role = r.name WHERE u.email = ?`,
+            [email.trim()]
+        );
+        if (!user) {
+            return res.status(404).json({ message: 'No account found with this email.' });
+        }
+        // Admins and employees keep their built-in role; their pages depend on it
+        if (user.role !== 'user' && user.is_system) {
+            return res.status(400).json({ message: `This account has the built-in "${user.role}" role and cannot be given a custom role.` });
+        }
+        await query('UPDATE users SET role = ? WHERE id = ?', [roleName, user.id]);
+        await bumpAuthVersion(user.id);
+        await recordAuditEvent(req, { action: 'user.change_role', entityType: 'user', entityId: user.id, before: { role: user.role }, after: { role: roleName } });
+        res.json({ message: 'Member added to role.' });
+    } catch (error) {
+        console.error(`Error adding member to role ${roleName}:`, error);
+        res.status(500).json({ message: 'Error adding member to role' });
+    }
+});
+
+// Take a custom role away again; the account goes back to being a regular customer
+router.delete('/roles/:roleName/members/:userId', requirePermission('roles:manage'), async (req, res) => {
+    const { roleName, userId } = req.params;
+    console.log(`\n>>> Reached DELETE /api/admin/roles/${roleName}/members/${userId} handler`);
+    try {
+        const result = await query(
+            `UPDATE users u JOIN roles r ON u.role = r.name SET u.role = 'user'
+             WHERE u.id = ? AND u.role = ? AND r.is_system = 0`,
+            [userId, roleName]
+        );
+        if (result.affectedRows === 0) {
+            return res.status(404).json({ message: 'This account does not hold that role.' });
+        }
+        await bumpAuthVersion(userId);
+        await recordAuditEvent(req, { action: 'user.change_role', entityType: 'user', entityId: userId, before: { role: roleName }, after: { role: 'user' } });
+        res.json({ message: 'Member removed from role.' });
+    } catch (error) {
+        console.error(`Error removing member from role ${roleName}:`, error);
+        res.status(500).json({ message: 'Error removing member from role' });
+    }
+});
+
+// === API KEY ROUTES ===
+// List API keys (never the keys themselves)
+router.get('/api-keys', requirePermission('api-keys:manage'), async (req, res) => {
+    console.log('\n>>> Reached GET /api/admin/api-keys handler');
+    try {
+        res.json(await listApiKeys());
+    } catch (error) {
+        console.error('Error fetching API keys:', error);
+        res.status(500).json({ message: 'Error fetching API keys' });
+    }
+});
+
+// Create an API key. The plain key is in this response only.
+router.post('/api-keys', requirePermission('api-keys:manage'), async (req, res) => {
+    console.log('\n>>> Reached POST /api/admin/api-keys handler. Name:', req.body.name);
+    const { name, parkingLocationId, permissions } = req.body;
+    if (!name || !name.trim()) {
+        return res.status(400).json({ message: 'A name is required so the key can be recognised later.' });
+    }
+    if (!Array.isArray(permissions) || permissions.length === 0) {
+        return res.status(400).json({ message: 'Choose at least one permission.' });
+    }
+    const invalid = permissions.filter(p => !API_KEY_PERMISSIONS.includes(p));
+    if (invalid.length > 0) {
+        return res.status(400).json({ message: `Permission(s) not available to API keys: ${invalid.join(', ')}` });
+    }
+    const numericLocationId = parkingLocationId ? parseInt(parkingLocationId, 10) : null;
+    if (parkingLocationId && isNaN(numericLocationId)) {
+        return res.status(400).json({ message: 'Invalid Parking Location ID.' });
+    }
+    // Gate operations always happen at one location
+    if (permissions.includes('parking:operate') && !numericLocationId) {
+        return res.status(400).json({ message: 'Keys with parking:operate must be scoped to a location.' });
+    }
+
+    try {
+        if (numericLocationId) {
+            const [location] = await query('SELECT id FROM parking_locations WHERE id = ?', [numericLocationId]);
+            if (!location) {
+                return res.status(400).json({ message: 'Parking location not found.' });
+            }
+        }
+        const uniquePermissions = [...new Set(permissions)];
+        const { id, key } = await createApiKey({
+            name: name.trim(), parkingLocationId: numericLocationId, permissions: uniquePermissions, createdBy: req.user.id
+        });
+        await recordAuditEvent(req, {
+            action: 'api_key.create', entityType: 'api_key', entityId: id,
+            after: { name: name.trim(), parking_location_id: numericLocationId, permissions: uniquePermissions }
+        });
+        res.status(201).json({ id, key, message: 'API key created. Copy it now; it will not be shown again.' });
+    } catch (error) {
+        console.error('Error creating API key:', error);
+        res.status(500).json({ message: 'Error creating API key' });
+    }
+});
+
+// Revoke an API key; requests using it fail from then on
+router.delete('/api-keys/:keyId', requirePermission('api-keys:manage'), async (req, res) => {
+    const { keyId } = req.params;
+    console.log(`\n>>> Reached DELETE /api/admin/api-keys/${keyId} handler`);
+    try {
+        const revokedCount = await revokeApiKey(keyId);
+        if (revokedCount === 0) {
+            return res.status(404).json({ message: 'API key not found or already revoked.' });
+        }
+        await recordAuditEvent(req, { action: 'api_key.revoke', entityType: 'api_key', entityId: keyId });
+        res.json({ message: 'API key revoked.' });
+    } catch (error) {
+        console.error(`Error revoking API key ${keyId}:`, error);
+        res.status(500).json({ message: 'Error revoking API key' });
+    }
+});
+
+// === AUDIT LOG ROUTES ===
+const AUDIT_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Shared WHERE clause for listing and exporting. Filters: actor (name or email substring, or actorId),
+// entityType, entityId, action, from/to (YYYY-MM-DD, inclusive, days in DEFAULT_TIME_ZONE)
+const buildAuditFilter = (filters) => {
+    const { actor, actorId, entityType, entityId, action, from, to } = filters;
+    const conditions = [];
+    const params = [];
+    if (actorId) { conditions.push('ae.actor_id = ?'); params.push(actorId); }
+    if (actor) {
+        conditions.push('(ae.actor_name LIKE ? OR u.email LIKE ?)');
+        params.push(`%${actor}%`, `%${actor}%`);
+    }
+    if (entityType) { conditions.push('ae.entity_type = ?'); params.push(entityType); }
+    if (entityId) { conditions.push('ae.entity_id = ?'); params.push(String(entityId)); }
+    if (action) { conditions.push('ae.action = ?'); params.push(action); }
+    if (from) {
+        if (!AUDIT_DATE_PATTERN.test(from)) throw { status: 400, message: "'from' must be a date (YYYY-MM-DD)." };
+        conditions.push('ae.created_at >= ?'); params.push(toDbDateTime(startOfZonedDay(from)));
+    }
+    if (to) {
+        if (!AUDIT_DATE_PATTERN.test(to)) throw { status: 400, message: "'to' must be a date (YYYY-MM-DD)." };
+        conditions.push('ae.created_at < ?'); params.push(toDbDateTime(zonedDayBounds(to).end));
+    }
+    return { where: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '', params };
+};
+
+const AUDIT_SELECT = `
+    SELECT ae.id, ae.actor_id as actorId, ae.actor_name as actorName, ae.actor_role as actorRole, u.email as actorEmail,
+           ae.action, ae.entity_type as entityType, ae.entity_id as entityId,
+           ae.before_json as \`before\`, ae.after_json as \`after\`, ae.ip_address as ipAddress, ae.created_at as createdAt
+    FROM audit_events ae LEFT JOIN users u ON ae.actor_id = u.id`;
+
+// JSON columns come back parsed from mysql2, but be lenient in case the driver returns strings
+const parseAuditJson = (value) => {
+    if (value === null || value === undefined || typeof value !== 'string') return value ?? null;
+    try { return JSON.parse(value); } catch { return value; }
+};
+
+// List audit events, newest first, with paging (limit, offset)
+router.get('/audit-events', requirePermission('audit:read'), async (req, res) => {
+    console.log('\n>>> Reached GET /api/admin/audit-events handler. Filters:', req.query);
+    try {
+        const { where, params } = buildAuditFilter(req.query);
+        const limit = Math.min(parseInt(req.query.limit, 10) || 50, 500);
+        const offset = Math.max(parseInt(req.query.offset, 10) || 0, 0);
+        const [countRow] = await query(
+            `SELECT COUNT(*) as total FROM audit_events ae LEFT JOIN users u ON ae.actor_id = u.id ${where}`,
+            params
+        );
+        const events = await query(`${AUDIT_SELECT} ${where} ORDER BY ae.created_at DESC, ae.id DESC LIMIT ${limit} OFFSET ${offset}`, params);
+        const entityTypes = await query('SELECT DISTINCT entity_type as entityType FROM audit_events ORDER BY entity_type');
+        res.json({
+            total: parseInt(countRow.total, 10) || 0,
+            events: events.map(e => ({ ...e, before: parseAuditJson(e.before), after: parseAuditJson(e.after) })),
+            entityTypes: entityTypes.map(t => t.entityType)
+        });
+    } catch (error) {
+        if (error.status) {
+            return res.status(error.status).json({ message: error.message });
+        }
+        console.error('Error fetching audit events:', error);
+        res.status(500).json({ message: 'Error fetching audit events' });
+    }
+});
+
+// Quote a value for CSV (RFC 4180), and neutralise leading characters spreadsheets would run as formulas
+const toCsvCell = (value) => {
+    if (value === null || value === undefined) return '';
+    let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (/^[=+\-@]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Export every audit event matching the same filters as CSV
+router.get('/audit-events/export', requirePermission('audit:read'), async (req, res) => {
+    console.log('\n>>> Reached GET /api/admin/audit-events/export handler. Filters:', req.query);
+    try {
+        const { where, params } = buildAuditFilter(req.query);
+        const events = await query(`${AUDIT_SELECT} ${where} ORDER BY ae.created_at DESC, ae.id DESC`, params);
+        const columns = ['id', 'createdAt', 'actorId', 'actorName', 'actorEmail', 'actorRole', 'action', 'entityType', 'entityId', 'before', 'after', 'ipAddress'];
+        const lines = [columns.join(',')];
+        for (const event of events) {
+            const row = { ...event, before: parseAuditJson(event.before), after: parseAuditJson(event.after) };
+            lines.push(columns.map(column => toCsvCell(row[column])).join(','));
+        }
+        res.set('Content-Type', 'text/csv; charset=utf-8');
+        res.set('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+        res.send(lines.join('\r\n'));
+    } catch (error) {
+        if (error.status) {
+            return res.status(error.status).json({ message: error.message });
+        }
+        console.error('Error exporting audit events:', error);
+        res.status(500).json({ message: 'Error exporting audit events' });
+    }
+});
+
 // === DASHBOARD & ACTIVITY ROUTES ===
 // Get dashboard statistics
-router.get('/dashboard-stats', async (req, res) => {
+router.get('/dashboard-stats', requirePermission('dashboard:read'), async (req, res) => {
     console.log('\n>>> Reached GET /api/admin/dashboard-stats handler');
     try {
         const [locationsCountResult] = await query('SELECT COUNT(*) as count FROM parking_locations');
         const totalLocations = locationsCountResult ? parseInt(locationsCountResult.count, 10) : 0;
-        const [employeesCountResult] = await query("SELECT COUNT(*) as count FROM users WHERE role = 'employee'");
+        const [employeesCountResult] = await query("SELECT COUNT(*) as count FROM users WHERE role = 'employee' AND active = 1");
         const totalEmployees = employeesCountResult ? parseInt(employeesCountResult.count, 10) : 0;
         const [activeBookingsResult] = await query("SELECT COUNT(*) as count FROM bookings WHERE status = 'confirmed' OR status = 'checked-in'");
         const totalBookings = activeBookingsResult ? parseInt(activeBookingsResult.count, 10) : 0;
@@ -369,7 +1106,7 @@ router.get('/dashboard-stats', async (req, res) => {
 });
 
 // Get recent activity -- CORRECTED
-router.get('/recent-activity', async (req, res) => {
+router.get('/recent-activity', requirePermission('dashboard:read'), async (req, res) => {
     console.log('\n>>> Reached GET /api/admin/recent-activity handler');
     try {
         const limit = 5; 
@@ -428,7 +1165,7 @@ router.get('/recent-activity', async (req, res) => {
 
 // === FEEDBACK ROUTE ===
 // Get all feedback (admin view)
-router.get('/feedbacks', async (req, res) => {
+router.get('/feedbacks', requirePermission('feedback:read'), async (req, res) => {
     console.log('\n>>> Reached GET /api/admin/feedbacks handler');
     try {
         const dbFeedbacks = await query(`
@@ -449,32 +1186,46 @@ router.get('/feedbacks', async (req, res) => {
 });
 
 // === ADMIN BOOKING VIEW ROUTE (Corrected for b.created_at) ===
-router.get('/bookings', async (req, res) => {
+router.get('/bookings', requirePermission('bookings:read'), async (req, res) => {
     console.log('\n>>> Reached GET /api/admin/bookings handler');
+    // A location-scoped API key (e.g. a display board) only sees its own location's bookings
+    const scopedLocationId = req.user.apiKeyId ? req.user.parkingLocationId : null;
     const sqlQuery = `
         SELECT 
             b.id, 
+            b.user_id as userId,
             b.start_time, 
             b.end_time, 
             b.status, 
             b.license_plate_booked,
             b.checked_in_license_plate,
             b.actual_entry_time,
+            b.no_show_fee,
+            b.quoted_amount,
+            b.final_cost,
             /* b.created_at, -- This column does not exist in your bookings table */
             u.name as userName, 
             u.email as userEmail,
+            u.phone as userPhone,
             pl.name as locationName,
-            e_check_in.name as checkedInByEmployeeName
+            pl.time_zone as locationTimeZone,
+            e_check_in.name as checkedInByEmployeeName,
+            e_check_out.name as checkedOutByEmployeeName,
+            b.created_by_user_id as createdByUserId,
+            creator.name as createdByName
         FROM bookings b
         JOIN users u ON b.user_id = u.id
         JOIN parking_locations pl ON b.parking_location_id = pl.id
         LEFT JOIN users e_check_in ON b.employee_id_check_in = e_check_in.id 
+        LEFT JOIN users e_check_out ON b.employee_id_check_out = e_check_out.id
+        LEFT JOIN users creator ON b.created_by_user_id = creator.id
+        ${scopedLocationId ? 'WHERE b.parking_location_id = ?' : ''}
         ORDER BY b.start_time DESC`;
     
     console.log('Executing SQL for /api/admin/bookings:', sqlQuery.replace(/\s\s+/g, ' ').trim());
 
     try {
-        const allBookings = await query(sqlQuery);
+        const allBookings = await query(sqlQuery, scopedLocationId ? [scopedLocationId] : []);
         
         if (!Array.isArray(allBookings)) {
             console.error('CRITICAL: Data from DB query is not an array for /api/admin/bookings. Received:', allBookings);
@@ -483,9 +1234,12 @@ router.get('/bookings', async (req, res) => {
 
         const formattedBookings = allBookings.map(b => ({
             ...b, 
-            startTime: b.start_time, 
-            endTime: b.end_time,
-            actualEntryTime: b.actual_entry_time,
+            startTime: toZonedIso(b.start_time, b.locationTimeZone), 
+            endTime: toZonedIso(b.end_time, b.locationTimeZone),
+            actualEntryTime: toZonedIso(b.actual_entry_time, b.locationTimeZone),
+            noShowFee: b.no_show_fee === null ? null : parseFloat(b.no_show_fee),
+            quotedAmount: b.quoted_amount === null ? null : parseFloat(b.quoted_amount),
+            finalCost: b.final_cost === null ? null : parseFloat(b.final_cost),
             // createdAt will be undefined from DB, frontend will show N/A
         }));
         
@@ -497,6 +1251,78 @@ router.get('/bookings', async (req, res) => {
     }
 });
 
+// No-show report for bookings that started between from and to (YYYY-MM-DD in DEFAULT_TIME_ZONE, inclusive; default the last 30 days):
+// per-location no-show rate and fees, plus the no-show bookings themselves
+router.get('/reports/no-shows', requirePermission('bookings:read'), async (req, res) => {
+    console.log('\n>>> Reached GET /api/admin/reports/no-shows handler. Filters:', req.query);
+    const today = startOfZonedDay(new Date(), DEFAULT_TIME_ZONE);
+    const from = req.query.from || today.subtract(29, 'day').format('YYYY-MM-DD');
+    const to = req.query.to || today.format('YYYY-MM-DD');
+    if (!AUDIT_DATE_PATTERN.test(from) || !AUDIT_DATE_PATTERN.test(to)) {
+        return res.status(400).json({ message: "'from' and 'to' must be dates (YYYY-MM-DD)." });
+    }
+    const scopedLocationId = req.user.apiKeyId ? req.user.parkingLocationId : null;
+    const conditions = ['b.start_time >= ?', 'b.start_time < ?'];
+    const params = [toDbDateTime(startOfZonedDay(from)), toDbDateTime(zonedDayBounds(to).end)];
+    if (scopedLocationId) { conditions.push('b.parking_location_id = ?'); params.push(scopedLocationId); }
+    const where = `WHERE ${conditions.join(' AND ')}`;
+
+    try {
+        // Bookings that were due: cancelled ones and ones still ahead don't count towards the rate
+        const summaryRows = await query(
+            `SELECT pl.id as locationId, pl.name as locationName,
+                    SUM(b.status IN ('checked-in', 'completed', 'no-show')) as dueBookings,
+                    SUM(b.status = 'no-show') as noShows,
+                    COALESCE(SUM(CASE WHEN b.status = 'no-show' THEN b.no_show_fee END), 0) as feesCharged
+             FROM bookings b
+             JOIN parking_locations pl ON b.parking_location_id = pl.id
+             ${where}
+             GROUP BY pl.id, pl.name
+             ORDER BY pl.name`,
+            params
+        );
+        const noShowBookings = await query(
+            `SELECT b.id, b.start_time as startTime, b.end_time as endTime, b.no_show_at as noShowAt, b.no_show_fee as noShowFee,
+                    b.license_plate_booked as licensePlateBooked, u.name as userName, u.email as userEmail, pl.name as locationName,
+                    pl.time_zone as locationTimeZone
+             FROM bookings b
+             JOIN users u ON b.user_id = u.id
+             JOIN parking_locations pl ON b.parking_location_id = pl.id
+             ${where} AND b.status = 'no-show'
+             ORDER BY b.start_time DESC`,
+            params
+        );
+
+        const summary = summaryRows.map(row => {
+            const dueBookings = Number(row.dueBookings) || 0;
+            const noShows = Number(row.noShows) || 0;
+            return {
+                locationId: row.locationId,
+                locationName: row.locationName,
+                dueBookings,
+                noShows,
+                noShowRate: dueBookings > 0 ? Math.round(noShows / dueBookings * 1000) / 10 : 0,
+                feesCharged: parseFloat(row.feesCharged) || 0
+            };
+        });
+        res.json({
+            from,
+            to,
+            summary,
+            bookings: noShowBookings.map(b => ({
+                ...b,
+                startTime: toZonedIso(b.startTime, b.locationTimeZone),
+                endTime: toZonedIso(b.endTime, b.locationTimeZone),
+                noShowAt: toZonedIso(b.noShowAt, b.locationTimeZone),
+                noShowFee: b.noShowFee === null ? null : parseFloat(b.noShowFee)
+            }))
+        });
+    } catch (error) {
+        console.error('Error building no-show report:', error);
+        res.status(500).json({ message: 'Error building no-show report' });
+    }
+});
+
 export default router;
 
 // // server/routes/admin.js
@@ -1,18 +1,159 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import validator from 'validator';
 import { query } from '../config/database.js';
 import { verifyToken } from '../middleware/auth.js';
+import {
+  createSession,
+  rotateSession,
+  revokeSessionByRefreshToken,
+  revokeAllSessionsForUser,
+  revokeOtherSessionsForUser,
+  revokeSessionForUser,
+  listActiveSessionsForUser,
+  hashToken
+} from '../utils/sessions.js';
+import { sendMail, appUrl } from '../utils/mailer.js';
+import { escapeHtml } from '../utils/html.js';
+import { bumpAuthVersion } from '../utils/currentUser.js';
+import { getRolePermissions } from '../utils/permissions.js';
+import {
+  canUseTwoFactor,
+  signTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  isTwoFactorRequiredForRole,
+  startEnrollment,
+  confirmEnrollment,
+  verifySecondFactor,
+  replaceRecoveryCodes,
+  disableTwoFactor,
+  countRemainingRecoveryCodes
+} from '../utils/twoFactor.js';
+import {
+  getLoginRetryAfter,
+  recordLoginFailure,
+  recordBlockedAttempt,
+  recordLoginSuccess,
+  unlockAccount,
+  lockoutResponse
+} from '../utils/loginThrottle.js';
+import { isOidcEnabled, getPublicOidcConfig, startOidcLogin, completeOidcLogin, resolveOidcUser } from '../utils/oidc.js';
+import { recordAuditEvent } from '../utils/audit.js';
 
 const router = express.Router();
 
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10);
+const EMAIL_VERIFICATION_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24', 10);
+const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+
+// Issue a fresh verification link (older unused links stop working) and mail it to the user
+const sendVerificationEmail = async (user) => {
+  await query('UPDATE email_verification_tokens SET used_at = NOW() WHERE user_id = ? AND used_at IS NULL', [user.id]);
+
+  const verificationToken = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+  await query(
+    'INSERT INTO email_verification_tokens (user_id, email, token_hash, expires_at) VALUES (?, ?, ?, ?)',
+    [user.id, user.email, hashToken(verificationToken), expiresAt]
+  );
+
+  const verificationLink = appUrl(`/verify-email?token=${verificationToken}`);
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your ParkEase email address',
+    text: `Hi ${user.name},\n\nPlease confirm your email address by opening the link below. It expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours.\n\n${verificationLink}`,
+    html: `<p>Hi ${escapeHtml(user.name)},</p><p>Please confirm your email address by opening the link below. It expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours.</p><p><a href="${escapeHtml(verificationLink)}">Verify my email</a></p>`
+  });
+};
+
+// The user object the client keeps in AuthContext
+const serializeUser = async (user) => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  role: user.role,
+  parkingLocationId: user.parking_location_id,
+  emailVerified: Boolean(user.email_verified_at),
+  authVersion: user.auth_version,
+  permissions: await getRolePermissions(user.role)
+});
+
+// Start a session and build the response body shared by every successful login step.
+// `source` ({ ip, userAgent }) is stored on the session for the active sessions list.
+const buildLoginResponse = async (user, source) => {
+  // Also covers accounts deactivated between the password step and a two-factor step
+  if (!user.active) {
+    throw { status: 403, message: 'This account has been deactivated. Please contact an administrator.' };
+  }
+  const { token, refreshToken } = await createSession(user, source);
+  return {
+    token,
+    refreshToken,
+    user: await serializeUser(user)
+  };
+};
+
+// Where a login attempt came from, for throttling and the login attempt log
+const attemptSource = (req) => ({ ip: req.ip, userAgent: req.get('user-agent') });
+
+const sendLockout = (res, retryAfterSeconds) => {
+  res.set('Retry-After', String(retryAfterSeconds));
+  return res.status(429).json(lockoutResponse(retryAfterSeconds));
+};
+
+// The first factor (password or single sign-on) checked out: either issue tokens or ask for the second step
+const respondToFirstFactor = async (res, user, source) => {
+  // Accounts with two-factor enabled get a challenge instead of tokens
+  if (user.totp_enabled_at) {
+    return res.json({ twoFactorRequired: true, challengeToken: signTwoFactorChallenge(user.id, 'verify') });
+  }
+  // Staff roles can be required to enrol before their first session
+  if (canUseTwoFactor(user.role) && await isTwoFactorRequiredForRole(user.role)) {
+    return res.json({ twoFactorSetupRequired: true, challengeToken: signTwoFactorChallenge(user.id, 'setup') });
+  }
+
+  // Return user data and tokens. Counters reset only once the response is built, which can still refuse the account.
+  const response = await buildLoginResponse(user, source);
+  await recordLoginSuccess({ user, ...source });
+  res.json(response);
+};
+
+const requireStaffAccount = (req, res, next) => {
+  if (!canUseTwoFactor(req.user.role)) {
+    return res.status(403).json({ message: 'Two-factor authentication is only available for staff accounts' });
+  }
+  next();
+};
+
+const findUserById = async (userId) => {
+  const [user] = await query('SELECT * FROM users WHERE id = ?', [userId]);
+  return user;
+};
+
 // Register a new user
 router.post('/register', async (req, res) => {
   try {
-    const { name, email, password } = req.body;
+    const { name, password } = req.body;
+    const email = typeof req.body.email === 'string' ? req.body.email.trim() : '';
+
+    // Validate input
+    if (!name || !email || !password) {
+      return res.status(400).json({ message: 'Name, email and password are required' });
+    }
+    if (!validator.isEmail(email)) {
+      return res.status(400).json({ message: 'Please enter a valid email address' });
+    }
+    if (password.length < 6) {
+      return res.status(400).json({ message: 'Password must be at least 6 characters long' });
+    }
 
     // Check if user already exists
     const existingUser = await query('SELECT * FROM users WHERE email = ?', [email]);
+    if (existingUser.length > 0 && existingUser[0].is_guest) {
+      // Staff booked for this customer before; the account is theirs once they set a password
+      return res.status(400).json({ message: 'We already have bookings for this email. Use "Forgot password" to set a password for it.' });
+    }
     if (existingUser.length > 0) {
       return res.status(400).json({ message: 'User already exists with this email' });
     }
@@ -21,27 +162,34 @@ router.post('/register', async (req, res) => {
     const salt = await bcrypt.genSalt(10);
     const hashedPassword = await bcrypt.hash(password, salt);
 
-    // Insert user into database
+    // Insert user into database (unverified until the emailed link is opened)
     const result = await query(
-      'INSERT INTO users (name, email, password, role) VALUES (?, ?, ?, ?)',
+      'INSERT INTO users (name, email, password, role, email_verified_at) VALUES (?, ?, ?, ?, NULL)',
       [name, email, hashedPassword, 'user']
     );
 
-    // Create JWT token
-    const token = jwt.sign(
-      { id: result.insertId, name, email, role: 'user' },
-      process.env.JWT_SECRET,
-      { expiresIn: process.env.JWT_EXPIRATION }
-    );
+    // A mail failure shouldn't lose the account; the user can resend from the app
+    try {
+      await sendVerificationEmail({ id: result.insertId, name, email });
+    } catch (mailError) {
+      console.error('Error sending verification email:', mailError);
+    }
+
+    // Start a session and issue the access/refresh token pair
+    const { token, refreshToken } = await createSession({ id: result.insertId, name, email, role: 'user' }, attemptSource(req));
 
-    // Return user data and token
+    // Return user data and tokens
     res.status(201).json({
       token,
+      refreshToken,
       user: {
         id: result.insertId,
         name,
         email,
-        role: 'user'
+        role: 'user',
+        emailVerified: false,
+        authVersion: 0,
+        permissions: await getRolePermissions('user')
       }
     });
   } catch (error) {
@@ -55,36 +203,214 @@ router.post('/login', async (req, res) => {
   try {
     const { email, password } = req.body;
 
+    const source = attemptSource(req);
+
     // Check if user exists
     const users = await query('SELECT * FROM users WHERE email = ?', [email]);
-    if (users.length === 0) {
-      return res.status(400).json({ message: 'Invalid email or password' });
+    const user = users[0];
+
+    // Refuse while the account or this IP address is locked out, without checking the password
+    const retryAfterSeconds = await getLoginRetryAfter({ user, ip: source.ip });
+    if (retryAfterSeconds > 0) {
+      await recordBlockedAttempt({ email, user, ...source });
+      return sendLockout(res, retryAfterSeconds);
     }
 
-    const user = users[0];
+    if (!user) {
+      await recordLoginFailure({ email, ...source, reason: 'unknown_email' });
+      return res.status(400).json({ message: 'Invalid email or password' });
+    }
 
     // Check password
     const isMatch = await bcrypt.compare(password, user.password);
     if (!isMatch) {
+      const lockSeconds = await recordLoginFailure({ email, user, ...source });
+      if (lockSeconds > 0) {
+        return sendLockout(res, lockSeconds);
+      }
       return res.status(400).json({ message: 'Invalid email or password' });
     }
 
-    // Create JWT token
-    const token = jwt.sign(
-      { 
-        id: user.id, 
-        name: user.name, 
-        email: user.email, 
-        role: user.role,
-        parkingLocationId: user.parking_location_id 
-      },
-      process.env.JWT_SECRET,
-      { expiresIn: process.env.JWT_EXPIRATION }
-    );
+    // Only tell someone the account is deactivated once they've proven they know its password
+    if (!user.active) {
+      await recordBlockedAttempt({ email, user, ...source, reason: 'deactivated' });
+      return res.status(403).json({ message: 'This account has been deactivated. Please contact an administrator.', code: 'ACCOUNT_DEACTIVATED' });
+    }
+
+    await respondToFirstFactor(res, user, source);
+  } catch (error) {
+    console.error('Error logging in:', error);
+    res.status(500).json({ message: 'Error logging in' });
+  }
+});
+
+// Login step two: an authenticator code or a recovery code for the challenge issued by /login
+router.post('/login/2fa', async (req, res) => {
+  const { challengeToken, code, recoveryCode } = req.body;
+  if (!challengeToken || (!code && !recoveryCode)) {
+    return res.status(400).json({ message: 'Authentication code is required' });
+  }
 
-    // Return user data and token
+  try {
+    const userId = verifyTwoFactorChallenge(challengeToken, 'verify');
+    const user = await findUserById(userId);
+    if (!user) {
+      return res.status(401).json({ message: 'User not found' });
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const source = attemptSource(req);
+    const retryAfterSeconds = await getLoginRetryAfter({ user, ip: source.ip });
+    if (retryAfterSeconds > 0) {
+      await recordBlockedAttempt({ email: user.email, user, ...source });
+      return sendLockout(res, retryAfterSeconds);
+    }
+
+    const isValid = await verifySecondFactor(userId, { code, recoveryCode });
+    if (!isValid) {
+      const lockSeconds = await recordLoginFailure({ email: user.email, user, ...source, reason: 'invalid_two_factor' });
+      if (lockSeconds > 0) {
+        return sendLockout(res, lockSeconds);
+      }
+      return res.status(400).json({ message: recoveryCode ? 'Invalid or already used recovery code' : 'Invalid authentication code' });
+    }
+
+    const response = await buildLoginResponse(user, source);
+    await recordLoginSuccess({ user, ...source });
+    if (recoveryCode) {
+      response.recoveryCodesRemaining = await countRemainingRecoveryCodes(userId);
+    }
+    res.json(response);
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error verifying two-factor login:', error);
+    res.status(500).json({ message: 'Error verifying two-factor login' });
+  }
+});
+
+// Mandatory enrolment during login: get a secret/QR code for the challenge issued by /login
+router.post('/login/2fa/setup', async (req, res) => {
+  const { challengeToken } = req.body;
+  if (!challengeToken) {
+    return res.status(400).json({ message: 'Challenge token is required' });
+  }
+
+  try {
+    const user = await findUserById(verifyTwoFactorChallenge(challengeToken, 'setup'));
+    if (!user) {
+      return res.status(401).json({ message: 'User not found' });
+    }
+    res.json(await startEnrollment(user));
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error starting two-factor setup:', error);
+    res.status(500).json({ message: 'Error starting two-factor setup' });
+  }
+});
+
+// Mandatory enrolment during login: confirm the first code, then sign in
+router.post('/login/2fa/setup/confirm', async (req, res) => {
+  const { challengeToken, code } = req.body;
+  if (!challengeToken || !code) {
+    return res.status(400).json({ message: 'Authentication code is required' });
+  }
+
+  try {
+    const userId = verifyTwoFactorChallenge(challengeToken, 'setup');
+    const recoveryCodes = await confirmEnrollment(userId, code);
+    const user = await findUserById(userId);
+    const source = attemptSource(req);
+    const response = await buildLoginResponse(user, source);
+    await recordLoginSuccess({ user, ...source });
+    res.json({ ...response, recoveryCodes });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error confirming two-factor setup:', error);
+    res.status(500).json({ message: 'Error confirming two-factor setup' });
+  }
+});
+
+// Single sign-on: whether it's configured and what to call the button on the login page
+router.get('/oidc/config', (req, res) => {
+  res.json(getPublicOidcConfig());
+});
+
+// Single sign-on step one: get the identity provider URL to send the browser to
+router.post('/oidc/authorize', async (req, res) => {
+  if (!isOidcEnabled()) {
+    return res.status(404).json({ message: 'Single sign-on is not configured' });
+  }
+  try {
+    res.json(await startOidcLogin());
+  } catch (error) {
+    console.error('Error starting single sign-on:', error);
+    res.status(502).json({ message: 'Could not reach the identity provider. Please try again later.' });
+  }
+});
+
+// Single sign-on step two: the provider redirected back with a code; sign in the linked (or new) account
+router.post('/oidc/callback', async (req, res) => {
+  if (!isOidcEnabled()) {
+    return res.status(404).json({ message: 'Single sign-on is not configured' });
+  }
+  const { code, state, browserKey, error: providerError } = req.body;
+  if (providerError) {
+    return res.status(400).json({ message: 'Sign-in was cancelled or refused by the identity provider.' });
+  }
+  if (typeof code !== 'string' || typeof state !== 'string' || !code || !state) {
+    return res.status(400).json({ message: 'Authorization code and state are required' });
+  }
+  // Only the browser that started the sign-in has the key
+  if (typeof browserKey !== 'string' || !browserKey) {
+    return res.status(400).json({ message: 'This sign-in was not started from this browser. Please try again.' });
+  }
+
+  try {
+    const identity = await completeOidcLogin({ code, state, browserKey });
+    const { user, outcome } = await resolveOidcUser(identity);
+    if (outcome !== 'existing') {
+      await recordAuditEvent(req, {
+        action: outcome === 'provisioned' ? 'user.provision_sso' : 'user.link_sso_identity',
+        entityType: 'user',
+        entityId: user.id,
+        after: { email: user.email, issuer: identity.issuer, subject: identity.subject }
+      });
+    }
+
+    const source = attemptSource(req);
+    if (!user.active) {
+      await recordBlockedAttempt({ email: user.email, user, ...source, reason: 'deactivated' });
+      return res.status(403).json({ message: 'This account has been deactivated. Please contact an administrator.', code: 'ACCOUNT_DEACTIVATED' });
+    }
+
+    await respondToFirstFactor(res, user, source);
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error completing single sign-on:', error);
+    res.status(500).json({ message: 'Error completing single sign-on' });
+  }
+});
+
+// Exchange a refresh token for a new access/refresh token pair (rotates the refresh token)
+router.post('/refresh', async (req, res) => {
+  const { refreshToken } = req.body;
+  if (!refreshToken || typeof refreshToken !== 'string') {
+    return res.status(400).json({ message: 'Refresh token is required' });
+  }
+
+  try {
+    const { token, refreshToken: newRefreshToken, user } = await rotateSession(refreshToken, attemptSource(req));
     res.json({
       token,
+      refreshToken: newRefreshToken,
       user: {
         id: user.id,
         name: user.name,
@@ -94,8 +420,283 @@ router.post('/login', async (req, res) => {
       }
     });
   } catch (error) {
-    console.error('Error logging in:', error);
-    res.status(500).json({ message: 'Error logging in' });
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error refreshing session:', error);
+    res.status(500).json({ message: 'Error refreshing session' });
+  }
+});
+
+// Logout - revokes the session server-side so neither token can be used again
+router.post('/logout', async (req, res) => {
+  const { refreshToken } = req.body;
+  try {
+    if (refreshToken && typeof refreshToken === 'string') {
+      await revokeSessionByRefreshToken(refreshToken);
+    }
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Error logging out:', error);
+    res.status(500).json({ message: 'Error logging out' });
+  }
+});
+
+// Request a password reset link. Always answers the same way so it can't be used to probe for accounts.
+router.post('/password-reset/request', async (req, res) => {
+  const { email } = req.body;
+  const genericResponse = { message: 'If an account exists for this email, a password reset link has been sent.' };
+
+  if (!email || typeof email !== 'string') {
+    return res.status(400).json({ message: 'Email is required' });
+  }
+
+  try {
+    const [user] = await query('SELECT id, name, email FROM users WHERE email = ?', [email.trim()]);
+    if (!user) {
+      return res.json(genericResponse);
+    }
+
+    // Only the newest link should work
+    await query('UPDATE password_reset_tokens SET used_at = NOW() WHERE user_id = ? AND used_at IS NULL', [user.id]);
+
+    const resetToken = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+    await query(
+      'INSERT INTO password_reset_tokens (user_id, token_hash, expires_at) VALUES (?, ?, ?)',
+      [user.id, hashToken(resetToken), expiresAt]
+    );
+
+    const resetLink = appUrl(`/reset-password?token=${resetToken}`);
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your ParkEase password',
+      text: `Hi ${user.name},\n\nUse the link below to choose a new password. It expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and can only be used once.\n\n${resetLink}\n\nIf you didn't ask for this, you can ignore this email.`,
+      html: `<p>Hi ${escapeHtml(user.name)},</p><p>Use the link below to choose a new password. It expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and can only be used once.</p><p><a href="${escapeHtml(resetLink)}">Reset my password</a></p><p>If you didn't ask for this, you can ignore this email.</p>`
+    });
+
+    res.json(genericResponse);
+  } catch (error) {
+    console.error('Error requesting password reset:', error);
+    res.status(500).json({ message: 'Error requesting password reset' });
+  }
+});
+
+// Set a new password using a reset token
+router.post('/password-reset/confirm', async (req, res) => {
+  const { token, password } = req.body;
+
+  if (!token || typeof token !== 'string' || !password) {
+    return res.status(400).json({ message: 'Reset token and new password are required' });
+  }
+  if (password.length < 6) {
+    return res.status(400).json({ message: 'Password must be at least 6 characters long' });
+  }
+
+  try {
+    const [resetToken] = await query(
+      'SELECT id, user_id FROM password_reset_tokens WHERE token_hash = ? AND used_at IS NULL AND expires_at > NOW()',
+      [hashToken(token)]
+    );
+    if (!resetToken) {
+      return res.status(400).json({ message: 'This reset link is invalid or has expired' });
+    }
+
+    // Mark used first so the token can't be replayed by a concurrent request
+    const claimResult = await query('UPDATE password_reset_tokens SET used_at = NOW() WHERE id = ? AND used_at IS NULL', [resetToken.id]);
+    if (claimResult.affectedRows === 0) {
+      return res.status(400).json({ message: 'This reset link is invalid or has expired' });
+    }
+
+    const salt = await bcrypt.genSalt(10);
+    const hashedPassword = await bcrypt.hash(password, salt);
+    // A guest contact added by staff becomes a full account; the link also proves they own the email
+    await query(
+      `UPDATE users SET password = ?,
+              email_verified_at = IF(is_guest = 1, COALESCE(email_verified_at, NOW()), email_verified_at),
+              is_guest = 0
+       WHERE id = ?`,
+      [hashedPassword, resetToken.user_id]
+    );
+
+    // Whoever knew the old password shouldn't stay logged in
+    await revokeAllSessionsForUser(resetToken.user_id);
+    // The reset link proves ownership, so lift any lockout from earlier wrong guesses
+    await unlockAccount(resetToken.user_id);
+
+    res.json({ message: 'Password has been reset. You can now sign in with your new password.' });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    res.status(500).json({ message: 'Error resetting password' });
+  }
+});
+
+// Confirm an email address using the token from the verification link
+router.post('/verify-email', async (req, res) => {
+  const { token } = req.body;
+  if (!token || typeof token !== 'string') {
+    return res.status(400).json({ message: 'Verification token is required' });
+  }
+
+  try {
+    const [verification] = await query(
+      `SELECT t.id, t.user_id, t.email
+       FROM email_verification_tokens t JOIN users u ON t.user_id = u.id
+       WHERE t.token_hash = ? AND t.used_at IS NULL AND t.expires_at > NOW()`,
+      [hashToken(token)]
+    );
+    if (!verification) {
+      return res.status(400).json({ message: 'This verification link is invalid or has expired' });
+    }
+
+    await query('UPDATE email_verification_tokens SET used_at = NOW() WHERE id = ?', [verification.id]);
+
+    // Only verify the address the link was sent to, in case the email was changed in the meantime
+    const result = await query(
+      'UPDATE users SET email_verified_at = NOW() WHERE id = ? AND email = ?',
+      [verification.user_id, verification.email]
+    );
+    if (result.affectedRows === 0) {
+      return res.status(400).json({ message: 'This verification link is for an email address no longer on the account' });
+    }
+
+    res.json({ message: 'Email address verified successfully.' });
+  } catch (error) {
+    console.error('Error verifying email:', error);
+    res.status(500).json({ message: 'Error verifying email' });
+  }
+});
+
+// Resend the verification email for the logged-in user
+router.post('/verify-email/resend', verifyToken(), async (req, res) => {
+  try {
+    const [user] = await query('SELECT id, name, email, email_verified_at FROM users WHERE id = ?', [req.user.id]);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (user.email_verified_at) {
+      return res.status(400).json({ message: 'Your email address is already verified' });
+    }
+
+    const [recent] = await query(
+      'SELECT id FROM email_verification_tokens WHERE user_id = ? AND created_at > NOW() - INTERVAL ? SECOND',
+      [user.id, VERIFICATION_RESEND_COOLDOWN_SECONDS]
+    );
+    if (recent) {
+      return res.status(429).json({ message: 'A verification email was sent recently. Please wait a minute before trying again.' });
+    }
+
+    await sendVerificationEmail(user);
+    res.json({ message: `Verification email sent to ${user.email}.` });
+  } catch (error) {
+    console.error('Error resending verification email:', error);
+    res.status(500).json({ message: 'Error resending verification email' });
+  }
+});
+
+// Two-factor status for the logged-in staff member
+router.get('/2fa/status', verifyToken(), requireStaffAccount, async (req, res) => {
+  try {
+    const user = await findUserById(req.user.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    res.json({
+      enabled: Boolean(user.totp_enabled_at),
+      enabledAt: user.totp_enabled_at,
+      required: await isTwoFactorRequiredForRole(user.role),
+      recoveryCodesRemaining: user.totp_enabled_at ? await countRemainingRecoveryCodes(user.id) : 0
+    });
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error);
+    res.status(500).json({ message: 'Error fetching two-factor status' });
+  }
+});
+
+// Start (or restart) enrolment from account settings
+router.post('/2fa/setup', verifyToken(), requireStaffAccount, async (req, res) => {
+  try {
+    const user = await findUserById(req.user.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (user.totp_enabled_at) {
+      return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+    }
+    res.json(await startEnrollment(user));
+  } catch (error) {
+    console.error('Error starting two-factor setup:', error);
+    res.status(500).json({ message: 'Error starting two-factor setup' });
+  }
+});
+
+// Confirm enrolment from account settings; returns the recovery codes once
+router.post('/2fa/enable', verifyToken(), requireStaffAccount, async (req, res) => {
+  const { code } = req.body;
+  if (!code) {
+    return res.status(400).json({ message: 'Authentication code is required' });
+  }
+
+  try {
+    const recoveryCodes = await confirmEnrollment(req.user.id, code);
+    res.json({ message: 'Two-factor authentication enabled.', recoveryCodes });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error enabling two-factor authentication:', error);
+    res.status(500).json({ message: 'Error enabling two-factor authentication' });
+  }
+});
+
+// Turn two-factor off. Needs the password and a current code, and is refused while the role requires it.
+router.post('/2fa/disable', verifyToken(), requireStaffAccount, async (req, res) => {
+  const { password, code } = req.body;
+  if (!password || !code) {
+    return res.status(400).json({ message: 'Password and authentication code are required' });
+  }
+
+  try {
+    const user = await findUserById(req.user.id);
+    if (!user || !user.totp_enabled_at) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      return res.status(403).json({ message: 'Two-factor authentication is mandatory for your role and cannot be disabled' });
+    }
+
+    const isMatch = await bcrypt.compare(password, user.password);
+    if (!isMatch) {
+      return res.status(400).json({ message: 'Password is incorrect' });
+    }
+    if (!(await verifySecondFactor(user.id, { code }))) {
+      return res.status(400).json({ message: 'Invalid authentication code' });
+    }
+
+    await disableTwoFactor(user.id);
+    res.json({ message: 'Two-factor authentication disabled.' });
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error);
+    res.status(500).json({ message: 'Error disabling two-factor authentication' });
+  }
+});
+
+// Replace all recovery codes (old ones stop working)
+router.post('/2fa/recovery-codes', verifyToken(), requireStaffAccount, async (req, res) => {
+  const { code } = req.body;
+  if (!code) {
+    return res.status(400).json({ message: 'Authentication code is required' });
+  }
+
+  try {
+    if (!(await verifySecondFactor(req.user.id, { code }))) {
+      return res.status(400).json({ message: 'Invalid authentication code' });
+    }
+    const recoveryCodes = await replaceRecoveryCodes(req.user.id);
+    res.json({ message: 'New recovery codes generated.', recoveryCodes });
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error);
+    res.status(500).json({ message: 'Error regenerating recovery codes' });
   }
 });
 
@@ -104,7 +705,7 @@ router.get('/me', verifyToken(), async (req, res) => {
   try {
     const userId = req.user.id;
     
-    const users = await query('SELECT id, name, email, role, parking_location_id FROM users WHERE id = ?', [userId]);
+    const users = await query('SELECT id, name, email, role, parking_location_id, email_verified_at, auth_version FROM users WHERE id = ?', [userId]);
     
     if (users.length === 0) {
       return res.status(404).json({ message: 'User not found' });
@@ -113,17 +714,148 @@ router.get('/me', verifyToken(), async (req, res) => {
     const user = users[0];
     
     // Return user data
-    res.json({
-      id: user.id,
-      name: user.name,
-      email: user.email,
-      role: user.role,
-      parkingLocationId: user.parking_location_id
-    });
+    res.json(await serializeUser(user));
   } catch (error) {
     console.error('Error getting current user:', error);
     res.status(500).json({ message: 'Error getting current user' });
   }
 });
 
+// Update the current user's name and/or email. Changing the email needs the current password. A customer's account
+// is unverified until the new address is confirmed; verification only gates customer bookings, so staff keep theirs.
+router.patch('/me', verifyToken(), async (req, res) => {
+  const { currentPassword } = req.body;
+  const name = typeof req.body.name === 'string' ? req.body.name.trim() : undefined;
+  const email = typeof req.body.email === 'string' ? req.body.email.trim() : undefined;
+
+  if (name === undefined && email === undefined) {
+    return res.status(400).json({ message: 'Nothing to update' });
+  }
+  if (name !== undefined && (name.length === 0 || name.length > 100)) {
+    return res.status(400).json({ message: 'Name must be between 1 and 100 characters' });
+  }
+  if (email !== undefined && !validator.isEmail(email)) {
+    return res.status(400).json({ message: 'Please enter a valid email address' });
+  }
+
+  try {
+    const user = await findUserById(req.user.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const emailChanged = email !== undefined && email.toLowerCase() !== user.email.toLowerCase();
+    if (emailChanged) {
+      if (!currentPassword || !(await bcrypt.compare(currentPassword, user.password))) {
+        return res.status(400).json({ message: 'Current password is incorrect' });
+      }
+      const [existingUser] = await query('SELECT id FROM users WHERE email = ? AND id <> ?', [email, user.id]);
+      if (existingUser) {
+        return res.status(400).json({ message: 'Another account already uses this email' });
+      }
+    }
+
+    const updatedName = name !== undefined ? name : user.name;
+    const needsVerification = emailChanged && user.role === 'user';
+    if (needsVerification) {
+      await query('UPDATE users SET name = ?, email = ?, email_verified_at = NULL WHERE id = ?', [updatedName, email, user.id]);
+    } else if (emailChanged) {
+      await query('UPDATE users SET name = ?, email = ? WHERE id = ?', [updatedName, email, user.id]);
+    } else {
+      await query('UPDATE users SET name = ? WHERE id = ?', [updatedName, user.id]);
+    }
+
+    await bumpAuthVersion(user.id);
+
+    const updatedUser = await findUserById(user.id);
+    if (needsVerification) {
+      try {
+        await sendVerificationEmail(updatedUser);
+      } catch (mailError) {
+        console.error('Error sending verification email:', mailError);
+      }
+    }
+
+    res.json({
+      message: needsVerification ? `Profile updated. We sent a verification link to ${email}.` : 'Profile updated.',
+      user: await serializeUser(updatedUser)
+    });
+  } catch (error) {
+    console.error('Error updating profile:', error);
+    res.status(500).json({ message: 'Error updating profile' });
+  }
+});
+
+// Change the password after re-checking the current one. Other sessions are signed out; this one stays.
+router.post('/change-password', verifyToken(), async (req, res) => {
+  const { currentPassword, newPassword } = req.body;
+  if (!currentPassword || !newPassword) {
+    return res.status(400).json({ message: 'Current and new password are required' });
+  }
+  if (newPassword.length < 6) {
+    return res.status(400).json({ message: 'Password must be at least 6 characters long' });
+  }
+
+  try {
+    const user = await findUserById(req.user.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const isMatch = await bcrypt.compare(currentPassword, user.password);
+    if (!isMatch) {
+      return res.status(400).json({ message: 'Current password is incorrect' });
+    }
+
+    const salt = await bcrypt.genSalt(10);
+    const hashedPassword = await bcrypt.hash(newPassword, salt);
+    await query('UPDATE users SET password = ? WHERE id = ?', [hashedPassword, user.id]);
+    const revokedCount = await revokeOtherSessionsForUser(user.id, req.user.sid);
+
+    res.json({
+      message: revokedCount > 0
+        ? `Password changed. You were signed out of ${revokedCount} other session(s).`
+        : 'Password changed.'
+    });
+  } catch (error) {
+    console.error('Error changing password:', error);
+    res.status(500).json({ message: 'Error changing password' });
+  }
+});
+
+// Where the current user is logged in
+router.get('/sessions', verifyToken(), async (req, res) => {
+  try {
+    res.json(await listActiveSessionsForUser(req.user.id, req.user.sid));
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({ message: 'Error fetching sessions' });
+  }
+});
+
+// Sign out every session except the one making this request
+router.post('/sessions/revoke-others', verifyToken(), async (req, res) => {
+  try {
+    const revokedCount = await revokeOtherSessionsForUser(req.user.id, req.user.sid);
+    res.json({ message: `Signed out of ${revokedCount} other session(s).`, revokedCount });
+  } catch (error) {
+    console.error('Error revoking other sessions:', error);
+    res.status(500).json({ message: 'Error revoking other sessions' });
+  }
+});
+
+// Sign out one session (revoking the current one is the same as logging out)
+router.delete('/sessions/:sessionId', verifyToken(), async (req, res) => {
+  try {
+    const revokedCount = await revokeSessionForUser(req.user.id, req.params.sessionId);
+    if (revokedCount === 0) {
+      return res.status(404).json({ message: 'Session not found or already signed out' });
+    }
+    res.json({ message: 'Session signed out.' });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({ message: 'Error revoking session' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,7 +1,13 @@
 // server/routes/employee.js
 import express from 'express';
 import { query as dbQuery } from '../config/database.js'; // Ensure this path is correct
-import { verifyToken } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/auth.js';
+import { recordAuditEvent } from '../utils/audit.js';
+import { promoteWaitlist } from '../utils/waitlist.js';
+import { getHourlyRate, calculateParkingCost, calculateStayCharges } from '../utils/pricing.js';
+import { listOverstays } from '../utils/overstays.js';
+import { CHECK_IN_EARLY_MINUTES, normalizeConfirmationCode } from '../utils/bookingPasses.js';
+import { toDbDateTime, toZonedIso, formatInTimeZone, zonedDayBounds } from '../utils/time.js';
 import dayjs from 'dayjs';
 
 const router = express.Router();
@@ -23,14 +29,24 @@ const DUMMY_TRANSACTION_WRAPPER = async (callback) => {
 
 
 const checkEmployeeAndLoadLocation = async (req, res, next) => {
-  if (!req.user || req.user.role !== 'employee') {
+  // Gate controllers and kiosks use an API key scoped to one location instead of an employee login
+  const isApiKey = Boolean(req.user && req.user.apiKeyId);
+  if (!req.user || (req.user.role !== 'employee' && !isApiKey)) {
     return res.status(403).json({ message: 'Access denied. Employee role required.' });
   }
-  if (!req.user.parkingLocationId) {
-    return res.status(403).json({ message: 'No parking location assigned to this employee account.' });
-  }
   try {
-    const [location] = await dbQuery('SELECT id, name, total_slots, available_slots FROM parking_locations WHERE id = ?', [req.user.parkingLocationId]);
+    let locationId = req.user.parkingLocationId;
+    if (!isApiKey) {
+      // Read the assignment from the database rather than the token, so a reassignment applies immediately
+      const [employee] = await dbQuery('SELECT parking_location_id FROM users WHERE id = ? AND role = ?', [req.user.id, 'employee']);
+      locationId = employee ? employee.parking_location_id : null;
+    }
+    if (!locationId) {
+      return res.status(403).json({
+        message: isApiKey ? 'This API key is not scoped to a parking location.' : 'No parking location assigned to this employee account.'
+      });
+    }
+    const [location] = await dbQuery('SELECT id, name, total_slots, available_slots, time_zone FROM parking_locations WHERE id = ?', [locationId]);
     if (!location) {
       return res.status(404).json({ message: 'Assigned parking location not found.' });
     }
@@ -39,7 +55,8 @@ const checkEmployeeAndLoadLocation = async (req, res, next) => {
         id: location.id,
         name: location.name,
         total_slots: parseInt(location.total_slots, 10),
-        available_slots: parseInt(location.available_slots, 10)
+        available_slots: parseInt(location.available_slots, 10),
+        timeZone: location.time_zone
     };
     next();
   } catch (error) {
@@ -48,16 +65,17 @@ const checkEmployeeAndLoadLocation = async (req, res, next) => {
   }
 };
 
-router.get('/location', verifyToken(['employee']), checkEmployeeAndLoadLocation, async (req, res) => {
+router.get('/location', requirePermission('parking:operate'), checkEmployeeAndLoadLocation, async (req, res) => {
   res.json({
       id: req.locationInfo.id,
       name: req.locationInfo.name,
       totalSlots: req.locationInfo.total_slots,
-      availableSlots: req.locationInfo.available_slots
+      availableSlots: req.locationInfo.available_slots,
+      timeZone: req.locationInfo.timeZone
   });
 });
 
-router.get('/vehicles', verifyToken(['employee']), checkEmployeeAndLoadLocation, async (req, res) => {
+router.get('/vehicles', requirePermission('parking:operate'), checkEmployeeAndLoadLocation, async (req, res) => {
   try {
     const allSessionsData = await dbQuery(
       `SELECT id, license_plate, entry_time, exit_time, cost, booking_id 
@@ -70,8 +88,8 @@ router.get('/vehicles', verifyToken(['employee']), checkEmployeeAndLoadLocation,
     res.json(allSessionsData.map(v => ({
         id: v.id,
         licensePlate: v.license_plate,
-        entryTime: v.entry_time,
-        exitTime: v.exit_time,
+        entryTime: toZonedIso(v.entry_time, req.locationInfo.timeZone),
+        exitTime: toZonedIso(v.exit_time, req.locationInfo.timeZone),
         cost: v.cost,
         bookingId: v.booking_id
     })));
@@ -81,7 +99,7 @@ router.get('/vehicles', verifyToken(['employee']), checkEmployeeAndLoadLocation,
   }
 });
 
-router.post('/checkin', verifyToken(['employee']), checkEmployeeAndLoadLocation, async (req, res) => {
+router.post('/checkin', requirePermission('parking:operate'), checkEmployeeAndLoadLocation, async (req, res) => {
   const { licensePlate } = req.body;
   if (!licensePlate || typeof licensePlate !== 'string' || licensePlate.trim() === '') {
     return res.status(400).json({ message: 'License plate is required.' });
@@ -109,6 +127,10 @@ router.post('/checkin', verifyToken(['employee']), checkEmployeeAndLoadLocation,
           [req.employeeLocationId, cleanLicensePlate, entryTime, req.user.id]
         );
         await dbQuery('UPDATE parking_locations SET available_slots = available_slots - 1 WHERE id = ? AND available_slots > 0', [req.employeeLocationId]);
+        await recordAuditEvent(req, {
+          action: 'vehicle_session.check_in', entityType: 'vehicle_session', entityId: result.insertId,
+          after: { parking_location_id: req.employeeLocationId, license_plate: cleanLicensePlate, entry_time: entryTime }
+        });
         
         res.status(201).json({ 
             message: 'Vehicle checked in successfully.', 
@@ -121,7 +143,7 @@ router.post('/checkin', verifyToken(['employee']), checkEmployeeAndLoadLocation,
   }
 });
 
-router.post('/checkout', verifyToken(['employee']), checkEmployeeAndLoadLocation, async (req, res) => {
+router.post('/checkout', requirePermission('parking:operate'), checkEmployeeAndLoadLocation, async (req, res) => {
   const { vehicleId } = req.body;
   if (!vehicleId || isNaN(parseInt(vehicleId, 10))) {
     return res.status(400).json({ message: 'Valid Vehicle ID is required.' });
@@ -143,19 +165,10 @@ router.post('/checkout', verifyToken(['employee']), checkEmployeeAndLoadLocation
         }
         
         const [locationForUpdate] = await dbQuery('SELECT total_slots FROM parking_locations WHERE id = ? FOR UPDATE', [session.parking_location_id]); // Use session's location_id
-        const [rateSetting] = await dbQuery("SELECT hourly_rate FROM settings WHERE id = 1 LIMIT 1");
-        const hourlyRate = parseFloat(rateSetting?.hourly_rate || "0");
+        const hourlyRate = await getHourlyRate();
 
         const exitTime = new Date();
-        const entryTime = new Date(session.entry_time);
-        const durationMs = exitTime.getTime() - entryTime.getTime();
-        const durationHours = durationMs > 0 ? Math.max(0.25, durationMs / (1000 * 60 * 60)) : 0;
-        
-        let cost = 0;
-        if (hourlyRate > 0 && durationHours > 0) {
-            cost = durationHours * hourlyRate;
-            cost = Math.ceil(cost * 100) / 100; 
-        }
+        const cost = calculateParkingCost(session.entry_time, exitTime, hourlyRate);
 
         await dbQuery(
           'UPDATE vehicle_sessions SET exit_time = ?, cost = ?, employee_id_check_out = ? WHERE id = ?',
@@ -173,13 +186,17 @@ router.post('/checkout', verifyToken(['employee']), checkEmployeeAndLoadLocation
           'UPDATE parking_locations SET available_slots = LEAST(?, available_slots + 1) WHERE id = ?', 
           [locationForUpdate.total_slots, session.parking_location_id]
         );
+        await recordAuditEvent(req, {
+          action: 'vehicle_session.check_out', entityType: 'vehicle_session', entityId: numericVehicleId,
+          before: { exit_time: null }, after: { exit_time: exitTime, cost, booking_id: session.booking_id }
+        });
         
         res.json({ 
           message: 'Vehicle checked out successfully.', 
           cost,
           licensePlate: session.license_plate,
-          entryTime: session.entry_time,
-          exitTime: exitTime.toISOString()
+          entryTime: toZonedIso(session.entry_time, req.locationInfo.timeZone),
+          exitTime: toZonedIso(exitTime, req.locationInfo.timeZone)
         });
     });
   } catch (error) {
@@ -188,29 +205,33 @@ router.post('/checkout', verifyToken(['employee']), checkEmployeeAndLoadLocation
   }
 });
 
-router.get('/location-bookings', verifyToken(['employee']), checkEmployeeAndLoadLocation, async (req, res) => {
+router.get('/location-bookings', requirePermission('parking:operate'), checkEmployeeAndLoadLocation, async (req, res) => {
   try {
-    const todayStart = dayjs().startOf('day').format('YYYY-MM-DD HH:mm:ss');
-    const todayEnd = dayjs().endOf('day').format('YYYY-MM-DD HH:mm:ss');
+    // "Today" at the location, which need not be the server's day
+    const today = zonedDayBounds(new Date(), req.locationInfo.timeZone);
+    const todayStart = toDbDateTime(today.start);
+    const todayEnd = toDbDateTime(today.end);
     const bookingsData = await dbQuery(
       `SELECT 
             b.id as bookingId, b.user_id as userId, u.name as userName, u.email as userEmail, 
             b.start_time as startTime, b.end_time as endTime, b.status, 
             b.license_plate_booked as licensePlateBooked,
-            b.checked_in_license_plate as checkedInLicensePlate
+            b.checked_in_license_plate as checkedInLicensePlate,
+            b.no_show_at as noShowAt, b.no_show_fee as noShowFee
        FROM bookings b
        JOIN users u ON b.user_id = u.id
        WHERE b.parking_location_id = ? 
-         AND b.status IN ('confirmed', 'checked-in') 
-         AND b.start_time <= ?
+         AND b.status IN ('confirmed', 'checked-in', 'no-show') 
+         AND b.start_time < ?
          AND b.end_time >= ?
        ORDER BY b.start_time ASC`,
       [req.employeeLocationId, todayEnd, todayStart]
     );
     res.json(bookingsData.map(b => ({
         bookingId: b.bookingId, userId: b.userId, userName: b.userName || b.userEmail,
-        startTime: b.startTime, endTime: b.endTime, status: b.status,
+        startTime: toZonedIso(b.startTime, req.locationInfo.timeZone), endTime: toZonedIso(b.endTime, req.locationInfo.timeZone), status: b.status,
         licensePlateBooked: b.licensePlateBooked, checkedInLicensePlate: b.checkedInLicensePlate,
+        noShowAt: toZonedIso(b.noShowAt, req.locationInfo.timeZone), noShowFee: b.noShowFee === null ? null : parseFloat(b.noShowFee),
     })));
   } catch (error) {
     console.error('Error fetching location bookings:', error);
@@ -218,7 +239,95 @@ router.get('/location-bookings', verifyToken(['employee']), checkEmployeeAndLoad
   }
 });
 
-router.post('/bookings/:bookingId/checkin', verifyToken(['employee']), checkEmployeeAndLoadLocation, async (req, res) => {
+// Checked-in bookings at this location that are past their end time plus the grace window, with the charges so far
+router.get('/overstays', requirePermission('parking:operate'), checkEmployeeAndLoadLocation, async (req, res) => {
+  try {
+    const overstays = await listOverstays(req.employeeLocationId);
+    res.json(overstays.map(o => ({
+        bookingId: o.id, userId: o.user_id, userName: o.user_name || o.email,
+        startTime: toZonedIso(o.start_time, o.location_time_zone), endTime: toZonedIso(o.end_time, o.location_time_zone),
+        actualEntryTime: toZonedIso(o.actual_entry_time, o.location_time_zone),
+        licensePlateBooked: o.license_plate_booked, checkedInLicensePlate: o.checked_in_license_plate,
+        overstayMinutes: o.charges.overstayMinutes, overstayCost: o.charges.overstayCost, currentCost: o.charges.cost,
+        userNotifiedAt: toZonedIso(o.overstay_flagged_at, o.location_time_zone),
+    })));
+  } catch (error) {
+    console.error('Error fetching overstays:', error);
+    res.status(500).json({ message: 'Failed to fetch overstaying bookings.' });
+  }
+});
+
+// Check a confirmed booking in at the employee's location; throws { status, message }.
+// `via` is recorded in the audit entry (typed booking ID or scanned/typed confirmation code).
+const checkInBooking = async (req, numericBookingId, cleanLicensePlate, via) => {
+  console.log(`[BOOKING CHECK-IN START] Booking ID: ${numericBookingId}, LP: ${cleanLicensePlate}, Loc: ${req.employeeLocationId}`);
+
+  return DUMMY_TRANSACTION_WRAPPER(async () => { // Wrap in conceptual transaction
+      const [booking] = await dbQuery('SELECT id, parking_location_id, status FROM bookings WHERE id = ? FOR UPDATE', [numericBookingId]);
+      const [locationForUpdate] = await dbQuery('SELECT available_slots FROM parking_locations WHERE id = ? FOR UPDATE', [req.employeeLocationId]);
+
+      if (!booking) throw { status: 404, message: 'Booking not found.' };
+      if (booking.parking_location_id !== req.employeeLocationId) throw { status: 403, message: 'Booking not for your assigned location.' };
+      if (booking.status !== 'confirmed') throw { status: 400, message: `Booking already ${booking.status}. Cannot check-in again.` };
+      if (locationForUpdate.available_slots <= 0) throw { status: 400, message: 'No physical parking slots currently available, even for bookings.' };
+
+      const entryTime = new Date();
+      console.log(`[BOOKING CHECK-IN] Proceeding for Booking ID: ${numericBookingId}. Location available slots: ${locationForUpdate.available_slots}`);
+
+      const sessionResult = await dbQuery(
+        'INSERT INTO vehicle_sessions (parking_location_id, license_plate, entry_time, booking_id, employee_id_check_in) VALUES (?, ?, ?, ?, ?)',
+        [req.employeeLocationId, cleanLicensePlate, entryTime, numericBookingId, req.user.id]
+      );
+      console.log(`[BOOKING CHECK-IN] vehicle_sessions created for Booking ID: ${numericBookingId}, New Session ID: ${sessionResult.insertId}`);
+
+      await dbQuery(
+        "UPDATE bookings SET status = 'checked-in', checked_in_license_plate = ?, actual_entry_time = ?, employee_id_check_in = ? WHERE id = ?",
+        [cleanLicensePlate, entryTime, req.user.id, numericBookingId]
+      );
+      console.log(`[BOOKING CHECK-IN] bookings table updated for Booking ID: ${numericBookingId} to status 'checked-in'.`);
+      
+      await dbQuery('UPDATE parking_locations SET available_slots = available_slots - 1 WHERE id = ? AND available_slots > 0', [req.employeeLocationId]);
+      console.log(`[BOOKING CHECK-IN] parking_locations.available_slots decremented for Location ID: ${req.employeeLocationId}`);
+      await recordAuditEvent(req, {
+        action: 'booking.check_in', entityType: 'booking', entityId: numericBookingId,
+        before: { status: booking.status },
+        after: { status: 'checked-in', checked_in_license_plate: cleanLicensePlate, actual_entry_time: entryTime, vehicle_session_id: sessionResult.insertId, via }
+      });
+      return { vehicleSessionId: sessionResult.insertId };
+  });
+};
+
+// Find the booking behind a confirmation code and make sure it can be checked in here and now; throws { status, message }
+const findBookingForPass = async (req, code) => {
+  const normalizedCode = normalizeConfirmationCode(code);
+  if (!normalizedCode) throw { status: 400, message: 'Confirmation code required.' };
+
+  const [booking] = await dbQuery(
+    `SELECT b.id, b.parking_location_id, b.status, b.start_time, b.end_time, b.license_plate_booked,
+            u.name AS user_name, u.email AS user_email, p.name AS location_name, p.time_zone
+     FROM bookings b
+     JOIN users u ON b.user_id = u.id
+     JOIN parking_locations p ON b.parking_location_id = p.id
+     WHERE b.confirmation_code = ?`,
+    [normalizedCode]
+  );
+  if (!booking) throw { status: 404, message: 'No booking matches this code.' };
+  if (booking.parking_location_id !== req.employeeLocationId) {
+    throw { status: 403, message: `This pass is for ${booking.location_name}, not this location.` };
+  }
+  if (booking.status !== 'confirmed') throw { status: 400, message: `This booking is ${booking.status} and cannot be checked in.` };
+
+  const validFrom = dayjs(booking.start_time).subtract(CHECK_IN_EARLY_MINUTES, 'minute');
+  if (dayjs().isBefore(validFrom)) {
+    throw { status: 400, message: `This pass is valid from ${formatInTimeZone(validFrom, booking.time_zone, 'D MMM YYYY, HH:mm')}.` };
+  }
+  if (!dayjs().isBefore(dayjs(booking.end_time))) {
+    throw { status: 400, message: `This booking ended at ${formatInTimeZone(booking.end_time, booking.time_zone, 'D MMM YYYY, HH:mm')}.` };
+  }
+  return booking;
+};
+
+router.post('/bookings/:bookingId/checkin', requirePermission('parking:operate'), checkEmployeeAndLoadLocation, async (req, res) => {
   const { bookingId } = req.params;
   const { licensePlate } = req.body;
   if (!bookingId || isNaN(parseInt(bookingId, 10))) return res.status(400).json({ message: 'Valid Booking ID required.' });
@@ -227,40 +336,11 @@ router.post('/bookings/:bookingId/checkin', verifyToken(['employee']), checkEmpl
   const numericBookingId = parseInt(bookingId, 10);
   const cleanLicensePlate = licensePlate.toUpperCase().trim();
 
-  console.log(`[BOOKING CHECK-IN START] Booking ID: ${numericBookingId}, LP: ${cleanLicensePlate}, Loc: ${req.employeeLocationId}`);
-
   try {
-    await DUMMY_TRANSACTION_WRAPPER(async () => { // Wrap in conceptual transaction
-        const [booking] = await dbQuery('SELECT id, parking_location_id, status FROM bookings WHERE id = ? FOR UPDATE', [numericBookingId]);
-        const [locationForUpdate] = await dbQuery('SELECT available_slots FROM parking_locations WHERE id = ? FOR UPDATE', [req.employeeLocationId]);
-
-        if (!booking) throw { status: 404, message: 'Booking not found.' };
-        if (booking.parking_location_id !== req.employeeLocationId) throw { status: 403, message: 'Booking not for your assigned location.' };
-        if (booking.status !== 'confirmed') throw { status: 400, message: `Booking already ${booking.status}. Cannot check-in again.` };
-        if (locationForUpdate.available_slots <= 0) throw { status: 400, message: 'No physical parking slots currently available, even for bookings.' };
-
-        const entryTime = new Date();
-        console.log(`[BOOKING CHECK-IN] Proceeding for Booking ID: ${numericBookingId}. Location available slots: ${locationForUpdate.available_slots}`);
-
-        const sessionResult = await dbQuery(
-          'INSERT INTO vehicle_sessions (parking_location_id, license_plate, entry_time, booking_id, employee_id_check_in) VALUES (?, ?, ?, ?, ?)',
-          [req.employeeLocationId, cleanLicensePlate, entryTime, numericBookingId, req.user.id]
-        );
-        console.log(`[BOOKING CHECK-IN] vehicle_sessions created for Booking ID: ${numericBookingId}, New Session ID: ${sessionResult.insertId}`);
-
-        await dbQuery(
-          "UPDATE bookings SET status = 'checked-in', checked_in_license_plate = ?, actual_entry_time = ?, employee_id_check_in = ? WHERE id = ?",
-          [cleanLicensePlate, entryTime, req.user.id, numericBookingId]
-        );
-        console.log(`[BOOKING CHECK-IN] bookings table updated for Booking ID: ${numericBookingId} to status 'checked-in'.`);
-        
-        await dbQuery('UPDATE parking_locations SET available_slots = available_slots - 1 WHERE id = ? AND available_slots > 0', [req.employeeLocationId]);
-        console.log(`[BOOKING CHECK-IN] parking_locations.available_slots decremented for Location ID: ${req.employeeLocationId}`);
-        
-        res.json({ 
-          message: `Booking ${numericBookingId} checked in successfully.`,
-          vehicleSessionId: sessionResult.insertId
-        });
+    const { vehicleSessionId } = await checkInBooking(req, numericBookingId, cleanLicensePlate, 'booking_id');
+    res.json({ 
+      message: `Booking ${numericBookingId} checked in successfully.`,
+      vehicleSessionId
     });
   } catch (error) {
     console.error(`[BOOKING CHECK-IN ERROR] Booking ID ${numericBookingId}:`, error.message || error);
@@ -268,15 +348,56 @@ router.post('/bookings/:bookingId/checkin', verifyToken(['employee']), checkEmpl
   }
 });
 
-router.post('/bookings/:bookingId/cancel-by-employee', verifyToken(['employee']), checkEmployeeAndLoadLocation, async (req, res) => {
+// Look up a booking by the confirmation code on its pass (scanned QR or typed)
+router.get('/bookings/by-code/:code', requirePermission('parking:operate'), checkEmployeeAndLoadLocation, async (req, res) => {
+  try {
+    const booking = await findBookingForPass(req, req.params.code);
+    res.json({
+      bookingId: booking.id,
+      userName: booking.user_name,
+      userEmail: booking.user_email,
+      licensePlateBooked: booking.license_plate_booked,
+      startTime: toZonedIso(booking.start_time, booking.time_zone),
+      endTime: toZonedIso(booking.end_time, booking.time_zone),
+      status: booking.status
+    });
+  } catch (error) {
+    if (error.status) return res.status(error.status).json({ message: error.message });
+    console.error('[PASS LOOKUP ERROR]', error);
+    res.status(500).json({ message: 'Failed to look up the booking.' });
+  }
+});
+
+// Check in by confirmation code. The plate defaults to the one given when booking.
+router.post('/bookings/by-code/:code/checkin', requirePermission('parking:operate'), checkEmployeeAndLoadLocation, async (req, res) => {
+  const { licensePlate } = req.body;
+  try {
+    const booking = await findBookingForPass(req, req.params.code);
+    const cleanLicensePlate = String(licensePlate || booking.license_plate_booked || '').toUpperCase().trim();
+    if (!cleanLicensePlate) throw { status: 400, message: 'License plate required for check-in.' };
+
+    const { vehicleSessionId } = await checkInBooking(req, booking.id, cleanLicensePlate, 'confirmation_code');
+    res.json({
+      message: `Booking ${booking.id} checked in successfully.`,
+      bookingId: booking.id,
+      vehicleSessionId
+    });
+  } catch (error) {
+    if (error.status) return res.status(error.status).json({ message: error.message });
+    console.error('[PASS CHECK-IN ERROR]', error);
+    res.status(500).json({ message: 'Failed to check in for booking.' });
+  }
+});
+
+router.post('/bookings/:bookingId/cancel-by-employee', requirePermission('parking:operate'), checkEmployeeAndLoadLocation, async (req, res) => {
     const { bookingId } = req.params;
     const numericBookingId = parseInt(bookingId, 10);
     if (isNaN(numericBookingId)) return res.status(400).json({ message: 'Valid Booking ID is required.' });
 
     console.log(`[BOOKING CANCEL START] Booking ID: ${numericBookingId}`);
     try {
-        await DUMMY_TRANSACTION_WRAPPER(async () => { // Wrap in conceptual transaction
-            const [booking] = await dbQuery('SELECT id, parking_location_id, status FROM bookings WHERE id = ? FOR UPDATE', [numericBookingId]);
+        const cancelledBooking = await DUMMY_TRANSACTION_WRAPPER(async () => { // Wrap in conceptual transaction
+            const [booking] = await dbQuery('SELECT id, parking_location_id, status, start_time, end_time FROM bookings WHERE id = ? FOR UPDATE', [numericBookingId]);
             
             if (!booking) throw { status: 404, message: 'Booking not found.' };
             if (booking.parking_location_id !== req.employeeLocationId) throw { status: 403, message: 'This booking is not for your assigned location.' };
@@ -307,15 +428,24 @@ router.post('/bookings/:bookingId/cancel-by-employee', verifyToken(['employee'])
                     console.warn(`[BOOKING CANCEL WARN] No active vehicle session found to update for checked-in booking ${numericBookingId} being cancelled.`);
                 }
             }
-            res.json({ message: `Booking ID ${numericBookingId} cancelled successfully.` });
+            await recordAuditEvent(req, {
+                action: 'booking.cancel', entityType: 'booking', entityId: numericBookingId,
+                before: { status: originalStatus }, after: { status: 'cancelled' }
+            });
+            return booking;
         });
+        const promoted = await promoteWaitlist(cancelledBooking.parking_location_id, cancelledBooking.start_time, cancelledBooking.end_time);
+        if (promoted.length > 0) {
+            console.log(`[BOOKING CANCEL INFO] ${promoted.length} waitlisted user(s) booked into the freed capacity.`);
+        }
+        res.json({ message: `Booking ID ${numericBookingId} cancelled successfully.` });
     } catch (error) {
         console.error(`[BOOKING CANCEL ERROR] Booking ID ${numericBookingId}:`, error.message || error);
         res.status(error.status || 500).json({ message: error.message || 'Failed to cancel booking.' });
     }
 });
 
-router.post('/bookings/:bookingId/checkout', verifyToken(['employee']), checkEmployeeAndLoadLocation, async (req, res) => {
+router.post('/bookings/:bookingId/checkout', requirePermission('parking:operate'), checkEmployeeAndLoadLocation, async (req, res) => {
     const { bookingId } = req.params;
     const numericBookingId = parseInt(bookingId, 10);
     if (isNaN(numericBookingId)) return res.status(400).json({ message: 'Valid Booking ID is required.' });
@@ -324,7 +454,7 @@ router.post('/bookings/:bookingId/checkout', verifyToken(['employee']), checkEmp
     try {
         await DUMMY_TRANSACTION_WRAPPER(async () => { // Wrap in conceptual transaction
             const [bookingDetails] = await dbQuery(
-                'SELECT id, status FROM bookings WHERE id = ? AND parking_location_id = ? FOR UPDATE',
+                'SELECT id, status, end_time FROM bookings WHERE id = ? AND parking_location_id = ? FOR UPDATE',
                 [numericBookingId, req.employeeLocationId]
             );
 
@@ -344,31 +474,39 @@ router.post('/bookings/:bookingId/checkout', verifyToken(['employee']), checkEmp
             console.log(`[BOOKED CHECKOUT INFO] Found session ID: ${session.id} for booking ${numericBookingId}. Entry time: ${session.entry_time}`);
             
             const [locationForUpdate] = await dbQuery('SELECT total_slots FROM parking_locations WHERE id = ? FOR UPDATE', [req.employeeLocationId]);
-            const [rateSetting] = await dbQuery("SELECT hourly_rate FROM settings WHERE id = 1 LIMIT 1");
-            const hourlyRate = parseFloat(rateSetting?.hourly_rate || "0");
+            const hourlyRate = await getHourlyRate();
 
             const exitTime = new Date();
-            const entryTime = new Date(session.entry_time);
-            const durationMs = exitTime.getTime() - entryTime.getTime();
-            const durationHours = durationMs > 0 ? Math.max(0.25, durationMs / (1000 * 60 * 60)) : 0;
-
-            let cost = 0;
-            if (hourlyRate > 0 && durationHours > 0) {
-                cost = durationHours * hourlyRate;
-                cost = Math.ceil(cost * 100) / 100;
-            }
-            console.log(`[BOOKED CHECKOUT INFO] Calculated cost: ${cost} for duration ${durationHours} hrs.`);
+            // Same rate for the whole stay; the part after the booking's end is reported separately as the overstay
+            const charges = calculateStayCharges(session.entry_time, bookingDetails.end_time, exitTime, hourlyRate);
+            const cost = charges.cost;
+            const overstayCharge = charges.overstayCost > 0 ? charges.overstayCost : null;
+            console.log(`[BOOKED CHECKOUT INFO] Calculated cost: ${cost} (overstay ${charges.overstayCost} for ${charges.overstayMinutes} min).`);
 
             await dbQuery('UPDATE vehicle_sessions SET exit_time = ?, cost = ?, employee_id_check_out = ? WHERE id = ?', [exitTime, cost, req.user.id, session.id]);
             console.log(`[BOOKED CHECKOUT INFO] vehicle_sessions updated for session ID: ${session.id}`);
 
-            await dbQuery("UPDATE bookings SET status = 'completed', actual_exit_time = ?, final_cost = ?, employee_id_check_out = ? WHERE id = ?", [exitTime, cost, req.user.id, numericBookingId]);
+            await dbQuery(
+                "UPDATE bookings SET status = 'completed', actual_exit_time = ?, final_cost = ?, overstay_charge = ?, employee_id_check_out = ? WHERE id = ?",
+                [exitTime, cost, overstayCharge, req.user.id, numericBookingId]
+            );
             console.log(`[BOOKED CHECKOUT INFO] bookings table updated for Booking ID: ${numericBookingId} to status 'completed'.`);
 
             await dbQuery('UPDATE parking_locations SET available_slots = LEAST(?, available_slots + 1) WHERE id = ?', [locationForUpdate.total_slots, req.employeeLocationId]);
             console.log(`[BOOKED CHECKOUT INFO] parking_locations.available_slots incremented for Location ID: ${req.employeeLocationId}`);
-
-            res.json({ message: `Booking ${numericBookingId} checked out successfully.`, cost });
+            await recordAuditEvent(req, {
+                action: 'booking.check_out', entityType: 'booking', entityId: numericBookingId,
+                before: { status: 'checked-in' },
+                after: { status: 'completed', actual_exit_time: exitTime, final_cost: cost, overstay_charge: overstayCharge }
+            });
+
+            res.json({
+                message: `Booking ${numericBookingId} checked out successfully.`,
+                cost,
+                bookedCost: charges.bookedCost,
+                overstayCost: charges.overstayCost,
+                overstayMinutes: charges.overstayMinutes
+            });
         });
     } catch (error) {
         console.error(`[BOOKED CHECKOUT ERROR] Booking ID ${numericBookingId}:`, error.message || error);
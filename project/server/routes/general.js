@@ -1,7 +1,16 @@
 // server/routes/general.js
 import express from 'express';
 import { query as dbQuery } from '../config/database.js';
-import { verifyToken } from '../middleware/auth.js';
+import { verifyToken, requirePermission } from '../middleware/auth.js';
+import { TIMELINE_INTERVALS, getBookingCapacity, getCapacityTimeline } from '../utils/capacity.js';
+import { getHourlyRate, calculateParkingCost, quoteParkingCost } from '../utils/pricing.js';
+import { getBookingSuggestions } from '../utils/suggestions.js';
+import { CHECK_IN_EARLY_MINUTES, generateConfirmationCode, formatConfirmationCode, buildPassQrDataUrl } from '../utils/bookingPasses.js';
+import { parseSeriesPattern, buildOccurrences } from '../utils/bookingSeries.js';
+import { expireStaleWaitlistEntries, promoteWaitlist } from '../utils/waitlist.js';
+import { toDbDateTime, toZonedIso } from '../utils/time.js';
+import { searchCustomers, findCustomer, createGuestContact, sendStaffBookingEmail } from '../utils/customers.js';
+import { recordAuditEvent } from '../utils/audit.js';
 import dayjs from 'dayjs'; 
 
 const router = express.Router();
@@ -15,7 +24,7 @@ router.use((req, res, next) => {
 router.get('/locations', async (req, res) => {
   try {
     const locations = await dbQuery(
-      `SELECT id, name, latitude, longitude, total_slots, available_slots, cover_image_url, 
+      `SELECT id, name, latitude, longitude, total_slots, available_slots, cover_image_url, time_zone,
               (SELECT AVG(rating) FROM feedback WHERE parking_location_id = parking_locations.id) as averageRating,
               (SELECT COUNT(*) FROM feedback WHERE parking_location_id = parking_locations.id) as feedbackCount
        FROM parking_locations`
@@ -28,6 +37,7 @@ router.get('/locations', async (req, res) => {
       totalSlots: loc.total_slots,
       availableSlots: loc.available_slots,
       coverImageUrl: loc.cover_image_url,
+      timeZone: loc.time_zone,
       averageRating: parseFloat(loc.averageRating) || 0,
       feedbackCount: parseInt(loc.feedbackCount) || 0,
     })));
@@ -37,15 +47,60 @@ router.get('/locations', async (req, res) => {
   }
 });
 
-// POST a new booking by a logged-in user
-router.post('/locations/bookings', verifyToken(['user', 'admin', 'employee']), async (req, res) => {
+// GET customers staff can book for, by name, email or phone (?search=)
+router.get('/customers', verifyToken(), requirePermission('bookings:write'), async (req, res) => {
+  try {
+    res.json(await searchCustomers(req.query.search));
+  } catch (error) {
+    console.error('Error searching customers:', error);
+    res.status(500).json({ message: 'Failed to search customers.' });
+  }
+});
+
+// POST a guest contact for a customer who books by phone or at the gate without an account
+router.post('/customers/guests', verifyToken(), requirePermission('bookings:write'), async (req, res) => {
+  try {
+    const customer = await createGuestContact(req, req.body);
+    res.status(201).json(customer);
+  } catch (error) {
+    if (error.status) return res.status(error.status).json({ message: error.message });
+    console.error('Error creating guest contact:', error);
+    res.status(500).json({ message: 'Failed to add guest contact.' });
+  }
+});
+
+// Own bookings are for the built-in roles. Booking for a customer (customerId) needs bookings:write instead, which
+// custom roles can hold too.
+const authorizeBooking = (req, res, next) => {
+  const { customerId } = req.body;
+  if (customerId !== undefined && customerId !== null && customerId !== '') {
+    return requirePermission('bookings:write')(req, res, next);
+  }
+  if (!['user', 'admin', 'employee'].includes(req.user.role)) {
+    return res.status(403).json({ message: 'Insufficient permissions' });
+  }
+  next();
+};
+
+// POST a new booking by a logged-in user. Staff with bookings:write can pass customerId to book for a customer;
+// the booking belongs to the customer and created_by_user_id records the staff member.
+router.post('/locations/bookings', verifyToken(), authorizeBooking, async (req, res) => {
   console.log('\n>>> Reached POST /api/locations/bookings. User ID:', req.user?.id); 
-  const { parkingLocationId, startTime: startTimeISO, endTime: endTimeISO, licensePlateBooked } = req.body;
+  const { parkingLocationId, startTime: startTimeISO, endTime: endTimeISO, licensePlateBooked, customerId } = req.body;
   
   if (!req.user || !req.user.id) {
     return res.status(500).json({ message: 'Authentication error, user identifier missing.' });
   }
-  const userId = req.user.id;
+  const isStaffBooking = customerId !== undefined && customerId !== null && customerId !== '';
+  // Same rule as the gate routes: only admins book anywhere; other staff need an assigned location and book there
+  if (isStaffBooking && req.user.role !== 'admin') {
+    if (!req.user.parkingLocationId) {
+      return res.status(403).json({ message: 'No parking location assigned to this account.' });
+    }
+    if (Number(parkingLocationId) !== Number(req.user.parkingLocationId)) {
+      return res.status(403).json({ message: 'You can only book at your assigned location.' });
+    }
+  }
 
   if (!parkingLocationId || !startTimeISO || !endTimeISO) {
     return res.status(400).json({ message: 'Missing required booking information.' });
@@ -58,50 +113,185 @@ router.post('/locations/bookings', verifyToken(['user', 'admin', 'employee']), a
     return res.status(400).json({ message: 'Invalid booking time range or start time is in the past.' });
   }
   
-  const formattedStartTime = STime.format('YYYY-MM-DD HH:mm:ss');
-  const formattedEndTime = ETime.format('YYYY-MM-DD HH:mm:ss');
+  const formattedStartTime = toDbDateTime(STime);
+  const formattedEndTime = toDbDateTime(ETime);
 
   try {
-    const [location] = await dbQuery('SELECT total_slots FROM parking_locations WHERE id = ? FOR UPDATE', [parkingLocationId]);
-    if (!location) {
-      return res.status(404).json({ message: 'Parking location not found.' });
+    // Staff have confirmed who the customer is, so a customer's unverified email doesn't block a staff booking
+    const customer = isStaffBooking ? await findCustomer(customerId) : null;
+    const userId = customer ? customer.id : req.user.id;
+    if (!customer) {
+      const [bookingUser] = await dbQuery('SELECT email_verified_at FROM users WHERE id = ?', [userId]);
+      if (!bookingUser || !bookingUser.email_verified_at) {
+        return res.status(403).json({ message: 'Please verify your email address before making a booking.', code: 'EMAIL_NOT_VERIFIED' });
+      }
     }
 
-    const bookingThresholdPercent = 0.70; 
-    const bookingCapacity = Math.floor(location.total_slots * bookingThresholdPercent);
-
-    const [overlappingBookingsResult] = await dbQuery(
-      `SELECT COUNT(*) as count FROM bookings 
-       WHERE parking_location_id = ? AND status IN ('confirmed', 'checked-in')
-       AND start_time < ? AND end_time > ?`, 
-      [parkingLocationId, formattedEndTime, formattedStartTime]
-    );
-    const currentOverlappingBookings = overlappingBookingsResult.count || 0;
+    const capacity = await getBookingCapacity(parkingLocationId, formattedStartTime, formattedEndTime);
+    if (!capacity) {
+      return res.status(404).json({ message: 'Parking location not found.' });
+    }
 
-    if (currentOverlappingBookings >= bookingCapacity) {
-      return res.status(400).json({ message: 'Booking capacity reached. Please try another time or location.' });
+    if (!capacity.isBookable) {
+      // The client offers to join the waitlist for this window
+      return res.status(400).json({ message: 'Booking capacity reached. Please try another time or location.', code: 'CAPACITY_REACHED' });
     }
 
+    const confirmationCode = generateConfirmationCode();
+    const quote = await quoteParkingCost(STime, ETime);
     const result = await dbQuery(
-      'INSERT INTO bookings (user_id, parking_location_id, start_time, end_time, status, license_plate_booked) VALUES (?, ?, ?, ?, ?, ?)',
-      [userId, parkingLocationId, formattedStartTime, formattedEndTime, 'confirmed', licensePlateBooked || null]
+      'INSERT INTO bookings (user_id, parking_location_id, start_time, end_time, status, license_plate_booked, confirmation_code, quoted_amount, created_by_user_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [userId, parkingLocationId, formattedStartTime, formattedEndTime, 'confirmed', licensePlateBooked || null, confirmationCode, quote.amount, req.user.id]
     );
+
+    if (customer) {
+      await recordAuditEvent(req, {
+        action: 'booking.create_for_customer',
+        entityType: 'booking',
+        entityId: result.insertId,
+        after: {
+          customerId: customer.id,
+          parkingLocationId,
+          startTime: formattedStartTime,
+          endTime: formattedEndTime,
+          licensePlateBooked: licensePlateBooked || null
+        }
+      });
+      // The booking stands even if the email can't be sent; staff have the confirmation code to pass on
+      try {
+        const [location] = await dbQuery('SELECT name FROM parking_locations WHERE id = ?', [parkingLocationId]);
+        await sendStaffBookingEmail(customer, {
+          locationName: location.name,
+          startTime: STime,
+          endTime: ETime,
+          timeZone: capacity.timeZone,
+          confirmationCode: formatConfirmationCode(confirmationCode)
+        });
+      } catch (mailError) {
+        console.error(`Booked ${result.insertId} for customer ${customer.id} but could not email them:`, mailError);
+      }
+    }
     
     res.status(201).json({ 
       message: 'Booking successful!', 
       bookingId: result.insertId,
       parkingLocationId, 
-      startTime: startTimeISO, 
-      endTime: endTimeISO,  
+      startTime: toZonedIso(STime, capacity.timeZone),
+      endTime: toZonedIso(ETime, capacity.timeZone),
       status: 'confirmed', 
-      licensePlateBooked
+      licensePlateBooked,
+      confirmationCode: formatConfirmationCode(confirmationCode),
+      quotedAmount: quote.amount,
+      customer
     });
   } catch (error) {
+    if (error.status) return res.status(error.status).json({ message: error.message });
     console.error('Error creating booking:', error);
     res.status(500).json({ message: 'Failed to create booking.' });
   }
 });
 
+// POST a recurring booking (e.g. weekdays 9:00-18:00 for 4 weeks). Every date is checked against capacity on its
+// own; dates that are full are reported back instead of failing the whole series. `preview: true` only reports.
+router.post('/locations/bookings/series', verifyToken(['user']), async (req, res) => {
+  console.log('\n>>> Reached POST /api/locations/bookings/series. User ID:', req.user?.id);
+  const { parkingLocationId, licensePlateBooked, preview } = req.body;
+  const userId = req.user.id;
+
+  if (!parkingLocationId) {
+    return res.status(400).json({ message: 'Missing required booking information.' });
+  }
+
+  try {
+    // Days of the week and clock times are the location's, so the location is needed before the pattern
+    const [location] = await dbQuery('SELECT id, time_zone FROM parking_locations WHERE id = ?', [parkingLocationId]);
+    if (!location) {
+      return res.status(404).json({ message: 'Parking location not found.' });
+    }
+    const pattern = parseSeriesPattern(req.body, location.time_zone);
+    const occurrences = buildOccurrences(pattern);
+    if (occurrences.length === 0) {
+      return res.status(400).json({ message: 'The pattern has no upcoming dates. Check the start time and days of the week.' });
+    }
+
+    const [bookingUser] = await dbQuery('SELECT email_verified_at FROM users WHERE id = ?', [userId]);
+    if (!bookingUser || !bookingUser.email_verified_at) {
+      return res.status(403).json({ message: 'Please verify your email address before making a booking.', code: 'EMAIL_NOT_VERIFIED' });
+    }
+
+    let seriesId = null;
+    if (!preview) {
+      const seriesResult = await dbQuery(
+        `INSERT INTO booking_series (user_id, parking_location_id, days_of_week, weeks, first_start_time, first_end_time, license_plate_booked)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          userId, parkingLocationId, pattern.daysOfWeek.join(','), pattern.weeks,
+          toDbDateTime(pattern.firstStart), toDbDateTime(pattern.firstEnd), licensePlateBooked || null
+        ]
+      );
+      seriesId = seriesResult.insertId;
+    }
+
+    // Each date is priced on its own window: the clock times are the same, but a daylight-saving change can make
+    // one longer or shorter than the rest
+    const hourlyRate = await getHourlyRate();
+    const booked = [];
+    const failed = [];
+    for (const occurrence of occurrences) {
+      const formattedStartTime = toDbDateTime(occurrence.start);
+      const formattedEndTime = toDbDateTime(occurrence.end);
+      const report = {
+        date: occurrence.start.format('YYYY-MM-DD'), startTime: occurrence.start.format(), endTime: occurrence.end.format(),
+        quotedAmount: calculateParkingCost(occurrence.start, occurrence.end, hourlyRate)
+      };
+
+      const capacity = await getBookingCapacity(parkingLocationId, formattedStartTime, formattedEndTime);
+      if (!capacity.isBookable) {
+        failed.push({ ...report, reason: 'Booking capacity reached' });
+        continue;
+      }
+      if (!preview) {
+        const result = await dbQuery(
+          'INSERT INTO bookings (user_id, parking_location_id, start_time, end_time, status, license_plate_booked, series_id, confirmation_code, quoted_amount, created_by_user_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [userId, parkingLocationId, formattedStartTime, formattedEndTime, 'confirmed', licensePlateBooked || null, seriesId, generateConfirmationCode(), report.quotedAmount, userId]
+        );
+        report.bookingId = result.insertId;
+      }
+      booked.push(report);
+    }
+    const quotedTotal = Math.round(booked.reduce((total, report) => total + report.quotedAmount, 0) * 100) / 100;
+
+    if (preview) {
+      return res.json({
+        message: `${booked.length} of ${occurrences.length} dates can be booked.`,
+        booked,
+        failed,
+        quotedTotal
+      });
+    }
+    if (booked.length === 0) {
+      await dbQuery('DELETE FROM booking_series WHERE id = ?', [seriesId]);
+      return res.status(400).json({ message: 'None of the dates could be booked. Please try another time or location.', booked, failed });
+    }
+
+    res.status(201).json({
+      message: failed.length === 0
+        ? `Recurring booking created: ${booked.length} dates booked.`
+        : `Recurring booking created: ${booked.length} of ${occurrences.length} dates booked.`,
+      seriesId,
+      booked,
+      failed,
+      quotedTotal
+    });
+  } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error creating recurring booking:', error);
+    res.status(500).json({ message: 'Failed to create recurring booking.' });
+  }
+});
+
 // GET user's bookings (authenticated) - UPDATED TO INCLUDE actual_entry_time
 router.get('/locations/bookings', verifyToken(['user', 'admin', 'employee']), async (req, res) => {
   console.log('\n>>> GET /api/locations/bookings. User ID:', req.user?.id);
@@ -121,8 +311,14 @@ router.get('/locations/bookings', verifyToken(['user', 'admin', 'employee']), as
         b.actual_entry_time,     -- Added
         b.actual_exit_time,      
         b.final_cost,            
+        b.series_id,
+        b.no_show_fee,
+        b.overstay_charge,
+        b.confirmation_code,
+        b.quoted_amount,
         p.name as locationName,
-        p.id as locationId
+        p.id as locationId,
+        p.time_zone as locationTimeZone
        FROM bookings b
        JOIN parking_locations p ON b.parking_location_id = p.id
        WHERE b.user_id = ?
@@ -132,15 +328,21 @@ router.get('/locations/bookings', verifyToken(['user', 'admin', 'employee']), as
 
     const formattedBookings = bookingsFromDb.map(booking => ({
       id: booking.id,
-      startTime: booking.start_time, 
-      endTime: booking.end_time,   
+      startTime: toZonedIso(booking.start_time, booking.locationTimeZone),
+      endTime: toZonedIso(booking.end_time, booking.locationTimeZone),
       locationName: booking.locationName,
       locationId: booking.locationId,
+      locationTimeZone: booking.locationTimeZone,
       status: booking.status,
       licensePlateBooked: booking.license_plate_booked,
-      actualEntryTime: booking.actual_entry_time, // Added camelCase for entry time
-      actualExitTime: booking.actual_exit_time, 
+      actualEntryTime: toZonedIso(booking.actual_entry_time, booking.locationTimeZone), // Added camelCase for entry time
+      actualExitTime: toZonedIso(booking.actual_exit_time, booking.locationTimeZone),
       finalCost: booking.final_cost,
+      seriesId: booking.series_id,
+      noShowFee: booking.no_show_fee === null ? null : parseFloat(booking.no_show_fee),
+      overstayCharge: booking.overstay_charge === null ? null : parseFloat(booking.overstay_charge),
+      confirmationCode: formatConfirmationCode(booking.confirmation_code),
+      quotedAmount: booking.quoted_amount === null ? null : parseFloat(booking.quoted_amount),
     }));
 
     res.json(formattedBookings);
@@ -150,6 +352,45 @@ router.get('/locations/bookings', verifyToken(['user', 'admin', 'employee']), as
   }
 });
 
+// GET the pass for one of the user's bookings: the confirmation code and a QR code of it to show at the gate
+router.get('/locations/bookings/:bookingId/pass', verifyToken(['user']), async (req, res) => {
+  console.log('\n>>> GET /api/locations/bookings/:bookingId/pass. User ID:', req.user?.id);
+  const { bookingId } = req.params;
+
+  try {
+    const [booking] = await dbQuery(
+      `SELECT b.id, b.user_id, b.start_time, b.end_time, b.status, b.license_plate_booked, b.confirmation_code, p.name AS location_name,
+              p.time_zone
+       FROM bookings b
+       JOIN parking_locations p ON b.parking_location_id = p.id
+       WHERE b.id = ?`,
+      [bookingId]
+    );
+    if (!booking || booking.user_id !== req.user.id) {
+      return res.status(404).json({ message: 'Booking not found.' });
+    }
+    if (!booking.confirmation_code) {
+      return res.status(404).json({ message: 'This booking has no pass.' });
+    }
+
+    res.json({
+      bookingId: booking.id,
+      confirmationCode: formatConfirmationCode(booking.confirmation_code),
+      qrCodeDataUrl: await buildPassQrDataUrl(booking.confirmation_code),
+      locationName: booking.location_name,
+      locationTimeZone: booking.time_zone,
+      startTime: toZonedIso(booking.start_time, booking.time_zone),
+      endTime: toZonedIso(booking.end_time, booking.time_zone),
+      status: booking.status,
+      licensePlateBooked: booking.license_plate_booked,
+      validFrom: toZonedIso(dayjs(booking.start_time).subtract(CHECK_IN_EARLY_MINUTES, 'minute'), booking.time_zone)
+    });
+  } catch (error) {
+    console.error('Error building booking pass:', error);
+    res.status(500).json({ message: 'Failed to load the booking pass.' });
+  }
+});
+
 // PATCH to cancel a booking (User can cancel their own booking)
 router.patch('/locations/bookings/:bookingId/cancel', verifyToken(['user']), async (req, res) => {
   console.log('\n>>> PATCH /api/locations/bookings/:bookingId/cancel. User ID:', req.user?.id);
@@ -162,7 +403,7 @@ router.patch('/locations/bookings/:bookingId/cancel', verifyToken(['user']), asy
 
   try {
     const [booking] = await dbQuery(
-      'SELECT id, user_id, status, start_time FROM bookings WHERE id = ? FOR UPDATE', 
+      'SELECT id, user_id, parking_location_id, status, start_time, end_time FROM bookings WHERE id = ? FOR UPDATE', 
       [bookingId]
     );
 
@@ -185,6 +426,7 @@ router.patch('/locations/bookings/:bookingId/cancel', verifyToken(['user']), asy
     }
 
     await dbQuery("UPDATE bookings SET status = 'cancelled' WHERE id = ?", [bookingId]);
+    await promoteWaitlist(booking.parking_location_id, booking.start_time, booking.end_time);
     
     res.json({ message: 'Booking cancelled successfully.' });
   } catch (error) {
@@ -193,12 +435,298 @@ router.patch('/locations/bookings/:bookingId/cancel', verifyToken(['user']), asy
   }
 });
 
+// PATCH to cancel every remaining occurrence of a recurring booking. Occurrences less than an hour away
+// follow the single-booking rule and are kept; they're reported back as skipped.
+router.patch('/locations/bookings/series/:seriesId/cancel', verifyToken(['user']), async (req, res) => {
+  console.log('\n>>> PATCH /api/locations/bookings/series/:seriesId/cancel. User ID:', req.user?.id);
+  const { seriesId } = req.params;
+
+  try {
+    const [series] = await dbQuery('SELECT id, user_id, cancelled_at FROM booking_series WHERE id = ?', [seriesId]);
+    if (!series) {
+      return res.status(404).json({ message: 'Recurring booking not found.' });
+    }
+    if (series.user_id !== req.user.id) {
+      return res.status(403).json({ message: 'You can only cancel your own bookings.' });
+    }
+
+    const cutoff = toDbDateTime(dayjs().add(1, 'hour'));
+    const cancellable = await dbQuery(
+      "SELECT id, parking_location_id, start_time, end_time FROM bookings WHERE series_id = ? AND status = 'confirmed' AND start_time > ?",
+      [seriesId, cutoff]
+    );
+    const result = await dbQuery(
+      "UPDATE bookings SET status = 'cancelled' WHERE series_id = ? AND status = 'confirmed' AND start_time > ?",
+      [seriesId, cutoff]
+    );
+    for (const booking of cancellable) {
+      await promoteWaitlist(booking.parking_location_id, booking.start_time, booking.end_time);
+    }
+    const [skipped] = await dbQuery(
+      "SELECT COUNT(*) as count FROM bookings WHERE series_id = ? AND status = 'confirmed'",
+      [seriesId]
+    );
+    await dbQuery('UPDATE booking_series SET cancelled_at = COALESCE(cancelled_at, NOW()) WHERE id = ?', [seriesId]);
+
+    const skippedCount = Number(skipped.count) || 0;
+    res.json({
+      message: `${result.affectedRows} upcoming booking(s) in the series cancelled.` +
+        (skippedCount > 0 ? ` ${skippedCount} starting within the hour could not be cancelled.` : ''),
+      cancelledCount: result.affectedRows,
+      skippedCount
+    });
+  } catch (error) {
+    console.error('Error cancelling recurring booking:', error);
+    res.status(500).json({ message: 'Failed to cancel recurring booking.' });
+  }
+});
+
+// POST to join the waitlist for a window that is fully booked. The entry is auto-booked if a cancellation
+// frees capacity for the whole window before it starts.
+router.post('/locations/waitlist', verifyToken(['user']), async (req, res) => {
+  console.log('\n>>> POST /api/locations/waitlist. User ID:', req.user?.id);
+  const { parkingLocationId, startTime: startTimeISO, endTime: endTimeISO, licensePlateBooked } = req.body;
+  const userId = req.user.id;
+
+  if (!parkingLocationId || !startTimeISO || !endTimeISO) {
+    return res.status(400).json({ message: 'Missing required booking information.' });
+  }
+  const STime = dayjs(startTimeISO);
+  const ETime = dayjs(endTimeISO);
+  if (!STime.isValid() || !ETime.isValid() || !ETime.isAfter(STime) || STime.isBefore(dayjs())) {
+    return res.status(400).json({ message: 'Invalid booking time range or start time is in the past.' });
+  }
+  const formattedStartTime = toDbDateTime(STime);
+  const formattedEndTime = toDbDateTime(ETime);
+
+  try {
+    const [bookingUser] = await dbQuery('SELECT email_verified_at FROM users WHERE id = ?', [userId]);
+    if (!bookingUser || !bookingUser.email_verified_at) {
+      return res.status(403).json({ message: 'Please verify your email address before making a booking.', code: 'EMAIL_NOT_VERIFIED' });
+    }
+
+    const capacity = await getBookingCapacity(parkingLocationId, formattedStartTime, formattedEndTime);
+    if (!capacity) {
+      return res.status(404).json({ message: 'Parking location not found.' });
+    }
+    if (capacity.isBookable) {
+      return res.status(409).json({ message: 'This window has free capacity, so you can book it directly.' });
+    }
+
+    const [existing] = await dbQuery(
+      `SELECT id FROM booking_waitlist
+       WHERE user_id = ? AND parking_location_id = ? AND status = 'waiting' AND start_time = ? AND end_time = ?`,
+      [userId, parkingLocationId, formattedStartTime, formattedEndTime]
+    );
+    if (existing) {
+      return res.status(400).json({ message: 'You are already on the waitlist for this window.' });
+    }
+
+    const result = await dbQuery(
+      'INSERT INTO booking_waitlist (user_id, parking_location_id, start_time, end_time, license_plate_booked) VALUES (?, ?, ?, ?, ?)',
+      [userId, parkingLocationId, formattedStartTime, formattedEndTime, licensePlateBooked || null]
+    );
+    const [position] = await dbQuery(
+      `SELECT COUNT(*) as count FROM booking_waitlist
+       WHERE parking_location_id = ? AND status = 'waiting' AND id <= ? AND start_time < ? AND end_time > ?`,
+      [parkingLocationId, result.insertId, formattedEndTime, formattedStartTime]
+    );
+
+    res.status(201).json({
+      message: `You're on the waitlist (position ${position.count}). We'll book it and email you if a space frees up.`,
+      waitlistId: result.insertId,
+      position: Number(position.count)
+    });
+  } catch (error) {
+    console.error('Error joining waitlist:', error);
+    res.status(500).json({ message: 'Failed to join the waitlist.' });
+  }
+});
+
+// GET the user's waitlist entries. position counts the waiting entries at the same location with an overlapping
+// window that joined before this one, plus this one.
+router.get('/locations/waitlist', verifyToken(['user']), async (req, res) => {
+  console.log('\n>>> GET /api/locations/waitlist. User ID:', req.user?.id);
+  try {
+    await expireStaleWaitlistEntries();
+    const entries = await dbQuery(
+      `SELECT w.id, w.parking_location_id, w.start_time, w.end_time, w.license_plate_booked, w.status, w.booking_id,
+              w.created_at, p.name as locationName, p.time_zone as locationTimeZone,
+              (SELECT COUNT(*) FROM booking_waitlist o
+               WHERE o.parking_location_id = w.parking_location_id AND o.status = 'waiting'
+                 AND o.start_time < w.end_time AND o.end_time > w.start_time
+                 AND (o.created_at < w.created_at OR (o.created_at = w.created_at AND o.id <= w.id))) as position
+       FROM booking_waitlist w
+       JOIN parking_locations p ON w.parking_location_id = p.id
+       WHERE w.user_id = ? AND w.end_time > NOW() AND w.status IN ('waiting', 'booked')
+       ORDER BY w.start_time ASC`,
+      [req.user.id]
+    );
+
+    res.json(entries.map(entry => ({
+      id: entry.id,
+      locationId: entry.parking_location_id,
+      locationName: entry.locationName,
+      locationTimeZone: entry.locationTimeZone,
+      startTime: toZonedIso(entry.start_time, entry.locationTimeZone),
+      endTime: toZonedIso(entry.end_time, entry.locationTimeZone),
+      licensePlateBooked: entry.license_plate_booked,
+      status: entry.status,
+      bookingId: entry.booking_id,
+      position: entry.status === 'waiting' ? Number(entry.position) : null,
+      createdAt: entry.created_at
+    })));
+  } catch (error) {
+    console.error('Error fetching waitlist:', error);
+    res.status(500).json({ message: 'Failed to fetch your waitlist entries.' });
+  }
+});
+
+// PATCH to leave the waitlist
+router.patch('/locations/waitlist/:entryId/cancel', verifyToken(['user']), async (req, res) => {
+  console.log('\n>>> PATCH /api/locations/waitlist/:entryId/cancel. User ID:', req.user?.id);
+  const { entryId } = req.params;
+  try {
+    const [entry] = await dbQuery('SELECT id, user_id, status FROM booking_waitlist WHERE id = ?', [entryId]);
+    if (!entry) {
+      return res.status(404).json({ message: 'Waitlist entry not found.' });
+    }
+    if (entry.user_id !== req.user.id) {
+      return res.status(403).json({ message: 'You can only leave your own waitlist entries.' });
+    }
+    const result = await dbQuery(
+      "UPDATE booking_waitlist SET status = 'cancelled', resolved_at = NOW() WHERE id = ? AND status = 'waiting'",
+      [entryId]
+    );
+    if (result.affectedRows === 0) {
+      return res.status(400).json({ message: `This waitlist entry is already ${entry.status === 'waiting' ? 'resolved' : entry.status}.` });
+    }
+    res.json({ message: 'You have left the waitlist.' });
+  } catch (error) {
+    console.error('Error leaving waitlist:', error);
+    res.status(500).json({ message: 'Failed to leave the waitlist.' });
+  }
+});
+
+// PATCH to modify a booking: move the start, change the end, or extend while checked in.
+// Send `preview: true` to get the capacity check and price difference without saving anything.
+router.patch('/locations/bookings/:bookingId', verifyToken(['user']), async (req, res) => {
+  console.log('\n>>> PATCH /api/locations/bookings/:bookingId. User ID:', req.user?.id);
+  const { bookingId } = req.params;
+  const { startTime: startTimeISO, endTime: endTimeISO, preview } = req.body;
+
+  if (!startTimeISO && !endTimeISO) {
+    return res.status(400).json({ message: 'Provide a new start time and/or end time.' });
+  }
+
+  try {
+    const [booking] = await dbQuery(
+      'SELECT id, user_id, parking_location_id, status, start_time, end_time, actual_entry_time FROM bookings WHERE id = ?',
+      [bookingId]
+    );
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found.' });
+    }
+    if (booking.user_id !== req.user.id) {
+      return res.status(403).json({ message: 'You can only change your own bookings.' });
+    }
+    if (booking.status !== 'confirmed' && booking.status !== 'checked-in') {
+      return res.status(400).json({ message: `Booking cannot be changed. Its current status is: ${booking.status}.` });
+    }
+
+    const now = dayjs();
+    const currentStart = dayjs(booking.start_time);
+    const currentEnd = dayjs(booking.end_time);
+    const newStart = startTimeISO ? dayjs(startTimeISO) : currentStart;
+    const newEnd = endTimeISO ? dayjs(endTimeISO) : currentEnd;
+
+    if (!newStart.isValid() || !newEnd.isValid()) {
+      return res.status(400).json({ message: 'Invalid date/time format.' });
+    }
+    if (!newEnd.isAfter(newStart)) {
+      return res.status(400).json({ message: 'End time must be after the start time.' });
+    }
+    if (!newEnd.isAfter(now)) {
+      return res.status(400).json({ message: 'The new end time must be in the future.' });
+    }
+    const startChanged = !newStart.isSame(currentStart);
+    if (booking.status === 'checked-in') {
+      // The car is already parked: the stay can only be made longer
+      if (startChanged) {
+        return res.status(400).json({ message: 'The start time cannot be changed after check-in.' });
+      }
+      if (newEnd.isBefore(currentEnd)) {
+        return res.status(400).json({ message: 'A booking cannot be shortened after check-in, only extended.' });
+      }
+    } else if (startChanged) {
+      if (!currentStart.isAfter(now)) {
+        return res.status(400).json({ message: 'This booking has already started; only its end time can be changed.' });
+      }
+      if (newStart.isBefore(now)) {
+        return res.status(400).json({ message: 'The new start time is in the past.' });
+      }
+    }
+    if (!startChanged && newEnd.isSame(currentEnd)) {
+      return res.status(400).json({ message: 'No changes to save.' });
+    }
+
+    const formattedStartTime = toDbDateTime(newStart);
+    const formattedEndTime = toDbDateTime(newEnd);
+    const capacity = await getBookingCapacity(booking.parking_location_id, formattedStartTime, formattedEndTime, { excludeBookingId: booking.id });
+
+    // Checked-in bookings are billed from the actual entry, so estimate from there
+    const hourlyRate = await getHourlyRate();
+    const billedFrom = booking.status === 'checked-in' && booking.actual_entry_time ? dayjs(booking.actual_entry_time) : null;
+    const currentEstimate = calculateParkingCost(billedFrom || currentStart, currentEnd, hourlyRate);
+    const newEstimate = calculateParkingCost(billedFrom || newStart, newEnd, hourlyRate);
+    const priceChange = {
+      hourlyRate,
+      currentEstimate,
+      newEstimate,
+      priceDifference: Math.round((newEstimate - currentEstimate) * 100) / 100
+    };
+
+    if (preview) {
+      return res.json({
+        ...priceChange,
+        isBookable: capacity.isBookable,
+        slotsAvailableForBooking: capacity.available,
+        message: capacity.isBookable ? 'These times are available.' : 'Booking capacity reached for the new times.'
+      });
+    }
+    if (!capacity.isBookable) {
+      return res.status(400).json({ message: 'Booking capacity reached for the new times. Please try a different time.' });
+    }
+
+    // Only if nothing (e.g. a check-in) changed the booking since it was read. A new end time gets its own overstay alert,
+    // and the new estimate replaces the quote.
+    const result = await dbQuery(
+      'UPDATE bookings SET start_time = ?, end_time = ?, overstay_flagged_at = NULL, quoted_amount = ? WHERE id = ? AND status = ?',
+      [formattedStartTime, formattedEndTime, newEstimate, booking.id, booking.status]
+    );
+    if (result.affectedRows === 0) {
+      return res.status(409).json({ message: 'This booking changed while you were editing it. Please refresh and try again.' });
+    }
+
+    res.json({
+      message: 'Booking updated successfully.',
+      bookingId: booking.id,
+      startTime: toZonedIso(newStart, capacity.timeZone),
+      endTime: toZonedIso(newEnd, capacity.timeZone),
+      ...priceChange
+    });
+  } catch (error) {
+    console.error('Error modifying booking:', error);
+    res.status(500).json({ message: 'Failed to update booking.' });
+  }
+});
+
 // GET a specific parking location by ID (Public)
 router.get('/locations/:locationId', async (req, res) => {
   try {
     const { locationId } = req.params;
     const [location] = await dbQuery(
-        `SELECT id, name, latitude, longitude, total_slots, available_slots, cover_image_url,
+        `SELECT id, name, latitude, longitude, total_slots, available_slots, cover_image_url, time_zone,
                 (SELECT AVG(rating) FROM feedback WHERE parking_location_id = parking_locations.id) as averageRating,
                 (SELECT COUNT(*) FROM feedback WHERE parking_location_id = parking_locations.id) as feedbackCount
          FROM parking_locations WHERE id = ?`,
@@ -215,6 +743,7 @@ router.get('/locations/:locationId', async (req, res) => {
       totalSlots: location.total_slots,
       availableSlots: location.available_slots,
       coverImageUrl: location.cover_image_url,
+      timeZone: location.time_zone,
       averageRating: parseFloat(location.averageRating) || 0,
       feedbackCount: parseInt(location.feedbackCount) || 0,
     });
@@ -242,34 +771,17 @@ router.get('/locations/:locationId/booking-availability', async (req, res) => {
     }
 
     try {
-        const [location] = await dbQuery('SELECT total_slots FROM parking_locations WHERE id = ?', [locationId]);
-        if (!location) {
+        const capacity = await getBookingCapacity(locationId, toDbDateTime(STime), toDbDateTime(ETime));
+        if (!capacity) {
             return res.status(404).json({ message: "Parking location not found." });
         }
 
-        const bookingThresholdPercent = 0.70; 
-        const bookingCapacity = Math.floor(location.total_slots * bookingThresholdPercent);
-
-        const [overlappingBookingsResult] = await dbQuery(
-            `SELECT COUNT(*) as count 
-             FROM bookings 
-             WHERE parking_location_id = ? 
-               AND status IN ('confirmed', 'checked-in')
-               AND start_time < ? 
-               AND end_time > ?`,
-            [locationId, ETime.format('YYYY-MM-DD HH:mm:ss'), STime.format('YYYY-MM-DD HH:mm:ss')] 
-        );
-        const currentOverlappingBookings = overlappingBookingsResult.count || 0;
-
-        const canBook = currentOverlappingBookings < bookingCapacity;
-        const availableForBooking = Math.max(0, bookingCapacity - currentOverlappingBookings);
-
         res.json({ 
-            isBookable: canBook, 
-            message: canBook ? `${availableForBooking} booking slot(s) available.` : "Booking capacity reached.",
-            slotsAvailableForBooking: availableForBooking,
-            bookingCapacityForLocation: bookingCapacity,
-            currentBookedCountInSlot: currentOverlappingBookings
+            isBookable: capacity.isBookable, 
+            message: capacity.isBookable ? `${capacity.available} booking slot(s) available.` : "Booking capacity reached.",
+            slotsAvailableForBooking: capacity.available,
+            bookingCapacityForLocation: capacity.capacity,
+            currentBookedCountInSlot: capacity.booked
         });
 
     } catch (error) {
@@ -278,6 +790,79 @@ router.get('/locations/:locationId/booking-availability', async (req, res) => {
     }
 });
 
+// GET the price of a proposed booking window at the current rate; the same amount is stored on the booking when made
+router.get('/locations/:locationId/quote', async (req, res) => {
+    const { locationId } = req.params;
+    const STime = dayjs(req.query.startTime);
+    const ETime = dayjs(req.query.endTime);
+
+    if (!req.query.startTime || !req.query.endTime || !STime.isValid() || !ETime.isValid() || !ETime.isAfter(STime)) {
+        return res.status(400).json({ message: "A valid start time and end time are required." });
+    }
+
+    try {
+        const [location] = await dbQuery('SELECT id, time_zone FROM parking_locations WHERE id = ?', [locationId]);
+        if (!location) {
+            return res.status(404).json({ message: "Parking location not found." });
+        }
+        const quote = await quoteParkingCost(STime, ETime);
+        res.json({ startTime: toZonedIso(STime, location.time_zone), endTime: toZonedIso(ETime, location.time_zone), ...quote });
+    } catch (error) {
+        console.error("Error quoting booking:", error);
+        res.status(500).json({ message: "Failed to calculate a price for this booking." });
+    }
+});
+
+// GET alternatives for a window that can't be booked: nearby free windows at this location the same day,
+// and other locations with capacity for the same window, nearest first
+router.get('/locations/:locationId/booking-suggestions', async (req, res) => {
+    const { locationId } = req.params;
+    const STime = dayjs(req.query.startTime);
+    const ETime = dayjs(req.query.endTime);
+
+    if (!req.query.startTime || !req.query.endTime || !STime.isValid() || !ETime.isValid() || !ETime.isAfter(STime)) {
+        return res.status(400).json({ message: "A valid start time and end time are required." });
+    }
+
+    try {
+        const suggestions = await getBookingSuggestions(locationId, STime, ETime);
+        if (!suggestions) {
+            return res.status(404).json({ message: "Parking location not found." });
+        }
+        res.json(suggestions);
+    } catch (error) {
+        console.error("Error building booking suggestions:", error);
+        res.status(500).json({ message: "Failed to load booking suggestions." });
+    }
+});
+
+// GET remaining booking capacity across a day in 15- or 30-minute buckets, for the booking heatmap.
+// ?date=YYYY-MM-DD (default today in the location's time zone) &interval=15|30 (default 30)
+router.get('/locations/:locationId/availability-timeline', async (req, res) => {
+    const { locationId } = req.params;
+    const date = req.query.date || null;
+    const interval = req.query.interval ? parseInt(req.query.interval, 10) : 30;
+
+    // dayjs rolls impossible dates over (2025-02-31 becomes 2025-03-03), so require it to format back unchanged
+    if (date && (!/^\d{4}-\d{2}-\d{2}$/.test(date) || dayjs(date).format('YYYY-MM-DD') !== date)) {
+        return res.status(400).json({ message: "'date' must be a date (YYYY-MM-DD)." });
+    }
+    if (!TIMELINE_INTERVALS.includes(interval)) {
+        return res.status(400).json({ message: `'interval' must be one of: ${TIMELINE_INTERVALS.join(', ')} minutes.` });
+    }
+
+    try {
+        const timeline = await getCapacityTimeline(locationId, date, interval);
+        if (!timeline) {
+            return res.status(404).json({ message: "Parking location not found." });
+        }
+        res.json({ interval, ...timeline });
+    } catch (error) {
+        console.error("Error building availability timeline:", error);
+        res.status(500).json({ message: "Failed to load the availability timeline." });
+    }
+});
+
 // POST feedback for a location (User role)
 router.post('/locations/feedback', verifyToken(['user']), async (req, res) => {
   console.log('\n>>> POST /api/locations/feedback. User ID:', req.user?.id);
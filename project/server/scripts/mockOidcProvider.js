@@ -0,0 +1,130 @@
+// server/scripts/mockOidcProvider.js
+// A tiny OpenID Connect provider for trying single sign-on locally. Not for production use.
+// Run it with `npm run mock-idp`, then add to .env and restart the API server:
+//   OIDC_ISSUER=http://localhost:5055
+//   OIDC_CLIENT_ID=parkease-dev
+//   OIDC_PROVIDER_NAME=Mock IdP
+// The sign-in page lets you type any email/name and choose whether the email counts as verified.
+import express from 'express';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { escapeHtml } from '../utils/html.js';
+
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || '5055', 10);
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.OIDC_CLIENT_ID || 'parkease-dev';
+const CODE_TTL_MS = 60 * 1000;
+
+// A fresh signing key per run; the API server refetches the key set when it sees an unknown kid
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+
+const authorizationCodes = new Map(); // code -> { redirectUri, codeChallenge, nonce, claims, expiresAt }
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['none', 'client_secret_post'],
+    scopes_supported: ['openid', 'email', 'profile'],
+    claims_supported: ['sub', 'email', 'email_verified', 'name']
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }] });
+});
+
+// Sign-in form. The authorization request parameters ride along as hidden fields.
+app.get('/authorize', (req, res) => {
+  const { client_id: clientId, redirect_uri: redirectUri, response_type: responseType, code_challenge_method: method } = req.query;
+  if (clientId !== CLIENT_ID || responseType !== 'code' || !redirectUri || method !== 'S256' || !req.query.code_challenge) {
+    return res.status(400).send('Invalid authorization request (expected a PKCE S256 code request for the configured client).');
+  }
+  const hidden = ['redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(req.query[name])}">`)
+    .join('');
+  res.send(`<!doctype html>
+<html><head><title>Mock IdP</title></head>
+<body style="font-family: sans-serif; max-width: 360px; margin: 60px auto;">
+  <h2>Mock identity provider</h2>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Email<br><input name="email" type="email" required style="width: 100%"></label></p>
+    <p><label>Name<br><input name="name" style="width: 100%"></label></p>
+    <p><label><input name="email_verified" type="checkbox" checked> Email is verified</label></p>
+    <p><button type="submit" name="decision" value="allow">Sign in</button>
+       <button type="submit" name="decision" value="deny" formnovalidate>Cancel</button></p>
+  </form>
+</body></html>`);
+});
+
+app.post('/authorize', (req, res) => {
+  const { redirect_uri: redirectUri, state, nonce, code_challenge: codeChallenge, email, name, decision } = req.body;
+  const target = new URL(redirectUri);
+  if (state) target.searchParams.set('state', state);
+
+  if (decision !== 'allow') {
+    target.searchParams.set('error', 'access_denied');
+    return res.redirect(target.toString());
+  }
+
+  const code = crypto.randomBytes(24).toString('base64url');
+  authorizationCodes.set(code, {
+    redirectUri,
+    codeChallenge,
+    nonce,
+    expiresAt: Date.now() + CODE_TTL_MS,
+    claims: {
+      // The same email always maps to the same subject, like a real directory would
+      sub: crypto.createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 24),
+      email,
+      email_verified: req.body.email_verified === 'on',
+      name: name || undefined
+    }
+  });
+  target.searchParams.set('code', code);
+  res.redirect(target.toString());
+});
+
+app.post('/token', (req, res) => {
+  const { grant_type: grantType, code, redirect_uri: redirectUri, client_id: clientId, code_verifier: codeVerifier } = req.body;
+  const grant = authorizationCodes.get(code);
+  authorizationCodes.delete(code); // Codes are single-use
+
+  if (grantType !== 'authorization_code' || !grant || grant.expiresAt < Date.now()) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'Unknown or expired code' });
+  }
+  if (clientId !== CLIENT_ID || redirectUri !== grant.redirectUri) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'Client or redirect URI mismatch' });
+  }
+  const challenge = crypto.createHash('sha256').update(codeVerifier || '').digest('base64url');
+  if (challenge !== grant.codeChallenge) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const idToken = jwt.sign(
+    { ...grant.claims, nonce: grant.nonce },
+    privateKey.export({ format: 'pem', type: 'pkcs8' }),
+    { algorithm: 'RS256', keyid: KEY_ID, issuer: ISSUER, audience: CLIENT_ID, expiresIn: '5m' }
+  );
+  res.json({
+    access_token: crypto.randomBytes(24).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock OIDC provider running at ${ISSUER} (client_id "${CLIENT_ID}")`);
+});
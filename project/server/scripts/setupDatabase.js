@@ -2,6 +2,76 @@
 import { pool } from '../config/database.js'; // Ensure this path is correct
 import bcrypt from 'bcryptjs';
 import dayjs from 'dayjs'; // Make sure dayjs is imported for seeding bookings
+import { SYSTEM_ROLES } from '../config/permissions.js';
+import { generateConfirmationCode } from '../utils/bookingPasses.js';
+
+// CREATE TABLE IF NOT EXISTS leaves existing tables untouched, so columns added after the first release
+// are also added here for databases created by an older version of this script. Returns true if added.
+const addColumnIfMissing = async (connection, table, column, definition) => {
+  const [rows] = await connection.query(
+    'SELECT COUNT(*) as count FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?',
+    [table, column]
+  );
+  if (rows[0].count > 0) return false;
+  await connection.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  console.log(`Column "${table}.${column}" added.`);
+  return true;
+};
+
+// Like addColumnIfMissing, for a named index or constraint. Returns true if it was added.
+const addConstraintIfMissing = async (connection, table, name, definition) => {
+  const [rows] = await connection.query(
+    'SELECT COUNT(*) as count FROM information_schema.TABLE_CONSTRAINTS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND CONSTRAINT_NAME = ?',
+    [table, name]
+  );
+  if (rows[0].count > 0) return false;
+  await connection.query(`ALTER TABLE ${table} ADD CONSTRAINT ${name} ${definition}`);
+  console.log(`Constraint "${table}.${name}" added.`);
+  return true;
+};
+
+// Older versions stored DATETIME values in the server's local time. Databases upgraded from one get every location
+// set to that zone and every DATETIME column converted to UTC. TIMESTAMP columns are stored in UTC by MySQL already.
+// The updates run in one transaction and set the locations' zones last, so a failure leaves nothing converted and
+// time_zone still NULL for the next run to retry.
+const convertLegacyDateTimesToUtc = async (connection) => {
+  const legacyTimeZone = process.env.DEFAULT_TIME_ZONE || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+  // Named zones need MySQL's time zone tables; without them, fall back to the zone's current offset
+  const [[probe]] = await connection.query("SELECT CONVERT_TZ('2000-01-01 00:00:00', ?, '+00:00') AS converted", [legacyTimeZone]);
+  const fromZone = probe.converted ? legacyTimeZone : dayjs().format('Z');
+  if (!probe.converted && fromZone !== '+00:00') {
+    console.warn(
+      `MySQL has no time zone tables, so every DATETIME is converted from today's offset (${fromZone}) instead of ` +
+      `${legacyTimeZone}. Rows from the other side of a daylight-saving change will be off by the difference. ` +
+      'Load the tables (mysql_tzinfo_to_sql) before upgrading to avoid this.'
+    );
+  }
+
+  let columns = [];
+  if (fromZone !== '+00:00') {
+    // audit_events is append-only (its triggers refuse updates), so its rows keep the time they were recorded in
+    [columns] = await connection.query(
+      `SELECT TABLE_NAME, COLUMN_NAME FROM information_schema.COLUMNS
+       WHERE TABLE_SCHEMA = DATABASE() AND DATA_TYPE = 'datetime' AND TABLE_NAME <> 'audit_events'`
+    );
+  }
+  await connection.beginTransaction();
+  try {
+    for (const { TABLE_NAME: table, COLUMN_NAME: column } of columns) {
+      await connection.query(`UPDATE ${table} SET ${column} = CONVERT_TZ(${column}, ?, '+00:00') WHERE ${column} IS NOT NULL`, [fromZone]);
+    }
+    await connection.query('UPDATE parking_locations SET time_zone = ?', [legacyTimeZone]);
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  }
+  if (columns.length > 0) {
+    console.log(`Converted ${columns.length} DATETIME column(s) from ${fromZone} to UTC.`);
+    console.warn(`audit_events timestamps recorded before this upgrade are still in ${fromZone}.`);
+  }
+};
 
 // Create tables and initialize with seed data
 const setupDatabase = async () => {
@@ -21,7 +91,10 @@ const setupDatabase = async () => {
         longitude FLOAT NOT NULL,
         total_slots INT NOT NULL,
         available_slots INT NOT NULL,
-        cover_image_url VARCHAR(255) NULL
+        cover_image_url VARCHAR(255) NULL,
+        booking_capacity_mode VARCHAR(10) NOT NULL DEFAULT 'percent', -- 'percent' of total_slots or an 'absolute' count
+        booking_capacity_value INT NOT NULL DEFAULT 70, -- Slots that can be booked in advance; the rest are for drive-ups
+        time_zone VARCHAR(64) NOT NULL DEFAULT 'UTC' -- IANA zone the location's wall-clock times are shown in
       ) ENGINE=InnoDB;
     `);
     console.log('Table "parking_locations" created.');
@@ -31,25 +104,91 @@ const setupDatabase = async () => {
       CREATE TABLE IF NOT EXISTS users (
         id INT PRIMARY KEY AUTO_INCREMENT,
         name VARCHAR(100) NOT NULL,
-        email VARCHAR(100) UNIQUE NOT NULL,
+        email VARCHAR(100) UNIQUE NULL, -- NULL only for guest contacts given with just a phone number
+        phone VARCHAR(32) UNIQUE NULL, -- Digits and a leading +; staff find customers by it when booking on their behalf
         password VARCHAR(255) NOT NULL,
-        role ENUM('admin', 'employee', 'user') NOT NULL DEFAULT 'user',
+        role VARCHAR(50) NOT NULL DEFAULT 'user', -- admin, employee, user or a custom role from the roles table
+        is_guest TINYINT(1) NOT NULL DEFAULT 0, -- Customer added by staff with no password of their own yet
         parking_location_id INT NULL, -- For employee assignment
+        email_verified_at DATETIME NULL, -- NULL until the user opens the emailed verification link
+        totp_secret VARCHAR(64) NULL, -- Base32 TOTP secret, set once two-factor setup is confirmed
+        totp_pending_secret VARCHAR(64) NULL, -- Secret shown during setup, not yet confirmed
+        totp_enabled_at DATETIME NULL,
+        totp_last_counter BIGINT NULL, -- Last accepted TOTP time step, so a code can't be replayed
+        failed_login_count INT NOT NULL DEFAULT 0, -- Consecutive failed logins, reset on success
+        locked_until DATETIME NULL, -- Set when failed_login_count passes the lockout threshold
+        auth_version INT NOT NULL DEFAULT 0, -- Bumped when role/location change so cached claims are reloaded
+        active TINYINT(1) NOT NULL DEFAULT 1, -- 0 once an employee is offboarded; the row stays so history keeps their name
+        deactivated_at DATETIME NULL,
+        CONSTRAINT chk_users_email_or_guest CHECK (email IS NOT NULL OR is_guest = 1),
         FOREIGN KEY (parking_location_id) REFERENCES parking_locations(id) ON DELETE SET NULL ON UPDATE CASCADE
       ) ENGINE=InnoDB;
     `);
     console.log('Table "users" created.');
 
+    // Roles table. Built-in roles (is_system = 1) plus custom back-office roles created by admins.
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS roles (
+        name VARCHAR(50) PRIMARY KEY,
+        label VARCHAR(100) NOT NULL,
+        description VARCHAR(255) NULL,
+        is_system TINYINT(1) NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      ) ENGINE=InnoDB;
+    `);
+    console.log('Table "roles" created.');
+
+    // Role Permissions table (Depends on roles). Permission keys come from server/config/permissions.js.
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS role_permissions (
+        role_name VARCHAR(50) NOT NULL,
+        permission VARCHAR(50) NOT NULL,
+        PRIMARY KEY (role_name, permission),
+        FOREIGN KEY (role_name) REFERENCES roles(name) ON DELETE CASCADE ON UPDATE CASCADE
+      ) ENGINE=InnoDB;
+    `);
+    for (const role of SYSTEM_ROLES) {
+      await connection.query(
+        'INSERT IGNORE INTO roles (name, label, description, is_system) VALUES (?, ?, ?, 1)',
+        [role.name, role.label, role.description]
+      );
+      for (const permission of role.permissions) {
+        await connection.query('INSERT IGNORE INTO role_permissions (role_name, permission) VALUES (?, ?)', [role.name, permission]);
+      }
+    }
+    console.log('Table "role_permissions" created.');
+
     // Settings table
     await connection.query(`
       CREATE TABLE IF NOT EXISTS settings (
         id INT PRIMARY KEY, -- Expecting a single row, e.g., id=1 for global settings
-        hourly_rate DECIMAL(5,2) NOT NULL
+        hourly_rate DECIMAL(5,2) NOT NULL,
+        no_show_grace_minutes INT NOT NULL DEFAULT 30, -- How long after start_time an unused booking becomes a no-show
+        no_show_fee DECIMAL(10,2) NOT NULL DEFAULT 0
       ) ENGINE=InnoDB;
     `);
     console.log('Table "settings" created.');
 
-    // Bookings table (Depends on users and parking_locations)
+    // Booking Series table. A recurring booking (e.g. weekdays 9:00-18:00 for 4 weeks); each date is its own booking row.
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS booking_series (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        parking_location_id INT NOT NULL,
+        days_of_week VARCHAR(20) NOT NULL,          -- Comma-separated day numbers, 0 = Sunday
+        weeks INT NOT NULL,
+        first_start_time DATETIME NOT NULL,         -- First day of the series at the daily start time
+        first_end_time DATETIME NOT NULL,
+        license_plate_booked VARCHAR(50) NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        cancelled_at DATETIME NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE ON UPDATE CASCADE,
+        FOREIGN KEY (parking_location_id) REFERENCES parking_locations(id) ON DELETE CASCADE ON UPDATE CASCADE
+      ) ENGINE=InnoDB;
+    `);
+    console.log('Table "booking_series" created.');
+
+    // Bookings table (Depends on users, parking_locations and booking_series)
     // await connection.query(`
     //   CREATE TABLE IF NOT EXISTS bookings (
     //     id INT PRIMARY KEY AUTO_INCREMENT,
@@ -82,10 +221,21 @@ const setupDatabase = async () => {
         actual_exit_time DATETIME NULL,             -- Actual time of check-out
         final_cost DECIMAL(10,2) NULL,              -- Final cost after check-out
         employee_id_check_out INT NULL,             -- Employee who handled booking check-out
+        series_id INT NULL,                         -- Set for occurrences of a recurring booking
+        no_show_at DATETIME NULL,                   -- When the no-show job released the booking
+        no_show_fee DECIMAL(10,2) NULL,             -- Fee charged for the no-show, if any
+        overstay_flagged_at DATETIME NULL,          -- When the overstay job flagged the booking and emailed the user
+        overstay_charge DECIMAL(10,2) NULL,         -- Part of final_cost for the time parked past end_time
+        confirmation_code VARCHAR(16) NULL,         -- Random code on the booking pass, scanned or typed at check-in
+        quoted_amount DECIMAL(10,2) NULL,           -- Price quoted for the booked window when it was booked or last changed
+        created_by_user_id INT NULL,                -- Who made the booking: the customer, or staff booking on their behalf
+        UNIQUE KEY uq_confirmation_code (confirmation_code),
         FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE ON UPDATE CASCADE,
         FOREIGN KEY (parking_location_id) REFERENCES parking_locations(id) ON DELETE CASCADE ON UPDATE CASCADE,
         FOREIGN KEY (employee_id_check_in) REFERENCES users(id) ON DELETE SET NULL ON UPDATE CASCADE,
-        FOREIGN KEY (employee_id_check_out) REFERENCES users(id) ON DELETE SET NULL ON UPDATE CASCADE -- New FK
+        FOREIGN KEY (employee_id_check_out) REFERENCES users(id) ON DELETE SET NULL ON UPDATE CASCADE, -- New FK
+        FOREIGN KEY (series_id) REFERENCES booking_series(id) ON DELETE SET NULL ON UPDATE CASCADE,
+        FOREIGN KEY (created_by_user_id) REFERENCES users(id) ON DELETE SET NULL ON UPDATE CASCADE
       ) ENGINE=InnoDB;
     `);
     console.log('Table "bookings" created.');
@@ -125,6 +275,293 @@ const setupDatabase = async () => {
     `);
     console.log('Table "feedback" created.');
 
+    // User Sessions table (Depends on users). One row per login; the refresh token rotates within the row.
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS user_sessions (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        refresh_token_hash CHAR(64) NOT NULL,       -- SHA-256 of the current refresh token
+        previous_token_hash CHAR(64) NULL,          -- Last rotated-out token, used to detect token reuse
+        rotated_at DATETIME NULL,                   -- When previous_token_hash was retired; starts its grace window
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        revoked_at DATETIME NULL,
+        ip_address VARCHAR(45) NULL,                -- Where the session was last used from
+        user_agent VARCHAR(255) NULL,
+        last_seen_at DATETIME NULL,                 -- Updated (at most once a minute) by verifyToken and on refresh
+        UNIQUE KEY uq_refresh_token_hash (refresh_token_hash),
+        KEY idx_previous_token_hash (previous_token_hash),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE ON UPDATE CASCADE
+      ) ENGINE=InnoDB;
+    `);
+    console.log('Table "user_sessions" created.');
+
+    // Password Reset Tokens table (Depends on users). Tokens are single-use and stored hashed.
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS password_reset_tokens (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        token_hash CHAR(64) NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME NULL,
+        UNIQUE KEY uq_token_hash (token_hash),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE ON UPDATE CASCADE
+      ) ENGINE=InnoDB;
+    `);
+    console.log('Table "password_reset_tokens" created.');
+
+    // Mail Outbox table (written by the default "outbox" mail driver instead of sending real email)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS mail_outbox (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        to_address VARCHAR(255) NOT NULL,
+        subject VARCHAR(255) NOT NULL,
+        body_text TEXT NOT NULL,
+        body_html TEXT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      ) ENGINE=InnoDB;
+    `);
+    console.log('Table "mail_outbox" created.');
+
+    // Email Verification Tokens table (Depends on users). Tied to the address the link was sent to.
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS email_verification_tokens (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        email VARCHAR(100) NOT NULL,
+        token_hash CHAR(64) NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME NULL,
+        UNIQUE KEY uq_token_hash (token_hash),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE ON UPDATE CASCADE
+      ) ENGINE=InnoDB;
+    `);
+    console.log('Table "email_verification_tokens" created.');
+
+    // User Recovery Codes table (Depends on users). Single-use fallback codes for two-factor login.
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS user_recovery_codes (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        code_hash CHAR(64) NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        used_at DATETIME NULL,
+        UNIQUE KEY uq_user_code (user_id, code_hash),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE ON UPDATE CASCADE
+      ) ENGINE=InnoDB;
+    `);
+    console.log('Table "user_recovery_codes" created.');
+
+    // Two-Factor Policies table. One row per staff role; required = 1 forces enrolment at login.
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS two_factor_policies (
+        role VARCHAR(50) PRIMARY KEY,
+        required TINYINT(1) NOT NULL DEFAULT 0,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      ) ENGINE=InnoDB;
+    `);
+    await connection.query("INSERT IGNORE INTO two_factor_policies (role, required) VALUES ('admin', 0), ('employee', 0)");
+    console.log('Table "two_factor_policies" created.');
+
+    // Login Attempts table. Every login attempt (successful or not), for throttling and later review.
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS login_attempts (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        email VARCHAR(100) NOT NULL,
+        user_id INT NULL, -- NULL when the email doesn't belong to an account
+        ip_address VARCHAR(45) NULL,
+        user_agent VARCHAR(255) NULL,
+        success TINYINT(1) NOT NULL,
+        reason VARCHAR(50) NOT NULL, -- success, invalid_credentials, unknown_email, invalid_two_factor, throttled, deactivated
+        attempted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_ip_attempted (ip_address, attempted_at),
+        INDEX idx_user_attempted (user_id, attempted_at),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL ON UPDATE CASCADE
+      ) ENGINE=InnoDB;
+    `);
+    console.log('Table "login_attempts" created.');
+
+    // Audit Events table. Append-only log of privileged actions, written by server/utils/audit.js.
+    // No foreign key on actor_id: the row (and the copied actor name) must outlive the account.
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS audit_events (
+        id BIGINT PRIMARY KEY AUTO_INCREMENT,
+        actor_id INT NULL,
+        actor_name VARCHAR(100) NULL,
+        actor_role VARCHAR(50) NULL,
+        action VARCHAR(100) NOT NULL,           -- e.g. location.update, booking.cancel
+        entity_type VARCHAR(50) NOT NULL,       -- e.g. location, employee, booking, settings
+        entity_id VARCHAR(64) NULL,
+        before_json JSON NULL,
+        after_json JSON NULL,
+        ip_address VARCHAR(45) NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_audit_created (created_at),
+        INDEX idx_audit_actor (actor_id, created_at),
+        INDEX idx_audit_entity (entity_type, entity_id)
+      ) ENGINE=InnoDB;
+    `);
+    // Refuse changes to existing rows at the database level
+    await connection.query('DROP TRIGGER IF EXISTS audit_events_no_update');
+    await connection.query(`
+      CREATE TRIGGER audit_events_no_update BEFORE UPDATE ON audit_events FOR EACH ROW
+      SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_events is append-only'
+    `);
+    await connection.query('DROP TRIGGER IF EXISTS audit_events_no_delete');
+    await connection.query(`
+      CREATE TRIGGER audit_events_no_delete BEFORE DELETE ON audit_events FOR EACH ROW
+      SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_events is append-only'
+    `);
+    console.log('Table "audit_events" created.');
+
+    // API Keys table. Credentials for machine clients; only the SHA-256 hash of the key is stored.
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        name VARCHAR(100) NOT NULL,
+        key_prefix VARCHAR(16) NOT NULL,           -- First characters of the key, so admins can tell keys apart
+        key_hash CHAR(64) NOT NULL,
+        parking_location_id INT NULL,              -- Location scope; NULL = not tied to a location
+        permissions JSON NOT NULL,                 -- Permission keys from server/config/permissions.js
+        usage_count BIGINT NOT NULL DEFAULT 0,
+        last_used_at DATETIME NULL,
+        created_by INT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        revoked_at DATETIME NULL,
+        UNIQUE KEY uq_api_key_hash (key_hash),
+        FOREIGN KEY (parking_location_id) REFERENCES parking_locations(id) ON DELETE CASCADE ON UPDATE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL ON UPDATE CASCADE
+      ) ENGINE=InnoDB;
+    `);
+    console.log('Table "api_keys" created.');
+
+    // User Identities table. Links a local account to an external OpenID Connect identity (issuer + subject).
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS user_identities (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        issuer VARCHAR(255) NOT NULL,
+        subject VARCHAR(255) NOT NULL,             -- The provider's "sub" claim; stable even if the email changes
+        email VARCHAR(100) NULL,                   -- Email the provider reported at the last sign-in
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_login_at DATETIME NULL,
+        UNIQUE KEY uq_identity (issuer, subject),
+        INDEX idx_identity_user (user_id),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE ON UPDATE CASCADE
+      ) ENGINE=InnoDB;
+    `);
+    console.log('Table "user_identities" created.');
+
+    // OIDC Login Requests table. State, nonce and PKCE verifier for sign-ins that went out to the identity provider.
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS oidc_login_requests (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        state_hash CHAR(64) NOT NULL,
+        nonce VARCHAR(64) NOT NULL,
+        code_verifier VARCHAR(128) NOT NULL,
+        browser_key_hash CHAR(64) NULL,            -- Ties the callback to the browser that started the sign-in
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME NULL,
+        UNIQUE KEY uq_oidc_state_hash (state_hash)
+      ) ENGINE=InnoDB;
+    `);
+    console.log('Table "oidc_login_requests" created.');
+
+    // Booking Waitlist table. Users waiting for a full window at a location; promoted to a booking when capacity frees up.
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS booking_waitlist (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        parking_location_id INT NOT NULL,
+        start_time DATETIME NOT NULL,
+        end_time DATETIME NOT NULL,
+        license_plate_booked VARCHAR(50) NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'waiting', -- waiting, booked, expired or cancelled
+        booking_id INT NULL,                          -- The booking made when the entry was promoted
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        resolved_at DATETIME NULL,
+        INDEX idx_waitlist_location_status (parking_location_id, status, start_time),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE ON UPDATE CASCADE,
+        FOREIGN KEY (parking_location_id) REFERENCES parking_locations(id) ON DELETE CASCADE ON UPDATE CASCADE,
+        FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE SET NULL ON UPDATE CASCADE
+      ) ENGINE=InnoDB;
+    `);
+    console.log('Table "booking_waitlist" created.');
+
+    // --- Columns added to existing tables ---
+    // users.role used to be ENUM('admin', 'employee', 'user'); custom roles need a free-form name
+    await connection.query("ALTER TABLE users MODIFY role VARCHAR(50) NOT NULL DEFAULT 'user'");
+    if (await addColumnIfMissing(connection, 'users', 'email_verified_at', 'DATETIME NULL')) {
+      // Accounts created before verification existed are treated as verified
+      await connection.query('UPDATE users SET email_verified_at = NOW()');
+    }
+    await addColumnIfMissing(connection, 'users', 'totp_secret', 'VARCHAR(64) NULL');
+    await addColumnIfMissing(connection, 'users', 'totp_pending_secret', 'VARCHAR(64) NULL');
+    await addColumnIfMissing(connection, 'users', 'totp_enabled_at', 'DATETIME NULL');
+    await addColumnIfMissing(connection, 'users', 'totp_last_counter', 'BIGINT NULL');
+    await addColumnIfMissing(connection, 'users', 'failed_login_count', 'INT NOT NULL DEFAULT 0');
+    await addColumnIfMissing(connection, 'users', 'locked_until', 'DATETIME NULL');
+    await addColumnIfMissing(connection, 'users', 'auth_version', 'INT NOT NULL DEFAULT 0');
+    await addColumnIfMissing(connection, 'users', 'active', 'TINYINT(1) NOT NULL DEFAULT 1');
+    await addColumnIfMissing(connection, 'users', 'deactivated_at', 'DATETIME NULL');
+    await addColumnIfMissing(connection, 'users', 'phone', 'VARCHAR(32) NULL');
+    await addConstraintIfMissing(connection, 'users', 'phone', 'UNIQUE (phone)');
+    await addColumnIfMissing(connection, 'users', 'is_guest', 'TINYINT(1) NOT NULL DEFAULT 0');
+    // Guest contacts may only have a phone number; every other account still needs an email
+    await addConstraintIfMissing(connection, 'users', 'chk_users_email_or_guest', 'CHECK (email IS NOT NULL OR is_guest = 1)');
+    const [emailColumn] = await connection.query(
+      "SELECT IS_NULLABLE FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'users' AND COLUMN_NAME = 'email'"
+    );
+    if (emailColumn[0].IS_NULLABLE === 'NO') {
+      await connection.query('ALTER TABLE users MODIFY email VARCHAR(100) NULL');
+      console.log('Column "users.email" made optional for guest contacts.');
+    }
+    await addColumnIfMissing(connection, 'user_sessions', 'ip_address', 'VARCHAR(45) NULL');
+    await addColumnIfMissing(connection, 'user_sessions', 'user_agent', 'VARCHAR(255) NULL');
+    await addColumnIfMissing(connection, 'user_sessions', 'last_seen_at', 'DATETIME NULL');
+    await addColumnIfMissing(connection, 'parking_locations', 'booking_capacity_mode', "VARCHAR(10) NOT NULL DEFAULT 'percent'");
+    await addColumnIfMissing(connection, 'parking_locations', 'booking_capacity_value', 'INT NOT NULL DEFAULT 70');
+    if (await addColumnIfMissing(connection, 'bookings', 'series_id', 'INT NULL')) {
+      await connection.query(
+        'ALTER TABLE bookings ADD FOREIGN KEY (series_id) REFERENCES booking_series(id) ON DELETE SET NULL ON UPDATE CASCADE'
+      );
+    }
+    await addColumnIfMissing(connection, 'bookings', 'no_show_at', 'DATETIME NULL');
+    await addColumnIfMissing(connection, 'bookings', 'no_show_fee', 'DECIMAL(10,2) NULL');
+    await addColumnIfMissing(connection, 'bookings', 'overstay_flagged_at', 'DATETIME NULL');
+    await addColumnIfMissing(connection, 'bookings', 'overstay_charge', 'DECIMAL(10,2) NULL');
+    if (await addColumnIfMissing(connection, 'bookings', 'confirmation_code', 'VARCHAR(16) NULL')) {
+      await connection.query('ALTER TABLE bookings ADD UNIQUE KEY uq_confirmation_code (confirmation_code)');
+      // Give existing bookings a pass too
+      const [existingBookings] = await connection.query('SELECT id FROM bookings');
+      for (const booking of existingBookings) {
+        await connection.query('UPDATE bookings SET confirmation_code = ? WHERE id = ?', [generateConfirmationCode(), booking.id]);
+      }
+    }
+    await addColumnIfMissing(connection, 'bookings', 'quoted_amount', 'DECIMAL(10,2) NULL');
+    if (await addColumnIfMissing(connection, 'bookings', 'created_by_user_id', 'INT NULL')) {
+      await connection.query(
+        'ALTER TABLE bookings ADD FOREIGN KEY (created_by_user_id) REFERENCES users(id) ON DELETE SET NULL ON UPDATE CASCADE'
+      );
+      // Until now every booking was made by its own customer
+      await connection.query('UPDATE bookings SET created_by_user_id = user_id');
+    }
+    await addColumnIfMissing(connection, 'settings', 'no_show_grace_minutes', 'INT NOT NULL DEFAULT 30');
+    await addColumnIfMissing(connection, 'settings', 'no_show_fee', 'DECIMAL(10,2) NOT NULL DEFAULT 0');
+
+    // Added as NULL first: a location without a zone means the conversion to UTC hasn't completed yet
+    await addColumnIfMissing(connection, 'parking_locations', 'time_zone', 'VARCHAR(64) NULL');
+    const [timeZoneColumn] = await connection.query(
+      "SELECT IS_NULLABLE FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'parking_locations' AND COLUMN_NAME = 'time_zone'"
+    );
+    if (timeZoneColumn[0].IS_NULLABLE === 'YES') {
+      await convertLegacyDateTimesToUtc(connection);
+      await connection.query("ALTER TABLE parking_locations MODIFY time_zone VARCHAR(64) NOT NULL DEFAULT 'UTC'");
+    }
+
     console.log('All tables created successfully!');
 
     // Check if admin user exists to prevent re-seeding identified by admin email
@@ -155,7 +592,7 @@ const setupDatabase = async () => {
       const salt = await bcrypt.genSalt(10);
       const adminPassword = await bcrypt.hash('admin123', salt); // Change default passwords in production!
       await connection.query(
-        'INSERT INTO users (name, email, password, role, parking_location_id) VALUES (?, ?, ?, ?, ?)',
+        'INSERT INTO users (name, email, password, role, parking_location_id, email_verified_at) VALUES (?, ?, ?, ?, ?, NOW())',
         ['Admin ParkMaster', 'admin@example.com', adminPassword, 'admin', null] // Admin not tied to one location
       );
       console.log("Admin created with credential admin@example.com::admin123");
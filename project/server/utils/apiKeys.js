@@ -0,0 +1,82 @@
+// server/utils/apiKeys.js
+// API keys for machine clients (gate controllers, display boards, partner systems). Only a SHA-256 hash of each
+// key is stored; the plain key is shown once when it is created. A key carries its own permission set and an
+// optional location scope, and verifyToken turns it into a req.user-like principal.
+import crypto from 'crypto';
+import { query } from '../config/database.js';
+import { hashToken } from './sessions.js';
+import { API_KEY_PERMISSIONS } from '../config/permissions.js';
+
+const KEY_PREFIX = 'pk_';
+
+const generateApiKey = () => `${KEY_PREFIX}${crypto.randomBytes(32).toString('hex')}`;
+
+const parsePermissions = (value) => {
+  if (Array.isArray(value)) return value;
+  try { return JSON.parse(value || '[]'); } catch { return []; }
+};
+
+// Returns the plain key; it can't be recovered later
+const createApiKey = async ({ name, parkingLocationId, permissions, createdBy }) => {
+  const key = generateApiKey();
+  const result = await query(
+    `INSERT INTO api_keys (name, key_prefix, key_hash, parking_location_id, permissions, created_by)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [name, key.slice(0, KEY_PREFIX.length + 8), hashToken(key), parkingLocationId, JSON.stringify(permissions), createdBy]
+  );
+  return { id: result.insertId, key };
+};
+
+const listApiKeys = async () => {
+  const keys = await query(
+    `SELECT k.id, k.name, k.key_prefix, k.parking_location_id, pl.name as location_name, k.permissions,
+            k.usage_count, k.last_used_at, k.created_at, k.revoked_at, u.name as created_by_name
+     FROM api_keys k
+     LEFT JOIN parking_locations pl ON k.parking_location_id = pl.id
+     LEFT JOIN users u ON k.created_by = u.id
+     ORDER BY k.revoked_at IS NULL DESC, k.created_at DESC`
+  );
+  return keys.map(k => ({
+    id: k.id,
+    name: k.name,
+    keyPrefix: k.key_prefix,
+    parkingLocationId: k.parking_location_id,
+    locationName: k.location_name,
+    permissions: parsePermissions(k.permissions),
+    usageCount: Number(k.usage_count) || 0,
+    lastUsedAt: k.last_used_at,
+    createdAt: k.created_at,
+    createdByName: k.created_by_name,
+    revokedAt: k.revoked_at
+  }));
+};
+
+const revokeApiKey = async (keyId) => {
+  const result = await query('UPDATE api_keys SET revoked_at = NOW() WHERE id = ? AND revoked_at IS NULL', [keyId]);
+  return result.affectedRows;
+};
+
+// Look up a presented key and count the use. Returns the principal verifyToken puts on req.user, or null.
+const authenticateApiKey = async (rawKey) => {
+  if (typeof rawKey !== 'string' || !rawKey.startsWith(KEY_PREFIX)) return null;
+  const [key] = await query(
+    'SELECT id, name, parking_location_id, permissions FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL',
+    [hashToken(rawKey)]
+  );
+  if (!key) return null;
+
+  await query('UPDATE api_keys SET usage_count = usage_count + 1, last_used_at = NOW() WHERE id = ?', [key.id]);
+  return {
+    id: null, // not a user; routes that record "who did this" store NULL for key-driven actions
+    apiKeyId: key.id,
+    name: `API key: ${key.name}`,
+    email: null,
+    role: 'api-key',
+    parkingLocationId: key.parking_location_id,
+    active: true,
+    // Keys created before the assignable set was narrowed may still list write permissions
+    permissions: parsePermissions(key.permissions).filter(permission => API_KEY_PERMISSIONS.includes(permission))
+  };
+};
+
+export { createApiKey, listApiKeys, revokeApiKey, authenticateApiKey };
@@ -0,0 +1,45 @@
+// server/utils/audit.js
+// Append-only record of privileged actions in audit_events. Every mutating admin/employee route calls
+// recordAuditEvent after its change succeeds; a failure to write the audit row is logged, never sent to the client.
+import { query } from '../config/database.js';
+
+// Never copy credentials into the log, whatever shape of row a route passes in
+const SENSITIVE_KEY_PATTERN = /password|secret|token|recovery/i;
+
+const redact = (value) => {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value.map(redact);
+  if (value instanceof Date || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([key]) => !SENSITIVE_KEY_PATTERN.test(key))
+      .map(([key, inner]) => [key, redact(inner)])
+  );
+};
+
+const toJson = (value) => (value === null || value === undefined ? null : JSON.stringify(redact(value)));
+
+// action: '<entity>.<verb>', e.g. 'location.update'. before/after: plain objects describing the entity.
+const recordAuditEvent = async (req, { action, entityType, entityId = null, before = null, after = null }) => {
+  try {
+    await query(
+      `INSERT INTO audit_events (actor_id, actor_name, actor_role, action, entity_type, entity_id, before_json, after_json, ip_address)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        req.user ? req.user.id : null,
+        req.user ? req.user.name : null,
+        req.user ? req.user.role : null,
+        action,
+        entityType,
+        entityId === null || entityId === undefined ? null : String(entityId),
+        toJson(before),
+        toJson(after),
+        req.ip || null
+      ]
+    );
+  } catch (error) {
+    console.error(`[audit] Failed to record '${action}' for ${entityType} ${entityId}:`, error);
+  }
+};
+
+export { recordAuditEvent };
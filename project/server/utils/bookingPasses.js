@@ -0,0 +1,32 @@
+// server/utils/bookingPasses.js
+// Booking passes. Every booking gets a random confirmation code, shown to the user as text and as a QR code that
+// encodes just the code, so a handheld scanner acting as a keyboard types the same thing an employee would.
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+
+// Crockford base32: no I, L, O or U, so codes read aloud or typed from a screen are hard to get wrong
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 10; // 50 random bits
+const CODE_GROUP = 5;
+// How long before the booked start time a pass is accepted at the gate
+const CHECK_IN_EARLY_MINUTES = parseInt(process.env.CHECK_IN_EARLY_MINUTES || '15', 10);
+
+const generateConfirmationCode = () =>
+  Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]).join('');
+
+// Uppercase and drop separators; map the letters Crockford treats as look-alikes onto their digits
+const normalizeConfirmationCode = (code) =>
+  String(code || '').toUpperCase().replace(/[^0-9A-Z]/g, '').replace(/[IL]/g, '1').replace(/O/g, '0');
+
+// "ABCDE12345" -> "ABCDE-12345"
+const formatConfirmationCode = (code) => (code ? code.match(new RegExp(`.{1,${CODE_GROUP}}`, 'g')).join('-') : null);
+
+const buildPassQrDataUrl = (code) => QRCode.toDataURL(code, { margin: 2, width: 280 });
+
+export {
+  CHECK_IN_EARLY_MINUTES,
+  generateConfirmationCode,
+  normalizeConfirmationCode,
+  formatConfirmationCode,
+  buildPassQrDataUrl
+};
@@ -0,0 +1,49 @@
+// server/utils/bookingSeries.js
+// Recurring bookings: a weekly pattern (days of the week, daily times, number of weeks) expanded into dated
+// occurrences. Each occurrence becomes an ordinary booking row linked by bookings.series_id. Days of the week and
+// clock times are the location's, so a series keeps its local times across daylight-saving changes.
+import dayjs from 'dayjs';
+import { DEFAULT_TIME_ZONE } from './time.js';
+
+const MAX_SERIES_WEEKS = 12;
+
+// Validate the pattern from the request. startTime/endTime are the first day's times; throws { status, message }.
+const parseSeriesPattern = ({ startTime, endTime, daysOfWeek, weeks }, timeZone = DEFAULT_TIME_ZONE) => {
+  if (!startTime || !endTime || !dayjs(startTime).isValid() || !dayjs(endTime).isValid()) {
+    throw { status: 400, message: 'Invalid booking time range.' };
+  }
+  const firstStart = dayjs(startTime).tz(timeZone);
+  const firstEnd = dayjs(endTime).tz(timeZone);
+  if (!firstEnd.isAfter(firstStart)) {
+    throw { status: 400, message: 'Invalid booking time range.' };
+  }
+  if (firstEnd.diff(firstStart, 'hour', true) >= 24) {
+    throw { status: 400, message: 'Each occurrence of a recurring booking must be shorter than a day.' };
+  }
+
+  const days = Array.isArray(daysOfWeek) ? [...new Set(daysOfWeek.map(Number))].sort() : [];
+  if (days.length === 0 || days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw { status: 400, message: 'Choose at least one day of the week.' };
+  }
+  const weekCount = Number(weeks);
+  if (!Number.isInteger(weekCount) || weekCount < 1 || weekCount > MAX_SERIES_WEEKS) {
+    throw { status: 400, message: `A recurring booking can cover between 1 and ${MAX_SERIES_WEEKS} weeks.` };
+  }
+  return { firstStart, firstEnd, daysOfWeek: days, weeks: weekCount, timeZone };
+};
+
+// Every matching day from the first day onwards, at the same clock times. Occurrences already started are skipped.
+const buildOccurrences = ({ firstStart, firstEnd, daysOfWeek, weeks, timeZone }) => {
+  const now = dayjs();
+  // Re-read the wall-clock time in the zone each day; adding days to a zoned value keeps the first day's offset
+  const atClockTime = (value, offset) => dayjs.tz(value.add(offset, 'day').format('YYYY-MM-DDTHH:mm:ss'), timeZone);
+  const occurrences = [];
+  for (let offset = 0; offset < weeks * 7; offset++) {
+    const start = atClockTime(firstStart, offset);
+    if (!daysOfWeek.includes(start.day()) || !start.isAfter(now)) continue;
+    occurrences.push({ start, end: atClockTime(firstEnd, offset) });
+  }
+  return occurrences;
+};
+
+export { MAX_SERIES_WEEKS, parseSeriesPattern, buildOccurrences };
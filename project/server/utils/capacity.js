@@ -0,0 +1,125 @@
+// server/utils/capacity.js
+// How many advance bookings a location accepts at any moment. Each location has its own policy: a percentage of
+// total_slots (the rest is left for drive-ups) or an absolute number of bookable slots.
+import dayjs from 'dayjs';
+import { query } from '../config/database.js';
+import { toDbDateTime, toZonedIso, startOfZonedDay, zonedDayBounds } from './time.js';
+
+const CAPACITY_MODES = ['percent', 'absolute'];
+const DEFAULT_CAPACITY_POLICY = { mode: 'percent', value: 70 };
+const TIMELINE_INTERVALS = [15, 30];
+
+// Booking capacity for a parking_locations row (needs total_slots, booking_capacity_mode, booking_capacity_value)
+const bookingCapacityFor = (location) => {
+  const totalSlots = Number(location.total_slots) || 0;
+  const mode = location.booking_capacity_mode || DEFAULT_CAPACITY_POLICY.mode;
+  const value = location.booking_capacity_value ?? DEFAULT_CAPACITY_POLICY.value;
+  if (mode === 'absolute') {
+    // Total slots may have been reduced after the policy was set
+    return Math.min(Number(value), totalSlots);
+  }
+  return Math.floor(totalSlots * Number(value) / 100);
+};
+
+// Parse a policy from request fields; throws { status, message } if it doesn't fit a location with totalSlots
+const parseCapacityPolicy = ({ mode, value }, totalSlots) => {
+  if (!CAPACITY_MODES.includes(mode)) {
+    throw { status: 400, message: `Booking capacity mode must be one of: ${CAPACITY_MODES.join(', ')}.` };
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw { status: 400, message: 'Booking capacity must be a whole number of zero or more.' };
+  }
+  if (mode === 'percent' && number > 100) {
+    throw { status: 400, message: 'Booking capacity percentage cannot be more than 100.' };
+  }
+  if (mode === 'absolute' && number > totalSlots) {
+    throw { status: 400, message: 'Booking capacity cannot be more than the total number of slots.' };
+  }
+  return { mode, value: number };
+};
+
+// Compare the bookings overlapping [startTime, endTime) with the location's capacity.
+// Times are UTC 'YYYY-MM-DD HH:mm:ss' strings. Returns null if the location doesn't exist.
+// excludeBookingId leaves a booking out of the count, so changing a booking doesn't compete with itself.
+const getBookingCapacity = async (locationId, startTime, endTime, { excludeBookingId = null } = {}) => {
+  const [location] = await query(
+    'SELECT total_slots, booking_capacity_mode, booking_capacity_value, time_zone FROM parking_locations WHERE id = ?',
+    [locationId]
+  );
+  if (!location) return null;
+
+  const capacity = bookingCapacityFor(location);
+  const [overlapping] = await query(
+    `SELECT COUNT(*) as count FROM bookings
+     WHERE parking_location_id = ? AND status IN ('confirmed', 'checked-in')
+       AND start_time < ? AND end_time > ?${excludeBookingId ? ' AND id <> ?' : ''}`,
+    excludeBookingId ? [locationId, endTime, startTime, excludeBookingId] : [locationId, endTime, startTime]
+  );
+  const booked = Number(overlapping.count) || 0;
+  return {
+    capacity,
+    booked,
+    available: Math.max(0, capacity - booked),
+    isBookable: booked < capacity,
+    timeZone: location.time_zone
+  };
+};
+
+// Remaining booking capacity for each intervalMinutes bucket of one calendar day in the location's time zone
+// (date is YYYY-MM-DD; null means today there), from a single query over the location and the bookings around that
+// day. Bookings are read for the UTC day either side as well, which covers the local day in any zone, and clipped
+// to it below. Each bucket's count is what getBookingCapacity would report for that bucket alone; a longer window
+// can still be full if different bookings fill different buckets. Returns null if the location doesn't exist.
+const getCapacityTimeline = async (locationId, date, intervalMinutes) => {
+  const utcDay = dayjs.utc(date || undefined).startOf('day');
+  const rows = await query(
+    `SELECT p.total_slots, p.booking_capacity_mode, p.booking_capacity_value, p.time_zone, b.start_time, b.end_time
+     FROM parking_locations p
+     LEFT JOIN bookings b ON b.parking_location_id = p.id AND b.status IN ('confirmed', 'checked-in')
+       AND b.start_time < ? AND b.end_time > ?
+     WHERE p.id = ?`,
+    [toDbDateTime(utcDay.add(2, 'day')), toDbDateTime(utcDay.subtract(1, 'day')), locationId]
+  );
+  if (rows.length === 0) return null;
+
+  const timeZone = rows[0].time_zone;
+  const { start: dayStart, end: dayEnd } = zonedDayBounds(date || new Date(), timeZone);
+  const capacity = bookingCapacityFor(rows[0]);
+  const dayMinutes = dayEnd.diff(dayStart, 'minute');
+  const bucketCount = Math.ceil(dayMinutes / intervalMinutes);
+  // Difference array: +1 at the first bucket a booking overlaps, -1 after the last one
+  const changes = new Array(bucketCount + 1).fill(0);
+  for (const row of rows) {
+    if (!row.start_time) continue; // The LEFT JOIN row of a location with no bookings that day
+    const startMinute = Math.max(0, dayjs(row.start_time).diff(dayStart, 'minute', true));
+    const endMinute = Math.min(dayMinutes, dayjs(row.end_time).diff(dayStart, 'minute', true));
+    const first = Math.floor(startMinute / intervalMinutes);
+    const last = Math.ceil(endMinute / intervalMinutes) - 1;
+    if (last < first) continue; // Outside the local day
+    changes[first] += 1;
+    changes[last + 1] -= 1;
+  }
+
+  const now = dayjs();
+  const buckets = [];
+  let booked = 0;
+  for (let i = 0; i < bucketCount; i++) {
+    booked += changes[i];
+    const start = dayStart.add(i * intervalMinutes, 'minute');
+    const end = i === bucketCount - 1 ? dayEnd : start.add(intervalMinutes, 'minute');
+    buckets.push({
+      startTime: toZonedIso(start, timeZone),
+      endTime: toZonedIso(end, timeZone),
+      booked,
+      available: Math.max(0, capacity - booked),
+      isPast: !end.isAfter(now)
+    });
+  }
+  return { date: startOfZonedDay(dayStart, timeZone).format('YYYY-MM-DD'), timeZone, capacity, buckets };
+};
+
+export {
+  CAPACITY_MODES, DEFAULT_CAPACITY_POLICY, TIMELINE_INTERVALS,
+  bookingCapacityFor, parseCapacityPolicy, getBookingCapacity, getCapacityTimeline
+};
@@ -0,0 +1,48 @@
+// server/utils/currentUser.js
+// Authorization uses the user's current role, permissions and location from the database, not the copy baked into the
+// access token. Each user row has an auth_version that is bumped whenever those claims change; verifyToken
+// already reads it with the session check, so the cached row is only reloaded when the version moves on.
+import { query } from '../config/database.js';
+import { getRolePermissions } from './permissions.js';
+
+const MAX_CACHED_USERS = 1000;
+const cache = new Map(); // userId -> { authVersion, user }
+
+const getCurrentUser = async (userId, authVersion) => {
+  const cached = cache.get(userId);
+  if (cached && cached.authVersion === authVersion) {
+    return cached.user;
+  }
+
+  const [row] = await query('SELECT id, name, email, role, parking_location_id, active, auth_version FROM users WHERE id = ?', [userId]);
+  if (!row) {
+    cache.delete(userId);
+    return null;
+  }
+
+  const user = {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    role: row.role,
+    parkingLocationId: row.parking_location_id,
+    active: Boolean(row.active),
+    permissions: await getRolePermissions(row.role)
+  };
+
+  // Map keeps insertion order, so the first key is the least recently loaded entry
+  cache.delete(userId);
+  if (cache.size >= MAX_CACHED_USERS) {
+    cache.delete(cache.keys().next().value);
+  }
+  cache.set(userId, { authVersion: row.auth_version, user });
+  return user;
+};
+
+// Call after changing anything getCurrentUser returns; open sessions pick it up on their next request
+const bumpAuthVersion = (userId) => query('UPDATE users SET auth_version = auth_version + 1 WHERE id = ?', [userId]);
+
+// Same, for everyone holding a role whose permissions changed
+const bumpAuthVersionForRole = (role) => query('UPDATE users SET auth_version = auth_version + 1 WHERE role = ?', [role]);
+
+export { getCurrentUser, bumpAuthVersion, bumpAuthVersionForRole };
@@ -0,0 +1,133 @@
+// server/utils/customers.js
+// Customers as seen by staff booking on their behalf (phone reservations, walk-ins). A customer is an active user
+// with the 'user' role; a guest contact is one added by staff with a name and an email or phone number and no
+// password of their own. A guest can take over the account later with "Forgot password" on their email.
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import validator from 'validator';
+import { query } from '../config/database.js';
+import { recordAuditEvent } from './audit.js';
+import { sendMail, appUrl } from './mailer.js';
+import { formatInTimeZone } from './time.js';
+import { escapeHtml } from './html.js';
+
+const MAX_SEARCH_RESULTS = 10;
+
+const serializeCustomer = (row) => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  phone: row.phone,
+  isGuest: !!row.is_guest
+});
+
+// Keep a leading + and the digits, so "+44 (0)20 7946-0000" and "+4402079460000" are the same number
+const normalizePhone = (value) => {
+  if (!value || typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  if (!digits) return null;
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+};
+
+// LIKE treats % and _ as wildcards; a search term should match them literally
+const escapeLike = (value) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+// Match a name or email fragment, or a run of phone digits
+const searchCustomers = async (term) => {
+  const search = typeof term === 'string' ? term.trim() : '';
+  if (search.length < 2) return [];
+  const pattern = `%${escapeLike(search)}%`;
+  const digits = search.replace(/\D/g, '');
+  const rows = await query(
+    `SELECT id, name, email, phone, is_guest FROM users
+     WHERE role = 'user' AND active = 1
+       AND (name LIKE ? OR email LIKE ?${digits.length >= 4 ? ' OR phone LIKE ?' : ''})
+     ORDER BY name ASC, id ASC
+     LIMIT ${MAX_SEARCH_RESULTS}`,
+    digits.length >= 4 ? [pattern, pattern, `%${digits}%`] : [pattern, pattern]
+  );
+  return rows.map(serializeCustomer);
+};
+
+// Throws { status, message } if there's no active customer with this id
+const findCustomer = async (customerId) => {
+  const [row] = await query(
+    "SELECT id, name, email, phone, is_guest FROM users WHERE id = ? AND role = 'user' AND active = 1",
+    [customerId]
+  );
+  if (!row) {
+    throw { status: 404, message: 'Customer not found.' };
+  }
+  return serializeCustomer(row);
+};
+
+// Add a guest contact for a staff booking. Throws { status, message } on invalid input or if the email or phone
+// already belongs to someone, in which case staff should search for that customer instead.
+const createGuestContact = async (req, { name, email, phone }) => {
+  const guestName = typeof name === 'string' ? name.trim() : '';
+  const guestEmail = typeof email === 'string' && email.trim() ? email.trim() : null;
+  const guestPhone = normalizePhone(phone);
+
+  if (!guestName) {
+    throw { status: 400, message: 'A guest contact needs a name.' };
+  }
+  if (!guestEmail && !guestPhone) {
+    throw { status: 400, message: 'A guest contact needs an email address or a phone number.' };
+  }
+  if (guestEmail && !validator.isEmail(guestEmail)) {
+    throw { status: 400, message: 'Please enter a valid email address.' };
+  }
+  if (guestPhone && (guestPhone.replace('+', '').length < 7 || guestPhone.replace('+', '').length > 15)) {
+    throw { status: 400, message: 'Please enter a valid phone number.' };
+  }
+
+  const alreadyExists = { status: 409, message: 'A customer with this email or phone number already exists. Search for them instead.' };
+  const [existing] = await query(
+    'SELECT id FROM users WHERE email = ? OR phone = ? LIMIT 1',
+    [guestEmail, guestPhone]
+  );
+  if (existing) {
+    throw alreadyExists;
+  }
+
+  // Unusable until the guest sets their own with a password reset
+  const hashedPassword = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), await bcrypt.genSalt(10));
+  let result;
+  try {
+    result = await query(
+      "INSERT INTO users (name, email, phone, password, role, is_guest) VALUES (?, ?, ?, ?, 'user', 1)",
+      [guestName, guestEmail, guestPhone, hashedPassword]
+    );
+  } catch (error) {
+    // Someone added the same email or phone between the check above and this insert
+    if (error.code === 'ER_DUP_ENTRY') throw alreadyExists;
+    throw error;
+  }
+  const customer = { id: result.insertId, name: guestName, email: guestEmail, phone: guestPhone, isGuest: true };
+  await recordAuditEvent(req, {
+    action: 'customer.create_guest',
+    entityType: 'user',
+    entityId: customer.id,
+    after: customer
+  });
+  return customer;
+};
+
+// Let the customer know a booking was made for them. Guests without an email are told by phone instead.
+const sendStaffBookingEmail = async (customer, booking) => {
+  if (!customer.email) return;
+  const window = `${formatInTimeZone(booking.startTime, booking.timeZone, 'ddd D MMM YYYY, HH:mm')} - ${formatInTimeZone(booking.endTime, booking.timeZone, 'HH:mm')}`;
+  const link = customer.isGuest ? appUrl('/forgot-password') : appUrl('/user/bookings');
+  const linkText = customer.isGuest
+    ? 'To manage your bookings online, set a password for this email address'
+    : 'You can view or cancel it here';
+  await sendMail({
+    to: customer.email,
+    subject: `Your booking at ${booking.locationName}`,
+    text: `Hi ${customer.name},\n\nWe've booked a parking space for you.\n\n${booking.locationName}\n${window}\nConfirmation code: ${booking.confirmationCode}\n\n${linkText}: ${link}`,
+    html: `<p>Hi ${escapeHtml(customer.name)},</p><p>We've booked a parking space for you.</p><p><strong>${escapeHtml(booking.locationName)}</strong><br>${escapeHtml(window)}<br>Confirmation code: ${escapeHtml(booking.confirmationCode)}</p><p>${escapeHtml(linkText)}: <a href="${escapeHtml(link)}">${escapeHtml(link)}</a></p>`
+  });
+};
+
+export { normalizePhone, searchCustomers, findCustomer, createGuestContact, sendStaffBookingEmail };
@@ -0,0 +1,6 @@
+// server/utils/html.js
+// Escaping for values put into HTML: email bodies and the pages of the mock identity provider. Names, location
+// names and other free text come from users and staff, so every interpolated value goes through escapeHtml.
+const escapeHtml = (value) => String(value ?? '').replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`);
+
+export { escapeHtml };
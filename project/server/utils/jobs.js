@@ -0,0 +1,21 @@
+// server/utils/jobs.js
+// Periodic background work inside the API process. Each job runs once at startup and then every intervalMinutes;
+// a run that is still going when the next one is due is skipped, and failures are logged, never thrown.
+const scheduleJob = (name, intervalMinutes, task) => {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await task();
+    } catch (error) {
+      console.error(`[${name}] Job failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+  run();
+  return setInterval(run, intervalMinutes * 60 * 1000);
+};
+
+export { scheduleJob };
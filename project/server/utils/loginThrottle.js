@@ -0,0 +1,95 @@
+// server/utils/loginThrottle.js
+// Brute-force protection for login: every attempt is logged in login_attempts, consecutive failures lock
+// the account with exponential backoff, and too many failures from one IP address block that address.
+import { query } from '../config/database.js';
+
+const MAX_FAILED_ATTEMPTS = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5', 10);
+const IP_MAX_FAILED_ATTEMPTS = parseInt(process.env.LOGIN_IP_MAX_FAILED_ATTEMPTS || '20', 10);
+const IP_WINDOW_MINUTES = 15;
+const LOCKOUT_BASE_SECONDS = 30;
+const LOCKOUT_MAX_SECONDS = parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || '60', 10) * 60;
+
+// 30s at the threshold, doubling with each further failure, capped at LOCKOUT_MAX_SECONDS
+const backoffSeconds = (failures, threshold) => {
+  if (failures < threshold) return 0;
+  return Math.min(LOCKOUT_BASE_SECONDS * 2 ** (failures - threshold), LOCKOUT_MAX_SECONDS);
+};
+
+const secondsUntil = (date) => Math.max(0, Math.ceil((new Date(date).getTime() - Date.now()) / 1000));
+
+const logAttempt = ({ email, user, ip, userAgent, success, reason }) => query(
+  'INSERT INTO login_attempts (email, user_id, ip_address, user_agent, success, reason) VALUES (?, ?, ?, ?, ?, ?)',
+  [String(email || '').slice(0, 100), user ? user.id : null, ip || null, userAgent ? String(userAgent).slice(0, 255) : null, success ? 1 : 0, reason]
+);
+
+// Returns how long (in seconds) the caller must wait before trying again; 0 means go ahead
+const getLoginRetryAfter = async ({ user, ip }) => {
+  if (user && user.locked_until) {
+    const accountWait = secondsUntil(user.locked_until);
+    if (accountWait > 0) return accountWait;
+  }
+
+  if (ip) {
+    const [ipFailures] = await query(
+      `SELECT COUNT(*) as count, MAX(attempted_at) as lastAttemptAt FROM login_attempts
+       WHERE ip_address = ? AND success = 0 AND reason NOT IN ('throttled', 'deactivated') AND attempted_at > NOW() - INTERVAL ? MINUTE`,
+      [ip, IP_WINDOW_MINUTES]
+    );
+    const ipWait = backoffSeconds(parseInt(ipFailures.count, 10) || 0, IP_MAX_FAILED_ATTEMPTS);
+    if (ipWait > 0 && ipFailures.lastAttemptAt) {
+      return secondsUntil(new Date(new Date(ipFailures.lastAttemptAt).getTime() + ipWait * 1000));
+    }
+  }
+
+  return 0;
+};
+
+// Log a failed attempt and, once past the threshold, lock the account. Returns the new lockout in seconds (0 if none).
+const recordLoginFailure = async ({ email, user, ip, userAgent, reason = 'invalid_credentials' }) => {
+  await logAttempt({ email, user, ip, userAgent, success: false, reason });
+  if (!user) return 0;
+
+  // Count in the database, so parallel guesses can't all start from the same value
+  await query('UPDATE users SET failed_login_count = failed_login_count + 1 WHERE id = ?', [user.id]);
+  const [updated] = await query('SELECT failed_login_count FROM users WHERE id = ?', [user.id]);
+  const failures = updated ? updated.failed_login_count : 0;
+  const lockSeconds = backoffSeconds(failures, MAX_FAILED_ATTEMPTS);
+  if (lockSeconds > 0) {
+    // Only while the count is still ours: a later failure has set a longer lockout of its own
+    await query(
+      'UPDATE users SET locked_until = ? WHERE id = ? AND failed_login_count = ?',
+      [new Date(Date.now() + lockSeconds * 1000), user.id, failures]
+    );
+  }
+  return lockSeconds;
+};
+
+// Attempts refused without counting towards a lockout: throttled callers and deactivated accounts
+const recordBlockedAttempt = ({ email, user, ip, userAgent, reason = 'throttled' }) =>
+  logAttempt({ email, user, ip, userAgent, success: false, reason });
+
+const recordLoginSuccess = async ({ user, ip, userAgent }) => {
+  await logAttempt({ email: user.email, user, ip, userAgent, success: true, reason: 'success' });
+  await query('UPDATE users SET failed_login_count = 0, locked_until = NULL WHERE id = ?', [user.id]);
+};
+
+const unlockAccount = (userId) => query(
+  'UPDATE users SET failed_login_count = 0, locked_until = NULL WHERE id = ?',
+  [userId]
+);
+
+// Message shown to the user; the client also gets retryAfterSeconds to run a countdown
+const lockoutResponse = (retryAfterSeconds) => ({
+  message: `Too many failed login attempts. Please try again in ${Math.ceil(retryAfterSeconds / 60)} minute(s).`,
+  code: 'LOGIN_THROTTLED',
+  retryAfterSeconds
+});
+
+export {
+  getLoginRetryAfter,
+  recordLoginFailure,
+  recordBlockedAttempt,
+  recordLoginSuccess,
+  unlockAccount,
+  lockoutResponse
+};
@@ -0,0 +1,60 @@
+// server/utils/mailer.js
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { query } from '../config/database.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// A mail driver is any object with an async send({ to, subject, text, html }) method.
+// Pick one with MAIL_DRIVER; other drivers (e.g. SMTP) can be added with registerMailDriver().
+
+// Default driver: stores every message in the mail_outbox table so it can be inspected without an SMTP server
+const outboxDriver = {
+  async send({ to, subject, text, html }) {
+    const result = await query(
+      'INSERT INTO mail_outbox (to_address, subject, body_text, body_html) VALUES (?, ?, ?, ?)',
+      [to, subject, text, html || null]
+    );
+    return { id: result.insertId };
+  }
+};
+
+// Appends each message as a JSON line to MAIL_OUTBOX_FILE
+const fileDriver = {
+  async send(message) {
+    const filePath = process.env.MAIL_OUTBOX_FILE || path.join(__dirname, '../outbox/mail.jsonl');
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, JSON.stringify({ ...message, createdAt: new Date().toISOString() }) + '\n');
+    return { file: filePath };
+  }
+};
+
+const drivers = {
+  outbox: outboxDriver,
+  file: fileDriver
+};
+
+const registerMailDriver = (name, driver) => {
+  if (!driver || typeof driver.send !== 'function') {
+    throw new Error(`Mail driver "${name}" must implement send()`);
+  }
+  drivers[name] = driver;
+};
+
+const sendMail = async ({ to, subject, text, html }) => {
+  const driverName = process.env.MAIL_DRIVER || 'outbox';
+  const driver = drivers[driverName];
+  if (!driver) {
+    throw new Error(`Unknown mail driver "${driverName}"`);
+  }
+  const result = await driver.send({ to, subject, text, html });
+  console.log(`[mailer] Sent "${subject}" to ${to} via ${driverName} driver.`);
+  return result;
+};
+
+// Base URL of the frontend, used to build links in emails
+const appUrl = (pathAndQuery) => `${(process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '')}${pathAndQuery}`;
+
+export { sendMail, registerMailDriver, appUrl };
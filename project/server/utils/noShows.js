@@ -0,0 +1,64 @@
+// server/utils/noShows.js
+// Bookings nobody turned up for. A background job moves confirmed bookings to 'no-show' once the grace period
+// after start_time has passed, charges the configured fee, and hands the released capacity to the waitlist.
+// The job runs every NO_SHOW_JOB_INTERVAL_MINUTES (default 5); the grace period and fee are admin settings.
+import dayjs from 'dayjs';
+import { query } from '../config/database.js';
+import { promoteWaitlist } from './waitlist.js';
+import { scheduleJob } from './jobs.js';
+import { toDbDateTime } from './time.js';
+
+const DEFAULT_NO_SHOW_POLICY = { graceMinutes: 30, fee: 0 };
+const MAX_GRACE_MINUTES = 24 * 60;
+
+const getNoShowPolicy = async () => {
+  const [settings] = await query('SELECT no_show_grace_minutes, no_show_fee FROM settings WHERE id = 1 LIMIT 1');
+  if (!settings) return { ...DEFAULT_NO_SHOW_POLICY };
+  return { graceMinutes: Number(settings.no_show_grace_minutes), fee: parseFloat(settings.no_show_fee) };
+};
+
+// Parse a policy from request fields; throws { status, message }
+const parseNoShowPolicy = ({ graceMinutes, fee }) => {
+  const minutes = Number(graceMinutes);
+  if (!Number.isInteger(minutes) || minutes < 0 || minutes > MAX_GRACE_MINUTES) {
+    throw { status: 400, message: `Grace period must be a whole number of minutes between 0 and ${MAX_GRACE_MINUTES}.` };
+  }
+  const amount = Number(fee);
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw { status: 400, message: 'No-show fee must be a non-negative number.' };
+  }
+  return { graceMinutes: minutes, fee: Math.round(amount * 100) / 100 };
+};
+
+// Mark every overdue confirmed booking as a no-show. Returns how many were marked.
+const markNoShows = async () => {
+  const policy = await getNoShowPolicy();
+  const cutoff = toDbDateTime(dayjs().subtract(policy.graceMinutes, 'minute'));
+  const overdue = await query(
+    "SELECT id, parking_location_id, start_time, end_time FROM bookings WHERE status = 'confirmed' AND start_time <= ?",
+    [cutoff]
+  );
+
+  let marked = 0;
+  for (const booking of overdue) {
+    // A check-in or cancellation may have landed since the select
+    const result = await query(
+      "UPDATE bookings SET status = 'no-show', no_show_at = NOW(), no_show_fee = ? WHERE id = ? AND status = 'confirmed'",
+      [policy.fee > 0 ? policy.fee : null, booking.id]
+    );
+    if (result.affectedRows === 0) continue;
+    marked++;
+    if (dayjs(booking.end_time).isAfter(dayjs())) {
+      await promoteWaitlist(booking.parking_location_id, booking.start_time, booking.end_time);
+    }
+  }
+  if (marked > 0) {
+    console.log(`[no-shows] Marked ${marked} booking(s) as no-show (grace ${policy.graceMinutes} min, fee ${policy.fee}).`);
+  }
+  return marked;
+};
+
+const startNoShowJob = () =>
+  scheduleJob('no-shows', parseInt(process.env.NO_SHOW_JOB_INTERVAL_MINUTES || '5', 10), markNoShows);
+
+export { getNoShowPolicy, parseNoShowPolicy, startNoShowJob };
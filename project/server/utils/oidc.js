@@ -0,0 +1,218 @@
+// server/utils/oidc.js
+// OpenID Connect single sign-on (authorization code flow with PKCE). Configured through the environment:
+//   OIDC_ISSUER            issuer URL; SSO is off when this is unset
+//   OIDC_CLIENT_ID         client registered with the provider
+//   OIDC_CLIENT_SECRET     optional, for confidential clients (sent as client_secret_post)
+//   OIDC_REDIRECT_URI      defaults to APP_URL + /login/sso/callback
+//   OIDC_PROVIDER_NAME     label for the "Sign in with ..." button
+//   OIDC_SCOPES            defaults to "openid email profile"
+//   OIDC_AUTO_PROVISION    set to "false" to only allow existing accounts
+// `npm run mock-idp` starts a local provider for development (see server/scripts/mockOidcProvider.js).
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { query } from '../config/database.js';
+import { hashToken } from './sessions.js';
+import { appUrl } from './mailer.js';
+
+const LOGIN_REQUEST_TTL_MINUTES = 10;
+const METADATA_CACHE_MS = 60 * 60 * 1000;
+
+const issuer = () => (process.env.OIDC_ISSUER || '').replace(/\/$/, '');
+const redirectUri = () => process.env.OIDC_REDIRECT_URI || appUrl('/login/sso/callback');
+
+const isOidcEnabled = () => Boolean(issuer() && process.env.OIDC_CLIENT_ID);
+
+// What the login page needs to know; nothing secret
+const getPublicOidcConfig = () => ({
+  enabled: isOidcEnabled(),
+  providerName: isOidcEnabled() ? (process.env.OIDC_PROVIDER_NAME || 'SSO') : null
+});
+
+const base64Url = (buffer) => buffer.toString('base64url');
+
+const fetchJson = async (url, options) => {
+  const response = await fetch(url, options);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`${url} responded ${response.status}: ${body.error_description || body.error || 'no details'}`);
+  }
+  return body;
+};
+
+let metadataCache = null; // { metadata, fetchedAt }
+let jwksCache = null; // { keys, fetchedAt }
+
+const getProviderMetadata = async () => {
+  if (metadataCache && Date.now() - metadataCache.fetchedAt < METADATA_CACHE_MS) return metadataCache.metadata;
+  const metadata = await fetchJson(`${issuer()}/.well-known/openid-configuration`);
+  metadataCache = { metadata, fetchedAt: Date.now() };
+  return metadata;
+};
+
+// Refetch the key set when the token names a key we haven't seen, so provider key rotation just works
+const getSigningKey = async (kid) => {
+  const findKey = () => jwksCache.keys.find(key => !kid || key.kid === kid);
+  if (!jwksCache || Date.now() - jwksCache.fetchedAt >= METADATA_CACHE_MS || !findKey()) {
+    const { jwks_uri: jwksUri } = await getProviderMetadata();
+    const { keys } = await fetchJson(jwksUri);
+    jwksCache = { keys: keys || [], fetchedAt: Date.now() };
+  }
+  const jwk = findKey();
+  if (!jwk) {
+    throw new Error(`No signing key "${kid}" published by the identity provider`);
+  }
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+};
+
+// Remember state/nonce/verifier for this attempt and return the provider URL to send the browser to, with a
+// browser key the client keeps in sessionStorage. The callback must present the same key, so a callback URL
+// started by someone else (login CSRF) can't sign this browser into their account.
+const startOidcLogin = async () => {
+  const metadata = await getProviderMetadata();
+  const state = base64Url(crypto.randomBytes(32));
+  const browserKey = base64Url(crypto.randomBytes(32));
+  const nonce = base64Url(crypto.randomBytes(32));
+  const codeVerifier = base64Url(crypto.randomBytes(48));
+  const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+  await query(
+    'INSERT INTO oidc_login_requests (state_hash, nonce, code_verifier, browser_key_hash, expires_at) VALUES (?, ?, ?, ?, ?)',
+    [hashToken(state), nonce, codeVerifier, hashToken(browserKey), new Date(Date.now() + LOGIN_REQUEST_TTL_MINUTES * 60 * 1000)]
+  );
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: process.env.OIDC_CLIENT_ID,
+    redirect_uri: redirectUri(),
+    scope: process.env.OIDC_SCOPES || 'openid email profile',
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256'
+  }).toString();
+  return { authorizationUrl: url.toString(), state, browserKey };
+};
+
+const expiredAttempt = () => ({ status: 400, message: 'This sign-in attempt has expired. Please try again.' });
+
+// Exchange the code from the callback for tokens and return the verified ID token claims
+const completeOidcLogin = async ({ code, state, browserKey }) => {
+  const [loginRequest] = await query(
+    `SELECT id, nonce, code_verifier FROM oidc_login_requests
+     WHERE state_hash = ? AND browser_key_hash = ? AND used_at IS NULL AND expires_at > NOW()`,
+    [hashToken(state), hashToken(browserKey)]
+  );
+  if (!loginRequest) {
+    throw expiredAttempt();
+  }
+  // A state is good for one exchange, even if it fails
+  const claimed = await query('UPDATE oidc_login_requests SET used_at = NOW() WHERE id = ? AND used_at IS NULL', [loginRequest.id]);
+  if (claimed.affectedRows === 0) {
+    throw expiredAttempt();
+  }
+
+  const metadata = await getProviderMetadata();
+  const tokenParams = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri(),
+    client_id: process.env.OIDC_CLIENT_ID,
+    code_verifier: loginRequest.code_verifier
+  });
+  if (process.env.OIDC_CLIENT_SECRET) {
+    tokenParams.set('client_secret', process.env.OIDC_CLIENT_SECRET);
+  }
+
+  let tokens;
+  try {
+    tokens = await fetchJson(metadata.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: tokenParams
+    });
+  } catch (error) {
+    console.error('[oidc] Token exchange failed:', error.message);
+    throw { status: 502, message: 'The identity provider rejected the sign-in. Please try again.' };
+  }
+  if (!tokens.id_token) {
+    throw { status: 502, message: 'The identity provider did not return an ID token.' };
+  }
+
+  let claims;
+  try {
+    const decoded = jwt.decode(tokens.id_token, { complete: true });
+    const key = await getSigningKey(decoded?.header?.kid);
+    claims = jwt.verify(tokens.id_token, key, {
+      algorithms: ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'PS256'],
+      issuer: metadata.issuer,
+      audience: process.env.OIDC_CLIENT_ID
+    });
+  } catch (error) {
+    console.error('[oidc] ID token verification failed:', error.message);
+    throw { status: 401, message: 'Could not verify the identity provider\'s response.' };
+  }
+  if (claims.nonce !== loginRequest.nonce) {
+    throw { status: 401, message: 'Could not verify the identity provider\'s response.' };
+  }
+
+  return {
+    issuer: claims.iss,
+    subject: String(claims.sub),
+    email: typeof claims.email === 'string' ? claims.email.trim() : null,
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    name: claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(' ') || null
+  };
+};
+
+// Find the local account for an external identity: an existing link first, then an account with the same
+// verified email (linked from then on), else a new customer account. Returns { user, outcome }.
+const resolveOidcUser = async (identity) => {
+  const [linked] = await query(
+    `SELECT u.* FROM user_identities ui JOIN users u ON ui.user_id = u.id
+     WHERE ui.issuer = ? AND ui.subject = ?`,
+    [identity.issuer, identity.subject]
+  );
+  if (linked) {
+    await query(
+      'UPDATE user_identities SET email = ?, last_login_at = NOW() WHERE issuer = ? AND subject = ?',
+      [identity.email, identity.issuer, identity.subject]
+    );
+    return { user: linked, outcome: 'existing' };
+  }
+
+  // Matching on an unverified address would let anyone who can create an IdP account take over ours
+  if (!identity.email || !identity.emailVerified) {
+    throw { status: 403, message: 'Your identity provider has not verified your email address, so it cannot be used to sign in.' };
+  }
+
+  let [user] = await query('SELECT * FROM users WHERE email = ?', [identity.email]);
+  let outcome = 'linked';
+  if (!user) {
+    if (process.env.OIDC_AUTO_PROVISION === 'false') {
+      throw { status: 403, message: 'No ParkEase account exists for this email address. Please contact an administrator.' };
+    }
+    // SSO-only accounts get a random password nobody knows; a password reset can set a real one later
+    const hashedPassword = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+    const name = (identity.name || identity.email.split('@')[0]).slice(0, 100);
+    const result = await query(
+      'INSERT INTO users (name, email, password, role, email_verified_at) VALUES (?, ?, ?, ?, NOW())',
+      [name, identity.email, hashedPassword, 'user']
+    );
+    [user] = await query('SELECT * FROM users WHERE id = ?', [result.insertId]);
+    outcome = 'provisioned';
+  } else if (!user.email_verified_at || user.is_guest) {
+    // The provider has vouched for the address, and a guest contact added by staff becomes a full account
+    await query('UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW()), is_guest = 0 WHERE id = ?', [user.id]);
+    [user] = await query('SELECT * FROM users WHERE id = ?', [user.id]);
+  }
+
+  await query(
+    'INSERT INTO user_identities (user_id, issuer, subject, email, last_login_at) VALUES (?, ?, ?, ?, NOW())',
+    [user.id, identity.issuer, identity.subject, identity.email]
+  );
+  return { user, outcome };
+};
+
+export { isOidcEnabled, getPublicOidcConfig, startOidcLogin, completeOidcLogin, resolveOidcUser };
@@ -0,0 +1,79 @@
+// server/utils/overstays.js
+// Checked-in bookings still parked after their end_time. A background job flags each one once it is more than
+// OVERSTAY_GRACE_MINUTES (default 15) past its end and emails the user; employees see the live list with the
+// overstay charge so far. The job runs every OVERSTAY_JOB_INTERVAL_MINUTES (default 5).
+import dayjs from 'dayjs';
+import { query } from '../config/database.js';
+import { getHourlyRate, calculateStayCharges } from './pricing.js';
+import { sendMail, appUrl } from './mailer.js';
+import { scheduleJob } from './jobs.js';
+import { toDbDateTime, formatInTimeZone } from './time.js';
+import { escapeHtml } from './html.js';
+
+const overstayGraceMinutes = () => parseInt(process.env.OVERSTAY_GRACE_MINUTES || '15', 10);
+
+// Overstaying bookings, optionally at one location, longest overdue first, with charges as if checked out now
+const listOverstays = async (locationId = null) => {
+  const cutoff = toDbDateTime(dayjs().subtract(overstayGraceMinutes(), 'minute'));
+  const rows = await query(
+    `SELECT b.id, b.user_id, b.parking_location_id, b.start_time, b.end_time, b.actual_entry_time,
+            b.license_plate_booked, b.checked_in_license_plate, b.overstay_flagged_at,
+            u.name AS user_name, u.email, p.name AS location_name, p.time_zone AS location_time_zone
+     FROM bookings b
+     JOIN users u ON b.user_id = u.id
+     JOIN parking_locations p ON b.parking_location_id = p.id
+     WHERE b.status = 'checked-in' AND b.end_time <= ?${locationId ? ' AND b.parking_location_id = ?' : ''}
+     ORDER BY b.end_time ASC`,
+    locationId ? [cutoff, locationId] : [cutoff]
+  );
+  const hourlyRate = await getHourlyRate();
+  const now = new Date();
+  return rows.map(row => ({
+    ...row,
+    hourlyRate,
+    charges: calculateStayCharges(row.actual_entry_time || row.start_time, row.end_time, now, hourlyRate)
+  }));
+};
+
+const sendOverstayEmail = async (overstay) => {
+  if (!overstay.email) return; // A guest contact added by staff with only a phone number
+  const plate = overstay.checked_in_license_plate || overstay.license_plate_booked;
+  const bookingsLink = appUrl('/user/bookings');
+  const intro = `Your booking at ${overstay.location_name} ended at ${formatInTimeZone(overstay.end_time, overstay.location_time_zone, 'HH:mm on ddd D MMM')}, ` +
+    `but ${plate ? `vehicle ${plate} is` : 'your vehicle is'} still checked in.`;
+  const charges = `Time after the booking is billed at ₹${overstay.hourlyRate.toFixed(2)}/hour; so far the overstay adds ₹${overstay.charges.overstayCost.toFixed(2)}.`;
+  await sendMail({
+    to: overstay.email,
+    subject: `Your ParkEase booking at ${overstay.location_name} has ended`,
+    text: `Hi ${overstay.user_name},\n\n${intro}\n\n${charges}\n\nIf you need more time, you can extend the booking here: ${bookingsLink}`,
+    html: `<p>Hi ${escapeHtml(overstay.user_name)},</p><p>${escapeHtml(intro)}</p><p>${escapeHtml(charges)}</p><p><a href="${escapeHtml(bookingsLink)}">Extend my booking</a></p>`
+  });
+};
+
+// Flag and notify overstays that haven't been flagged yet. Extending a booking clears the flag.
+const flagOverstays = async () => {
+  const overstays = await listOverstays();
+  let flagged = 0;
+  for (const overstay of overstays) {
+    if (overstay.overstay_flagged_at) continue;
+    const result = await query(
+      "UPDATE bookings SET overstay_flagged_at = NOW() WHERE id = ? AND status = 'checked-in' AND overstay_flagged_at IS NULL",
+      [overstay.id]
+    );
+    if (result.affectedRows === 0) continue;
+    flagged++;
+    try {
+      await sendOverstayEmail(overstay);
+    } catch (mailError) {
+      console.error(`[overstays] Flagged booking ${overstay.id} but could not email user ${overstay.user_id}:`, mailError);
+    }
+  }
+  if (flagged > 0) {
+    console.log(`[overstays] Flagged ${flagged} overstaying booking(s).`);
+  }
+};
+
+const startOverstayJob = () =>
+  scheduleJob('overstays', parseInt(process.env.OVERSTAY_JOB_INTERVAL_MINUTES || '5', 10), flagOverstays);
+
+export { listOverstays, startOverstayJob };
@@ -0,0 +1,13 @@
+// server/utils/permissions.js
+import { query } from '../config/database.js';
+import { BACK_OFFICE_PERMISSIONS } from '../config/permissions.js';
+
+const getRolePermissions = async (role) => {
+  if (role === 'admin') {
+    return BACK_OFFICE_PERMISSIONS;
+  }
+  const rows = await query('SELECT permission FROM role_permissions WHERE role_name = ? ORDER BY permission', [role]);
+  return rows.map(r => r.permission);
+};
+
+export { getRolePermissions };
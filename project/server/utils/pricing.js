@@ -0,0 +1,50 @@
+// server/utils/pricing.js
+// Parking charges. Checkout bills the actual stay; quotes and booking changes apply the same rule to the scheduled window.
+// Time parked past a booking's end is billed at the same rate and reported as the overstay portion.
+import { query } from '../config/database.js';
+
+const MINIMUM_BILLABLE_HOURS = 0.25;
+
+const getHourlyRate = async () => {
+  const [rateSetting] = await query('SELECT hourly_rate FROM settings WHERE id = 1 LIMIT 1');
+  return parseFloat(rateSetting?.hourly_rate || '0');
+};
+
+// Cost of parking from start to end (Dates, ISO strings or dayjs objects): at least 15 minutes, rounded up to the cent
+const calculateParkingCost = (start, end, hourlyRate) => {
+  const durationMs = new Date(end).getTime() - new Date(start).getTime();
+  if (!(durationMs > 0) || !(hourlyRate > 0)) return 0;
+  const durationHours = Math.max(MINIMUM_BILLABLE_HOURS, durationMs / (1000 * 60 * 60));
+  return Math.ceil(durationHours * hourlyRate * 100) / 100;
+};
+
+// Up-front price for a booking window at the current rate, using the same rule as checkout.
+// The amount is stored on the booking as quoted_amount so a final_cost can be compared with what the user was shown.
+const quoteParkingCost = async (start, end) => {
+  const hourlyRate = await getHourlyRate();
+  const durationHours = (new Date(end).getTime() - new Date(start).getTime()) / (1000 * 60 * 60);
+  return {
+    hourlyRate,
+    billableHours: Math.round(Math.max(MINIMUM_BILLABLE_HOURS, durationHours) * 100) / 100,
+    amount: calculateParkingCost(start, end, hourlyRate)
+  };
+};
+
+// Split the cost of a booked stay at the booking's scheduled end, for showing the overstay separately.
+// cost is the same as calculateParkingCost over the whole stay; overstayCost is what the time past the end added.
+const calculateStayCharges = (entry, scheduledEnd, exit, hourlyRate) => {
+  const cost = calculateParkingCost(entry, exit, hourlyRate);
+  const overstayMs = new Date(exit).getTime() - new Date(scheduledEnd).getTime();
+  if (!(overstayMs > 0)) {
+    return { cost, bookedCost: cost, overstayCost: 0, overstayMinutes: 0 };
+  }
+  const bookedCost = Math.min(cost, calculateParkingCost(entry, scheduledEnd, hourlyRate));
+  return {
+    cost,
+    bookedCost,
+    overstayCost: Math.round((cost - bookedCost) * 100) / 100,
+    overstayMinutes: Math.ceil(overstayMs / (60 * 1000))
+  };
+};
+
+export { getHourlyRate, calculateParkingCost, quoteParkingCost, calculateStayCharges };
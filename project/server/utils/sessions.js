@@ -0,0 +1,232 @@
+// server/utils/sessions.js
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { query } from '../config/database.js';
+
+// Access tokens are short-lived; the refresh token (stored hashed in user_sessions) is what keeps a login alive.
+const ACCESS_TOKEN_EXPIRATION = process.env.ACCESS_TOKEN_EXPIRATION || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '7', 10);
+// How long the token a session was just rotated from still gets an access token, for tabs that refreshed together
+const ROTATION_GRACE_SECONDS = parseInt(process.env.REFRESH_TOKEN_GRACE_SECONDS || '30', 10);
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const generateRefreshToken = () => crypto.randomBytes(48).toString('hex');
+
+// Only write last_seen_at / ip_address when the stored value is older than this, not on every request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+const refreshTokenExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+const signAccessToken = (user, sessionId) => jwt.sign(
+  {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    parkingLocationId: user.parking_location_id ?? user.parkingLocationId ?? null,
+    sid: sessionId
+  },
+  process.env.JWT_SECRET,
+  { expiresIn: ACCESS_TOKEN_EXPIRATION }
+);
+
+const truncateUserAgent = (userAgent) => (userAgent ? String(userAgent).slice(0, 255) : null);
+
+// Create a new session row for a user and return the token pair for it. `source` is where the login came from.
+const createSession = async (user, source = {}) => {
+  const refreshToken = generateRefreshToken();
+  const result = await query(
+    `INSERT INTO user_sessions (user_id, refresh_token_hash, expires_at, ip_address, user_agent, last_seen_at)
+     VALUES (?, ?, ?, ?, ?, NOW())`,
+    [user.id, hashToken(refreshToken), refreshTokenExpiry(), source.ip || null, truncateUserAgent(source.userAgent)]
+  );
+  return {
+    token: signAccessToken(user, result.insertId),
+    refreshToken,
+    sessionId: result.insertId
+  };
+};
+
+const sessionUser = (session) => ({
+  id: session.uid,
+  name: session.name,
+  email: session.email,
+  role: session.role,
+  parking_location_id: session.parking_location_id
+});
+
+// A token that is no longer current. Just rotated out (another tab or request refreshed at the same moment), it
+// gets an access token but no new refresh token, so the caller keeps the one the other refresh stored. Any later
+// use means it was copied, so the whole session is revoked.
+const handleRetiredRefreshToken = async (tokenHash) => {
+  const [previous] = await query(
+    `SELECT s.id, s.expires_at, s.rotated_at > NOW() - INTERVAL ? SECOND AS in_grace,
+            u.id as uid, u.name, u.email, u.role, u.parking_location_id, u.active
+     FROM user_sessions s JOIN users u ON s.user_id = u.id
+     WHERE s.previous_token_hash = ? AND s.revoked_at IS NULL`,
+    [ROTATION_GRACE_SECONDS, tokenHash]
+  );
+  if (!previous) {
+    throw { status: 401, message: 'Invalid refresh token' };
+  }
+  if (Number(previous.in_grace) === 1 && previous.active && new Date(previous.expires_at).getTime() > Date.now()) {
+    const user = sessionUser(previous);
+    return { token: signAccessToken(user, previous.id), refreshToken: null, user };
+  }
+  console.warn(`[sessions] Refresh token reuse detected for session ${previous.id}. Revoking session.`);
+  await revokeSession(previous.id);
+  throw { status: 401, message: 'Invalid refresh token' };
+};
+
+// Exchange a refresh token for a new token pair. The presented token is retired on use (see
+// handleRetiredRefreshToken for what happens when it is presented again).
+const rotateSession = async (refreshToken, source = {}) => {
+  const tokenHash = hashToken(refreshToken);
+
+  const [session] = await query(
+    `SELECT s.id, s.user_id, s.expires_at, s.revoked_at,
+            u.id as uid, u.name, u.email, u.role, u.parking_location_id, u.active
+     FROM user_sessions s JOIN users u ON s.user_id = u.id
+     WHERE s.refresh_token_hash = ?`,
+    [tokenHash]
+  );
+
+  if (!session) {
+    return handleRetiredRefreshToken(tokenHash);
+  }
+  if (session.revoked_at) {
+    throw { status: 401, message: 'Session has been revoked' };
+  }
+  if (new Date(session.expires_at).getTime() <= Date.now()) {
+    throw { status: 401, message: 'Session has expired' };
+  }
+  if (!session.active) {
+    throw { status: 401, message: 'This account has been deactivated' };
+  }
+
+  // Compare-and-swap on the presented token: of two refreshes racing with it, only one rotates
+  const newRefreshToken = generateRefreshToken();
+  const rotated = await query(
+    `UPDATE user_sessions SET refresh_token_hash = ?, previous_token_hash = ?, rotated_at = NOW(), expires_at = ?,
+       ip_address = COALESCE(?, ip_address), user_agent = COALESCE(?, user_agent), last_seen_at = NOW()
+     WHERE id = ? AND refresh_token_hash = ? AND revoked_at IS NULL`,
+    [hashToken(newRefreshToken), tokenHash, refreshTokenExpiry(), source.ip || null, truncateUserAgent(source.userAgent), session.id, tokenHash]
+  );
+  if (rotated.affectedRows === 0) {
+    return handleRetiredRefreshToken(tokenHash);
+  }
+
+  const user = sessionUser(session);
+
+  return {
+    token: signAccessToken(user, session.id),
+    refreshToken: newRefreshToken,
+    user
+  };
+};
+
+const revokeSession = async (sessionId) => {
+  const result = await query('UPDATE user_sessions SET revoked_at = NOW() WHERE id = ? AND revoked_at IS NULL', [sessionId]);
+  return result.affectedRows;
+};
+
+const revokeSessionByRefreshToken = async (refreshToken) => {
+  const result = await query(
+    'UPDATE user_sessions SET revoked_at = NOW() WHERE refresh_token_hash = ? AND revoked_at IS NULL',
+    [hashToken(refreshToken)]
+  );
+  return result.affectedRows;
+};
+
+const revokeAllSessionsForUser = async (userId) => {
+  const result = await query('UPDATE user_sessions SET revoked_at = NOW() WHERE user_id = ? AND revoked_at IS NULL', [userId]);
+  return result.affectedRows;
+};
+
+// Revoke one of a user's own sessions; the user id check stops anyone revoking someone else's session by id
+const revokeSessionForUser = async (userId, sessionId) => {
+  const result = await query(
+    'UPDATE user_sessions SET revoked_at = NOW() WHERE id = ? AND user_id = ? AND revoked_at IS NULL',
+    [sessionId, userId]
+  );
+  return result.affectedRows;
+};
+
+// Revoke every session except the one the current request is using (e.g. after a password change)
+const revokeOtherSessionsForUser = async (userId, keepSessionId) => {
+  const result = await query(
+    'UPDATE user_sessions SET revoked_at = NOW() WHERE user_id = ? AND id <> ? AND revoked_at IS NULL',
+    [userId, keepSessionId]
+  );
+  return result.affectedRows;
+};
+
+// If the session an access token was issued for is still usable, returns the user's current auth_version
+// (see utils/currentUser.js) and when the session was last seen; otherwise null
+const getActiveSession = async (sessionId, userId) => {
+  const [session] = await query(
+    `SELECT u.auth_version, s.last_seen_at FROM user_sessions s JOIN users u ON s.user_id = u.id
+     WHERE s.id = ? AND s.user_id = ? AND s.revoked_at IS NULL AND s.expires_at > NOW()`,
+    [sessionId, userId]
+  );
+  return session ? { authVersion: session.auth_version, lastSeenAt: session.last_seen_at } : null;
+};
+
+// Record activity on a session, at most once per LAST_SEEN_RESOLUTION_MS
+const touchSession = async (sessionId, lastSeenAt, source = {}) => {
+  if (lastSeenAt && Date.now() - new Date(lastSeenAt).getTime() < LAST_SEEN_RESOLUTION_MS) return;
+  await query(
+    'UPDATE user_sessions SET last_seen_at = NOW(), ip_address = COALESCE(?, ip_address) WHERE id = ?',
+    [source.ip || null, sessionId]
+  );
+};
+
+// "Chrome on Windows"-style label for a user agent string; good enough to tell a user's devices apart
+const describeUserAgent = (userAgent) => {
+  if (!userAgent) return 'Unknown device';
+  const browsers = [
+    ['Edge', /Edg\//], ['Opera', /OPR\//], ['Firefox', /Firefox\//], ['Chrome', /Chrome\//], ['Safari', /Safari\//]
+  ];
+  const systems = [
+    ['iOS', /iPhone|iPad|iPod/], ['Android', /Android/], ['Windows', /Windows/], ['macOS', /Mac OS X|Macintosh/], ['Linux', /Linux/]
+  ];
+  const browser = browsers.find(([, pattern]) => pattern.test(userAgent));
+  const system = systems.find(([, pattern]) => pattern.test(userAgent));
+  if (!browser && !system) return 'Unknown device';
+  if (!system) return browser[0];
+  return browser ? `${browser[0]} on ${system[0]}` : system[0];
+};
+
+// Sessions that can still be used, most recently active first
+const listActiveSessionsForUser = async (userId, currentSessionId = null) => {
+  const sessions = await query(
+    `SELECT id, ip_address, user_agent, created_at, last_seen_at FROM user_sessions
+     WHERE user_id = ? AND revoked_at IS NULL AND expires_at > NOW()
+     ORDER BY COALESCE(last_seen_at, created_at) DESC`,
+    [userId]
+  );
+  return sessions.map(session => ({
+    id: session.id,
+    device: describeUserAgent(session.user_agent),
+    ipAddress: session.ip_address,
+    userAgent: session.user_agent,
+    createdAt: session.created_at,
+    lastSeenAt: session.last_seen_at || session.created_at,
+    current: session.id === currentSessionId
+  }));
+};
+
+export {
+  hashToken,
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  revokeAllSessionsForUser,
+  revokeSessionForUser,
+  revokeOtherSessionsForUser,
+  getActiveSession,
+  touchSession,
+  listActiveSessionsForUser
+};
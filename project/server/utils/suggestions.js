@@ -0,0 +1,110 @@
+// server/utils/suggestions.js
+// Alternatives offered when a booking window is full: windows of the same length earlier or later that day at the
+// same location, and other locations with capacity for the requested window, nearest first.
+import dayjs from 'dayjs';
+import { query } from '../config/database.js';
+import { bookingCapacityFor } from './capacity.js';
+import { toDbDateTime, toZonedIso, zonedDayBounds } from './time.js';
+
+const SUGGESTION_STEP_MINUTES = 15;
+const MAX_WINDOW_SUGGESTIONS = 3; // On each side of the requested window
+const MAX_LOCATION_SUGGESTIONS = 5;
+const MIN_LEAD_MINUTES = 5; // Bookings must start a little in the future
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees) => degrees * Math.PI / 180;
+
+// Great-circle distance between two coordinates, in kilometres
+const distanceKm = (lat1, lon1, lat2, lon2) => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+// Step outwards from the requested window in both directions, keeping the same length and staying on the same day
+// (in the location's time zone).
+// Bookings touching the day are loaded once and counted per candidate the same way getBookingCapacity counts them.
+const suggestWindows = async (location, start, end) => {
+  const capacity = bookingCapacityFor(location);
+  const { start: dayStart, end: dayEnd } = zonedDayBounds(start, location.time_zone);
+  const rows = await query(
+    `SELECT start_time, end_time FROM bookings
+     WHERE parking_location_id = ? AND status IN ('confirmed', 'checked-in') AND start_time < ? AND end_time > ?`,
+    [location.id, toDbDateTime(dayEnd), toDbDateTime(dayStart)]
+  );
+  const bookings = rows.map(row => ({ start: dayjs(row.start_time), end: dayjs(row.end_time) }));
+
+  const lengthMinutes = end.diff(start, 'minute');
+  const earliestStart = dayjs().add(MIN_LEAD_MINUTES, 'minute');
+  const availableFor = (candidateStart, candidateEnd) =>
+    capacity - bookings.filter(b => b.start.isBefore(candidateEnd) && b.end.isAfter(candidateStart)).length;
+
+  const collect = (direction) => {
+    const found = [];
+    for (let offset = SUGGESTION_STEP_MINUTES; found.length < MAX_WINDOW_SUGGESTIONS; offset += SUGGESTION_STEP_MINUTES) {
+      const candidateStart = start.add(direction * offset, 'minute');
+      const candidateEnd = candidateStart.add(lengthMinutes, 'minute');
+      if (candidateStart.isBefore(dayStart) || candidateEnd.isAfter(dayEnd)) break;
+      if (candidateStart.isBefore(earliestStart)) {
+        if (direction < 0) break; // Everything further back is in the past too
+        continue;
+      }
+      const available = availableFor(candidateStart, candidateEnd);
+      if (available > 0) {
+        found.push({
+          startTime: toZonedIso(candidateStart, location.time_zone),
+          endTime: toZonedIso(candidateEnd, location.time_zone),
+          available
+        });
+      }
+    }
+    return found;
+  };
+
+  return [...collect(-1), ...collect(1)]
+    .sort((a, b) => Math.abs(dayjs(a.startTime).diff(start)) - Math.abs(dayjs(b.startTime).diff(start)));
+};
+
+// Other locations with at least one booking slot free for [start, end), from one grouped query
+const suggestLocations = async (location, start, end) => {
+  const rows = await query(
+    `SELECT p.id, p.name, p.latitude, p.longitude, p.total_slots, p.booking_capacity_mode, p.booking_capacity_value,
+            p.cover_image_url, COUNT(b.id) AS booked
+     FROM parking_locations p
+     LEFT JOIN bookings b ON b.parking_location_id = p.id AND b.status IN ('confirmed', 'checked-in')
+       AND b.start_time < ? AND b.end_time > ?
+     WHERE p.id <> ?
+     GROUP BY p.id`,
+    [toDbDateTime(end), toDbDateTime(start), location.id]
+  );
+
+  return rows
+    .map(row => ({
+      id: row.id,
+      name: row.name,
+      coverImageUrl: row.cover_image_url,
+      distanceKm: Math.round(distanceKm(location.latitude, location.longitude, row.latitude, row.longitude) * 10) / 10,
+      available: bookingCapacityFor(row) - Number(row.booked)
+    }))
+    .filter(suggestion => suggestion.available > 0)
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, MAX_LOCATION_SUGGESTIONS);
+};
+
+// Returns { windows, locations } for a requested window at locationId, or null if the location doesn't exist.
+// start and end are dayjs values.
+const getBookingSuggestions = async (locationId, start, end) => {
+  const [location] = await query(
+    `SELECT id, latitude, longitude, total_slots, booking_capacity_mode, booking_capacity_value, time_zone
+     FROM parking_locations WHERE id = ?`,
+    [locationId]
+  );
+  if (!location) return null;
+
+  const windows = await suggestWindows(location, start, end);
+  const locations = await suggestLocations(location, start, end);
+  return { windows, locations };
+};
+
+export { getBookingSuggestions };
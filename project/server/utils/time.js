@@ -0,0 +1,69 @@
+// server/utils/time.js
+// Timestamps are stored in UTC: the database connection runs with time_zone '+00:00', mysql2 reads and writes
+// DATETIME values as UTC, and times built in code go through toDbDateTime. Each location has an IANA time zone
+// (parking_locations.time_zone) used wherever a wall-clock time matters: "today", days of the week, emails.
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const DB_DATETIME_FORMAT = 'YYYY-MM-DD HH:mm:ss';
+
+// Zone for locations created without one and for back-office reports that span locations
+const DEFAULT_TIME_ZONE = process.env.DEFAULT_TIME_ZONE || 'UTC';
+
+const isValidTimeZone = (timeZone) => {
+  if (!timeZone || typeof timeZone !== 'string') return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Parse a location's zone from request fields; an empty value means fallback. Throws { status, message }.
+const parseTimeZone = (value, fallback = DEFAULT_TIME_ZONE) => {
+  if (!value) return fallback;
+  if (!isValidTimeZone(value)) {
+    throw { status: 400, message: 'Time zone must be an IANA time zone name, e.g. Asia/Kolkata.' };
+  }
+  return value;
+};
+
+// A Date, ISO string or dayjs value as a UTC DATETIME parameter
+const toDbDateTime = (value) => dayjs(value).utc().format(DB_DATETIME_FORMAT);
+
+// ISO-8601 with the location's offset, e.g. 2025-06-01T09:00:00+05:30
+const toZonedIso = (value, timeZone) => (value ? dayjs(value).tz(timeZone || DEFAULT_TIME_ZONE).format() : null);
+
+// Wall-clock text for messages and emails, in the location's zone
+const formatInTimeZone = (value, timeZone, format) => dayjs(value).tz(timeZone || DEFAULT_TIME_ZONE).format(format);
+
+// Start of the calendar day (YYYY-MM-DD, or the day containing a timestamp) in a zone, as a dayjs in that zone
+const startOfZonedDay = (value, timeZone) =>
+  (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? dayjs.tz(value, timeZone || DEFAULT_TIME_ZONE)
+    : dayjs(value).tz(timeZone || DEFAULT_TIME_ZONE)
+  ).startOf('day');
+
+// The instants a calendar day starts and ends in a zone (the day is 23 or 25 hours long when clocks change)
+const zonedDayBounds = (value, timeZone) => {
+  const start = startOfZonedDay(value, timeZone);
+  const end = startOfZonedDay(start.add(1, 'day').format('YYYY-MM-DD'), timeZone);
+  return { start: dayjs(start.valueOf()), end: dayjs(end.valueOf()) };
+};
+
+export {
+  DB_DATETIME_FORMAT,
+  DEFAULT_TIME_ZONE,
+  isValidTimeZone,
+  parseTimeZone,
+  toDbDateTime,
+  toZonedIso,
+  formatInTimeZone,
+  startOfZonedDay,
+  zonedDayBounds
+};
@@ -0,0 +1,106 @@
+// server/utils/totp.js
+// Time-based one-time passwords (RFC 6238: HMAC-SHA1, 6 digits, 30 second steps), compatible with
+// Google Authenticator, Authy, 1Password etc.
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TIME_STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+const ISSUER = process.env.TOTP_ISSUER || 'ParkEase';
+
+const base32Encode = (buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (input) => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character in secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+const generateSecret = () => base32Encode(crypto.randomBytes(20));
+
+const hotp = (secret, counter) => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** CODE_DIGITS;
+  return code.toString().padStart(CODE_DIGITS, '0');
+};
+
+const currentCounter = () => Math.floor(Date.now() / 1000 / TIME_STEP_SECONDS);
+
+// Returns the time-step counter the code matched (so callers can refuse replays), or null.
+// Accepts one step of clock drift either way.
+const verifyTotp = (secret, code, { window = 1, afterCounter = null } = {}) => {
+  const normalized = String(code || '').replace(/\s+/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const now = currentCounter();
+  for (let counter = now - window; counter <= now + window; counter++) {
+    if (afterCounter !== null && counter <= afterCounter) continue;
+    const expected = hotp(secret, counter);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return counter;
+    }
+  }
+  return null;
+};
+
+const buildOtpauthUri = (secret, accountName) => {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(CODE_DIGITS),
+    period: String(TIME_STEP_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+const buildQrCodeDataUrl = (otpauthUri) => QRCode.toDataURL(otpauthUri, { margin: 1, width: 220 });
+
+// Single-use recovery codes, e.g. "4f1a-9c2e-b7d0"
+const generateRecoveryCodes = (count = 10) => Array.from({ length: count }, () =>
+  crypto.randomBytes(6).toString('hex').match(/.{4}/g).join('-')
+);
+
+const normalizeRecoveryCode = (code) => String(code || '').trim().toLowerCase().replace(/[^0-9a-f]/g, '').match(/.{1,4}/g)?.join('-') || '';
+
+export {
+  generateSecret,
+  verifyTotp,
+  buildOtpauthUri,
+  buildQrCodeDataUrl,
+  generateRecoveryCodes,
+  normalizeRecoveryCode
+};
@@ -0,0 +1,147 @@
+// server/utils/twoFactor.js
+import jwt from 'jsonwebtoken';
+import { query } from '../config/database.js';
+import { hashToken } from './sessions.js';
+import {
+  generateSecret,
+  verifyTotp,
+  buildOtpauthUri,
+  buildQrCodeDataUrl,
+  generateRecoveryCodes,
+  normalizeRecoveryCode
+} from './totp.js';
+
+// Staff accounts (admins, employees and custom back-office roles) can enrol in two-factor authentication
+const canUseTwoFactor = (role) => role !== 'user';
+
+const CHALLENGE_EXPIRATION = '5m';
+
+// Short-lived token that proves the password step succeeded. It has no session id, so verifyToken rejects it.
+const signTwoFactorChallenge = (userId, purpose) => jwt.sign(
+  { id: userId, purpose: `2fa-${purpose}` },
+  process.env.JWT_SECRET,
+  { expiresIn: CHALLENGE_EXPIRATION }
+);
+
+const verifyTwoFactorChallenge = (challengeToken, purpose) => {
+  try {
+    const decoded = jwt.verify(challengeToken, process.env.JWT_SECRET);
+    if (decoded.purpose !== `2fa-${purpose}`) {
+      throw new Error('Wrong challenge purpose');
+    }
+    return decoded.id;
+  } catch {
+    throw { status: 401, message: 'Your sign-in attempt has expired. Please sign in again.' };
+  }
+};
+
+const isTwoFactorRequiredForRole = async (role) => {
+  const [policy] = await query('SELECT required FROM two_factor_policies WHERE role = ?', [role]);
+  return Boolean(policy && policy.required);
+};
+
+// { roleName: required } for every staff role, built-in roles first
+const getTwoFactorPolicy = async () => {
+  const rows = await query(
+    `SELECT r.name, COALESCE(p.required, 0) as required
+     FROM roles r LEFT JOIN two_factor_policies p ON p.role = r.name
+     WHERE r.name <> 'user'
+     ORDER BY r.is_system DESC, r.name`
+  );
+  return rows.reduce((policy, row) => {
+    policy[row.name] = Boolean(row.required);
+    return policy;
+  }, {});
+};
+
+// Generate a new secret for the user to scan. It only becomes active once a code from it is confirmed.
+const startEnrollment = async (user) => {
+  const secret = generateSecret();
+  await query('UPDATE users SET totp_pending_secret = ? WHERE id = ?', [secret, user.id]);
+  const otpauthUri = buildOtpauthUri(secret, user.email);
+  return {
+    secret,
+    otpauthUri,
+    qrCodeDataUrl: await buildQrCodeDataUrl(otpauthUri)
+  };
+};
+
+const replaceRecoveryCodes = async (userId) => {
+  const codes = generateRecoveryCodes();
+  await query('DELETE FROM user_recovery_codes WHERE user_id = ?', [userId]);
+  for (const code of codes) {
+    await query('INSERT INTO user_recovery_codes (user_id, code_hash) VALUES (?, ?)', [userId, hashToken(code)]);
+  }
+  return codes;
+};
+
+// Activate the pending secret if the code matches it; returns a fresh set of recovery codes
+const confirmEnrollment = async (userId, code) => {
+  const [user] = await query('SELECT totp_pending_secret FROM users WHERE id = ?', [userId]);
+  if (!user || !user.totp_pending_secret) {
+    throw { status: 400, message: 'Start two-factor setup before confirming a code.' };
+  }
+  const matchedCounter = verifyTotp(user.totp_pending_secret, code);
+  if (matchedCounter === null) {
+    throw { status: 400, message: 'That code is not valid. Check the time on your device and try again.' };
+  }
+
+  await query(
+    'UPDATE users SET totp_secret = totp_pending_secret, totp_pending_secret = NULL, totp_enabled_at = NOW(), totp_last_counter = ? WHERE id = ?',
+    [matchedCounter, userId]
+  );
+  return replaceRecoveryCodes(userId);
+};
+
+// Check an authenticator code or a single-use recovery code for a user with 2FA enabled
+const verifySecondFactor = async (userId, { code, recoveryCode }) => {
+  const [user] = await query('SELECT totp_secret, totp_last_counter FROM users WHERE id = ? AND totp_enabled_at IS NOT NULL', [userId]);
+  if (!user) return false;
+
+  if (recoveryCode) {
+    const result = await query(
+      'UPDATE user_recovery_codes SET used_at = NOW() WHERE user_id = ? AND code_hash = ? AND used_at IS NULL',
+      [userId, hashToken(normalizeRecoveryCode(recoveryCode))]
+    );
+    return result.affectedRows > 0;
+  }
+
+  // A code can only be used once, even inside its 30 second window
+  const afterCounter = user.totp_last_counter === null ? null : Number(user.totp_last_counter);
+  const matchedCounter = verifyTotp(user.totp_secret, code, { afterCounter });
+  if (matchedCounter === null) return false;
+
+  // Claim the counter in the same statement that checks it, so two requests with one code can't both pass
+  const claimed = await query(
+    'UPDATE users SET totp_last_counter = ? WHERE id = ? AND (totp_last_counter IS NULL OR totp_last_counter < ?)',
+    [matchedCounter, userId, matchedCounter]
+  );
+  return claimed.affectedRows > 0;
+};
+
+const disableTwoFactor = async (userId) => {
+  await query(
+    'UPDATE users SET totp_secret = NULL, totp_pending_secret = NULL, totp_enabled_at = NULL, totp_last_counter = NULL WHERE id = ?',
+    [userId]
+  );
+  await query('DELETE FROM user_recovery_codes WHERE user_id = ?', [userId]);
+};
+
+const countRemainingRecoveryCodes = async (userId) => {
+  const [result] = await query('SELECT COUNT(*) as count FROM user_recovery_codes WHERE user_id = ? AND used_at IS NULL', [userId]);
+  return parseInt(result.count, 10) || 0;
+};
+
+export {
+  canUseTwoFactor,
+  signTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  isTwoFactorRequiredForRole,
+  getTwoFactorPolicy,
+  startEnrollment,
+  confirmEnrollment,
+  verifySecondFactor,
+  replaceRecoveryCodes,
+  disableTwoFactor,
+  countRemainingRecoveryCodes
+};
@@ -0,0 +1,86 @@
+// server/utils/waitlist.js
+// Waitlist for full booking windows. When a booking at a location is cancelled, waiting entries whose window
+// overlaps the freed one are auto-booked in the order they joined, as far as capacity allows, and emailed.
+import { query } from '../config/database.js';
+import { getBookingCapacity } from './capacity.js';
+import { sendMail, appUrl } from './mailer.js';
+import { generateConfirmationCode } from './bookingPasses.js';
+import { quoteParkingCost } from './pricing.js';
+import { toDbDateTime, formatInTimeZone } from './time.js';
+import { escapeHtml } from './html.js';
+
+// In the location's time zone, the one the user booked in
+const formatWindow = (startTime, endTime, timeZone) =>
+  `${formatInTimeZone(startTime, timeZone, 'ddd D MMM YYYY, HH:mm')} - ${formatInTimeZone(endTime, timeZone, 'HH:mm')}`;
+
+const sendPromotionEmail = async (entry, bookingId) => {
+  const window = formatWindow(entry.start_time, entry.end_time, entry.location_time_zone);
+  const bookingsLink = appUrl('/user/bookings');
+  await sendMail({
+    to: entry.email,
+    subject: `A spot opened up at ${entry.location_name}`,
+    text: `Hi ${entry.user_name},\n\nA space became available for the window you were waiting for, so we booked it for you.\n\n${entry.location_name}\n${window}\nBooking ID: ${bookingId}\n\nYou can view or cancel it here: ${bookingsLink}`,
+    html: `<p>Hi ${escapeHtml(entry.user_name)},</p><p>A space became available for the window you were waiting for, so we booked it for you.</p><p><strong>${escapeHtml(entry.location_name)}</strong><br>${escapeHtml(window)}<br>Booking ID: ${escapeHtml(bookingId)}</p><p><a href="${escapeHtml(bookingsLink)}">View my bookings</a></p>`
+  });
+};
+
+// Entries whose window has already started can no longer be booked
+const expireStaleWaitlistEntries = async () => {
+  await query(
+    "UPDATE booking_waitlist SET status = 'expired', resolved_at = NOW() WHERE status = 'waiting' AND start_time <= NOW()"
+  );
+};
+
+// Called after a booking at locationId covering [startTime, endTime) is cancelled. Returns the promoted entries.
+// Never throws: a failed promotion is logged and the entries stay on the waitlist for the next cancellation.
+const promoteWaitlist = async (locationId, startTime, endTime) => {
+  const promoted = [];
+  try {
+    await expireStaleWaitlistEntries();
+    const entries = await query(
+      `SELECT w.*, u.email, u.name AS user_name, p.name AS location_name, p.time_zone AS location_time_zone
+       FROM booking_waitlist w
+       JOIN users u ON w.user_id = u.id
+       JOIN parking_locations p ON w.parking_location_id = p.id
+       WHERE w.parking_location_id = ? AND w.status = 'waiting' AND u.active = 1
+         AND w.start_time < ? AND w.end_time > ?
+       ORDER BY w.created_at ASC, w.id ASC`,
+      [locationId, toDbDateTime(endTime), toDbDateTime(startTime)]
+    );
+
+    for (const entry of entries) {
+      const entryStart = toDbDateTime(entry.start_time);
+      const entryEnd = toDbDateTime(entry.end_time);
+      const capacity = await getBookingCapacity(locationId, entryStart, entryEnd);
+      if (!capacity || !capacity.isBookable) continue;
+
+      // Claim the entry first so two cancellations at once can't book it twice
+      const claimed = await query(
+        "UPDATE booking_waitlist SET status = 'booked', resolved_at = NOW() WHERE id = ? AND status = 'waiting'",
+        [entry.id]
+      );
+      if (claimed.affectedRows === 0) continue;
+
+      const quote = await quoteParkingCost(entry.start_time, entry.end_time);
+
+      const result = await query(
+        'INSERT INTO bookings (user_id, parking_location_id, start_time, end_time, status, license_plate_booked, confirmation_code, quoted_amount, created_by_user_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [entry.user_id, locationId, entryStart, entryEnd, 'confirmed', entry.license_plate_booked, generateConfirmationCode(), quote.amount, entry.user_id]
+      );
+      await query('UPDATE booking_waitlist SET booking_id = ? WHERE id = ?', [result.insertId, entry.id]);
+      promoted.push({ waitlistId: entry.id, bookingId: result.insertId, userId: entry.user_id });
+      console.log(`[waitlist] Entry ${entry.id} promoted to booking ${result.insertId} at location ${locationId}.`);
+
+      try {
+        await sendPromotionEmail(entry, result.insertId);
+      } catch (mailError) {
+        console.error(`[waitlist] Booked entry ${entry.id} but could not email user ${entry.user_id}:`, mailError);
+      }
+    }
+  } catch (error) {
+    console.error(`[waitlist] Failed to promote waitlist for location ${locationId}:`, error);
+  }
+  return promoted;
+};
+
+export { expireStaleWaitlistEntries, promoteWaitlist };
@@ -4,11 +4,16 @@ import { AuthProvider } from './contexts/AuthContext';
 import ProtectedRoute from './components/common/ProtectedRoute';
 import Navbar from './components/common/Navbar';
 import Footer from './components/common/Footer';
+import EmailVerificationBanner from './components/common/EmailVerificationBanner';
 
 // Public pages
 import HomePage from './pages/HomePage';
 import LoginPage from './pages/LoginPage';
 import RegisterPage from './pages/RegisterPage';
+import ForgotPasswordPage from './pages/ForgotPasswordPage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
+import VerifyEmailPage from './pages/VerifyEmailPage';
+import ProfilePage from './pages/ProfilePage';
 
 // Admin pages
 import AdminDashboard from './pages/admin/Dashboard'; // Assuming this is src/pages/admin/AdminDashboard.tsx
@@ -17,6 +22,9 @@ import AdminEmployees from './pages/admin/Employees';
 import AdminFeedback from './pages/admin/Feedback';
 import AdminSettingsPage from './pages/admin/SettingsPage'; // <<-- NEW: Import the SettingsPage component
 import AdminBookingsDisplay from './pages/admin/AdminBookingsDisplay';
+import AdminRoles from './pages/admin/Roles';
+import AdminAuditLog from './pages/admin/AuditLog';
+import AdminApiKeys from './pages/admin/ApiKeys';
 // Employee pages
 import EmployeeDashboard from './pages/employee/Dashboard';
 
@@ -31,18 +39,33 @@ function App() {
       <Router>
         <div className="flex flex-col min-h-screen bg-primary-50">
           <Navbar />
+          <EmailVerificationBanner />
           <main className="flex-grow">
             <Routes>
               {/* Public Routes */}
               <Route path="/" element={<HomePage />} />
               <Route path="/login" element={<LoginPage />} />
+              <Route path="/login/sso/callback" element={<LoginPage />} />
               <Route path="/register" element={<RegisterPage />} />
+              <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+              <Route path="/reset-password" element={<ResetPasswordPage />} />
+              <Route path="/verify-email" element={<VerifyEmailPage />} />
+              
+              {/* Account Routes */}
+              <Route 
+                path="/profile" 
+                element={
+                  <ProtectedRoute>
+                    <ProfilePage />
+                  </ProtectedRoute>
+                } 
+              />
               
               {/* Admin Routes */}
               <Route 
                 path="/admin/dashboard" 
                 element={
-                  <ProtectedRoute allowedRoles={['admin']}>
+                  <ProtectedRoute permission="dashboard:read">
                     <AdminDashboard />
                   </ProtectedRoute>
                 } 
@@ -50,7 +73,7 @@ function App() {
               <Route 
                 path="/admin/locations" 
                 element={
-                  <ProtectedRoute allowedRoles={['admin']}>
+                  <ProtectedRoute permission="locations:read">
                     <AdminLocations />
                   </ProtectedRoute>
                 } 
@@ -58,7 +81,7 @@ function App() {
               <Route 
                 path="/admin/employees" 
                 element={
-                  <ProtectedRoute allowedRoles={['admin']}>
+                  <ProtectedRoute permission="employees:read">
                     <AdminEmployees />
                   </ProtectedRoute>
                 } 
@@ -66,7 +89,7 @@ function App() {
               <Route 
                 path="/admin/feedbacks" // Corrected from "/admin/feedback" to match your AdminDashboard link
                 element={
-                  <ProtectedRoute allowedRoles={['admin']}>
+                  <ProtectedRoute permission="feedback:read">
                     <AdminFeedback />
                   </ProtectedRoute>
                 } 
@@ -75,7 +98,7 @@ function App() {
               <Route 
                 path="/admin/settings" 
                 element={
-                  <ProtectedRoute allowedRoles={['admin']}>
+                  <ProtectedRoute permission="rates:read">
                     <AdminSettingsPage /> 
                   </ProtectedRoute>
                 } 
@@ -83,17 +106,44 @@ function App() {
               <Route 
               path="/admin/bookings" 
                 element={
-                <ProtectedRoute allowedRoles={['admin']}>
+                <ProtectedRoute permission="bookings:read">
                   <AdminBookingsDisplay />
                   </ProtectedRoute>
                   }
               />
               
+              <Route 
+                path="/admin/roles" 
+                element={
+                  <ProtectedRoute permission="roles:manage">
+                    <AdminRoles />
+                  </ProtectedRoute>
+                } 
+              />
+
+              <Route 
+                path="/admin/audit-log" 
+                element={
+                  <ProtectedRoute permission="audit:read">
+                    <AdminAuditLog />
+                  </ProtectedRoute>
+                } 
+              />
+
+              <Route 
+                path="/admin/api-keys" 
+                element={
+                  <ProtectedRoute permission="api-keys:manage">
+                    <AdminApiKeys />
+                  </ProtectedRoute>
+                } 
+              />
+              
               {/* Employee Routes */}
               <Route 
                 path="/employee/dashboard" 
                 element={
-                  <ProtectedRoute allowedRoles={['employee']}>
+                  <ProtectedRoute permission="parking:operate">
                     <EmployeeDashboard />
                   </ProtectedRoute>
                 } 
@@ -103,7 +153,7 @@ function App() {
               <Route 
                 path="/user/dashboard" 
                 element={
-                  <ProtectedRoute allowedRoles={['user']}>
+                  <ProtectedRoute permission="bookings:create">
                     <UserDashboard />
                   </ProtectedRoute>
                 } 
@@ -111,7 +161,7 @@ function App() {
               <Route 
                 path="/user/bookings" 
                 element={
-                  <ProtectedRoute allowedRoles={['user']}>
+                  <ProtectedRoute permission="bookings:create">
                     <UserBookings />
                   </ProtectedRoute>
                 } 
@@ -119,7 +169,7 @@ function App() {
               <Route 
                 path="/user/feedback" 
                 element={
-                  <ProtectedRoute allowedRoles={['user']}>
+                  <ProtectedRoute permission="bookings:create">
                     <UserFeedback />
                   </ProtectedRoute>
                 } 
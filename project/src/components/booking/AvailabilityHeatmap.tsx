@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import axios, { AxiosError } from 'axios';
+import dayjs from 'dayjs';
+import { Loader2, AlertCircle } from 'lucide-react';
+import { inTimeZone, formatInTimeZone, toTimeZoneInputValue, fromTimeZoneInputValue } from '../../utils/dateTime';
+
+interface ErrorResponseData {
+  message?: string;
+}
+
+// One bucket of GET /api/locations/:id/availability-timeline
+interface TimelineBucket {
+  startTime: string;
+  endTime: string;
+  booked: number;
+  available: number;
+  isPast: boolean;
+}
+
+interface Timeline {
+  date: string;
+  timeZone: string;
+  interval: number;
+  capacity: number;
+  buckets: TimelineBucket[];
+}
+
+interface AvailabilityHeatmapProps {
+  locationId: number;
+  timeZone: string; // The location's; days, hours and the form's values are wall-clock times there
+  // The form's current times (datetime-local values), highlighted on the map; the map follows the start's date
+  selectedStart: string;
+  selectedEnd: string;
+  // Called with datetime-local values when the user picks a free range
+  onSelectRange: (startTime: string, endTime: string) => void;
+}
+
+const MIN_LEAD_MINUTES = 5; // Same as the earliest start the booking form accepts
+
+const bucketColor = (bucket: TimelineBucket, capacity: number) => {
+  if (bucket.isPast) return 'bg-secondary-100 cursor-not-allowed';
+  if (bucket.available === 0) return 'bg-red-400 cursor-not-allowed';
+  if (capacity > 0 && bucket.available / capacity <= 0.25) return 'bg-yellow-300 hover:bg-yellow-400 cursor-pointer';
+  return 'bg-green-400 hover:bg-green-500 cursor-pointer';
+};
+
+// Day view of remaining booking capacity. Hours run left to right, the buckets of each hour top to bottom.
+// Click a free bucket to select it, then another to stretch the selection to a range.
+const AvailabilityHeatmap: React.FC<AvailabilityHeatmapProps> = ({ locationId, timeZone, selectedStart, selectedEnd, onSelectRange }) => {
+  const today = inTimeZone(dayjs(), timeZone).format('YYYY-MM-DD');
+  const [date, setDate] = useState(today);
+  const [intervalMinutes, setIntervalMinutes] = useState<15 | 30>(30);
+  const [timeline, setTimeline] = useState<Timeline | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [anchorIndex, setAnchorIndex] = useState<number | null>(null);
+  const [hint, setHint] = useState<string | null>(null);
+
+  // Follow the date typed into the form
+  useEffect(() => {
+    if (selectedStart && dayjs(selectedStart).isValid()) {
+      setDate(dayjs(selectedStart).format('YYYY-MM-DD'));
+    }
+  }, [selectedStart]);
+
+  useEffect(() => {
+    const fetchTimeline = async () => {
+      setLoading(true);
+      setError(null);
+      setAnchorIndex(null);
+      try {
+        const response = await axios.get(`/api/locations/${locationId}/availability-timeline`, { params: { date, interval: intervalMinutes } });
+        setTimeline(response.data);
+      } catch (err) {
+        const axiosErr = err as AxiosError<ErrorResponseData>;
+        setError(axiosErr.response?.data?.message || 'Could not load availability for this day.');
+        setTimeline(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchTimeline();
+  }, [locationId, date, intervalMinutes]);
+
+  const isBucketFree = (bucket: TimelineBucket) => !bucket.isPast && bucket.available > 0;
+
+  const selectBuckets = (first: TimelineBucket, last: TimelineBucket) => {
+    const earliestStart = dayjs().add(MIN_LEAD_MINUTES, 'minute');
+    const start = dayjs(first.startTime).isBefore(earliestStart) ? earliestStart : dayjs(first.startTime);
+    onSelectRange(toTimeZoneInputValue(start, timeZone), toTimeZoneInputValue(last.endTime, timeZone));
+  };
+
+  const handleBucketClick = (index: number) => {
+    if (!timeline) return;
+    const bucket = timeline.buckets[index];
+    if (!isBucketFree(bucket)) return;
+
+    if (anchorIndex === null || anchorIndex === index) {
+      setAnchorIndex(index);
+      setHint('Click another free time to extend the selection.');
+      selectBuckets(bucket, bucket);
+      return;
+    }
+    const from = Math.min(anchorIndex, index);
+    const to = Math.max(anchorIndex, index);
+    const range = timeline.buckets.slice(from, to + 1);
+    if (!range.every(isBucketFree)) {
+      // Start over from the clicked bucket rather than selecting across a full one
+      setAnchorIndex(index);
+      setHint('That range runs through a full time. Selection restarted here.');
+      selectBuckets(bucket, bucket);
+      return;
+    }
+    setAnchorIndex(null);
+    setHint(null);
+    selectBuckets(range[0], range[range.length - 1]);
+  };
+
+  const isSelected = (bucket: TimelineBucket) =>
+    Boolean(selectedStart && selectedEnd) &&
+    dayjs(bucket.startTime).isBefore(dayjs(fromTimeZoneInputValue(selectedEnd, timeZone))) &&
+    dayjs(bucket.endTime).isAfter(dayjs(fromTimeZoneInputValue(selectedStart, timeZone)));
+
+  const bucketsPerHour = 60 / intervalMinutes;
+  const hours = timeline ? Math.ceil(timeline.buckets.length / bucketsPerHour) : 0;
+
+  return (
+    <div className="border border-secondary-200 rounded-md p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium text-secondary-700">Availability</p>
+        <div className="flex items-center gap-2">
+          <input type="date" value={date} min={today} onChange={(e) => e.target.value && setDate(e.target.value)}
+                 className="px-2 py-1 border border-secondary-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-primary-500" />
+          {([30, 15] as const).map(option => (
+            <button key={option} type="button" onClick={() => setIntervalMinutes(option)}
+                    className={`px-2 py-1 rounded-md text-xs font-medium border ${
+                      intervalMinutes === option ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-secondary-600 border-secondary-300 hover:bg-secondary-50'
+                    }`}>
+              {option} min
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading && (
+        <p className="flex items-center text-xs text-secondary-500"><Loader2 className="h-4 w-4 mr-2 animate-spin" /> Loading availability...</p>
+      )}
+      {error && (
+        <p className="flex items-center text-xs text-red-700"><AlertCircle className="h-4 w-4 mr-2" /> {error}</p>
+      )}
+
+      {timeline && !loading && (
+        <>
+          <div className="overflow-x-auto">
+            <div className="grid gap-px min-w-[480px]" style={{ gridTemplateColumns: `repeat(${hours}, minmax(0, 1fr))` }}>
+              {Array.from({ length: hours }, (_, hour) => (
+                <div key={hour} className="flex flex-col gap-px">
+                  <span className="text-[10px] text-secondary-500 text-center h-4">{hour % 3 === 0 ? formatInTimeZone(timeline.buckets[hour * bucketsPerHour].startTime, timeZone, 'HH') : ''}</span>
+                  {timeline.buckets.slice(hour * bucketsPerHour, (hour + 1) * bucketsPerHour).map((bucket, offset) => {
+                    const index = hour * bucketsPerHour + offset;
+                    return (
+                      <button
+                        key={bucket.startTime}
+                        type="button"
+                        onClick={() => handleBucketClick(index)}
+                        disabled={!isBucketFree(bucket)}
+                        title={`${formatInTimeZone(bucket.startTime, timeZone, 'HH:mm')}-${formatInTimeZone(bucket.endTime, timeZone, 'HH:mm')}: ${
+                          bucket.isPast ? 'past' : `${bucket.available} of ${timeline.capacity} available`
+                        }`}
+                        className={`h-4 w-full rounded-sm ${bucketColor(bucket, timeline.capacity)} ${
+                          isSelected(bucket) || anchorIndex === index ? 'ring-2 ring-primary-700 ring-inset' : ''
+                        }`}
+                      />
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-xs text-secondary-600">
+            <span className="flex items-center"><span className="inline-block h-3 w-3 rounded-sm bg-green-400 mr-1" /> Available</span>
+            <span className="flex items-center"><span className="inline-block h-3 w-3 rounded-sm bg-yellow-300 mr-1" /> Almost full</span>
+            <span className="flex items-center"><span className="inline-block h-3 w-3 rounded-sm bg-red-400 mr-1" /> Full</span>
+            <span className="flex items-center"><span className="inline-block h-3 w-3 rounded-sm bg-secondary-100 border border-secondary-200 mr-1" /> Past</span>
+          </div>
+          <p className="text-xs text-secondary-500">{hint || 'Click a free time to fill in the start and end times.'}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AvailabilityHeatmap;
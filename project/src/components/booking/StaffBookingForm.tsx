@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from 'react';
+import axios, { AxiosError } from 'axios';
+import dayjs from 'dayjs';
+import { Loader2, AlertCircle, CheckCircle, Search, UserPlus, X } from 'lucide-react';
+import { inTimeZone, formatInTimeZone, toTimeZoneInputValue, fromTimeZoneInputValue } from '../../utils/dateTime';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface ErrorResponseData {
+  message?: string;
+}
+
+// GET /api/customers and POST /api/customers/guests
+interface Customer {
+  id: number;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  isGuest: boolean;
+}
+
+interface BookingLocation {
+  id: number;
+  name: string;
+  timeZone: string;
+}
+
+interface StaffBookingFormProps {
+  // Employees book at their own location; without one the form lists every location
+  fixedLocation?: BookingLocation;
+  onBooked?: () => void;
+}
+
+interface BookedSummary {
+  customerName: string;
+  locationName: string;
+  startTime: string;
+  endTime: string;
+  timeZone: string;
+  confirmationCode: string;
+}
+
+const emptyGuest = { name: '', email: '', phone: '' };
+
+// The next full hour for two hours, as datetime-local values in the location's zone
+const defaultWindow = (timeZone: string) => {
+  const start = inTimeZone(dayjs(), timeZone).add(1, 'hour').startOf('hour');
+  return { start: toTimeZoneInputValue(start, timeZone), end: toTimeZoneInputValue(start.add(2, 'hour'), timeZone) };
+};
+
+const describeCustomer = (customer: Customer) =>
+  [customer.email, customer.phone].filter(Boolean).join(' · ') || 'No contact details';
+
+// Book on behalf of a customer (a phone reservation or a walk-in): find them by name, email or phone, or add them
+// as a guest contact, then book a window. The booking belongs to the customer and records the staff member.
+const StaffBookingForm: React.FC<StaffBookingFormProps> = ({ fixedLocation, onBooked }) => {
+  const { user } = useAuth();
+  const [locations, setLocations] = useState<BookingLocation[]>(fixedLocation ? [fixedLocation] : []);
+  const [locationId, setLocationId] = useState<number | ''>(fixedLocation ? fixedLocation.id : '');
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<Customer[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [showGuestForm, setShowGuestForm] = useState(false);
+  const [guest, setGuest] = useState(emptyGuest);
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [licensePlate, setLicensePlate] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [booked, setBooked] = useState<BookedSummary | null>(null);
+
+  const location = locations.find(loc => loc.id === locationId) || null;
+  const locationTimeZone = location ? location.timeZone : null;
+  const listLocations = !fixedLocation;
+  // Only admins book anywhere; other staff book at their assigned location
+  const assignedLocationId = user && user.role !== 'admin' ? user.parkingLocationId ?? null : null;
+
+  useEffect(() => {
+    if (!listLocations) return;
+    axios.get('/api/locations')
+      .then(response => setLocations(response.data
+        .filter((loc: BookingLocation) => assignedLocationId === null || loc.id === assignedLocationId)
+        .map((loc: BookingLocation) => ({ id: loc.id, name: loc.name, timeZone: loc.timeZone }))))
+      .catch(() => setError('Failed to load locations.'));
+  }, [listLocations, assignedLocationId]);
+
+  // Times are entered in the chosen location's zone
+  useEffect(() => {
+    if (!locationTimeZone) return;
+    const defaults = defaultWindow(locationTimeZone);
+    setStartTime(defaults.start);
+    setEndTime(defaults.end);
+  }, [locationId, locationTimeZone]);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    if (customer || search.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const response = await axios.get('/api/customers', { params: { search: search.trim() } });
+        setResults(response.data);
+      } catch (err) {
+        const axiosErr = err as AxiosError<ErrorResponseData>;
+        setError(axiosErr.response?.data?.message || 'Failed to search customers.');
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search, customer]);
+
+  const selectCustomer = (selected: Customer) => {
+    setCustomer(selected);
+    setResults([]);
+    setShowGuestForm(false);
+    setError(null);
+  };
+
+  const handleAddGuest = async () => {
+    setError(null);
+    if (!guest.name.trim() || (!guest.email.trim() && !guest.phone.trim())) {
+      setError('A guest contact needs a name and an email address or phone number.');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const response = await axios.post('/api/customers/guests', guest);
+      selectCustomer(response.data);
+      setGuest(emptyGuest);
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      setError(axiosErr.response?.data?.message || 'Failed to add the guest contact.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setBooked(null);
+    if (!customer || !location) {
+      setError('Choose a customer and a location.');
+      return;
+    }
+    if (!startTime || !endTime || !dayjs(endTime).isAfter(dayjs(startTime))) {
+      setError('The end time must be after the start time.');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const response = await axios.post('/api/locations/bookings', {
+        parkingLocationId: location.id,
+        customerId: customer.id,
+        startTime: fromTimeZoneInputValue(startTime, location.timeZone),
+        endTime: fromTimeZoneInputValue(endTime, location.timeZone),
+        licensePlateBooked: licensePlate.trim() || null
+      });
+      setBooked({
+        customerName: customer.name,
+        locationName: location.name,
+        startTime: response.data.startTime,
+        endTime: response.data.endTime,
+        timeZone: location.timeZone,
+        confirmationCode: response.data.confirmationCode
+      });
+      setCustomer(null);
+      setSearch('');
+      setLicensePlate('');
+      onBooked?.();
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      setError(axiosErr.response?.data?.message || 'Failed to create the booking.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 rounded-md flex items-center text-sm">
+          <AlertCircle className="h-5 w-5 mr-2 shrink-0" /> <p>{error}</p>
+        </div>
+      )}
+      {booked && (
+        <div className="bg-green-100 border-l-4 border-green-500 text-green-700 p-3 rounded-md flex items-start text-sm">
+          <CheckCircle className="h-5 w-5 mr-2 shrink-0" />
+          <p>
+            Booked {booked.locationName} for {booked.customerName},{' '}
+            {formatInTimeZone(booked.startTime, booked.timeZone, 'MMM D, h:mm A')} - {formatInTimeZone(booked.endTime, booked.timeZone, 'h:mm A')}.
+            Confirmation code: <span className="font-mono font-semibold">{booked.confirmationCode}</span>
+          </p>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-secondary-700 mb-1">Customer</label>
+        {customer ? (
+          <div className="flex items-center justify-between p-3 bg-primary-50 border border-primary-200 rounded-md">
+            <div>
+              <p className="font-medium text-secondary-900">
+                {customer.name}
+                {customer.isGuest && <span className="ml-2 text-xs font-normal text-secondary-500">(guest)</span>}
+              </p>
+              <p className="text-sm text-secondary-600">{describeCustomer(customer)}</p>
+            </div>
+            <button type="button" onClick={() => setCustomer(null)} className="p-1 text-secondary-500 hover:text-secondary-800" title="Choose another customer">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="relative">
+              <Search className="absolute left-3 top-2.5 h-5 w-5 text-secondary-400" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by name, email or phone"
+                className={`${inputClass} pl-10`}
+              />
+              {searching && <Loader2 className="absolute right-3 top-2.5 h-5 w-5 animate-spin text-secondary-400" />}
+            </div>
+            {results.length > 0 && (
+              <ul className="mt-2 border border-secondary-200 rounded-md divide-y divide-secondary-100 max-h-56 overflow-y-auto">
+                {results.map(result => (
+                  <li key={result.id}>
+                    <button type="button" onClick={() => selectCustomer(result)} className="w-full text-left px-3 py-2 hover:bg-secondary-50">
+                      <span className="font-medium text-secondary-900">{result.name}</span>
+                      {result.isGuest && <span className="ml-2 text-xs text-secondary-500">(guest)</span>}
+                      <span className="block text-sm text-secondary-600">{describeCustomer(result)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {!searching && search.trim().length >= 2 && results.length === 0 && (
+              <p className="mt-2 text-sm text-secondary-500">No customers found.</p>
+            )}
+
+            {showGuestForm ? (
+              <div className="mt-3 p-3 border border-secondary-200 rounded-md space-y-2">
+                <p className="text-sm font-medium text-secondary-700">New guest contact</p>
+                <input type="text" value={guest.name} onChange={(e) => setGuest(prev => ({ ...prev, name: e.target.value }))} placeholder="Name" className={inputClass} />
+                <input type="email" value={guest.email} onChange={(e) => setGuest(prev => ({ ...prev, email: e.target.value }))} placeholder="Email (optional if a phone is given)" className={inputClass} />
+                <input type="tel" value={guest.phone} onChange={(e) => setGuest(prev => ({ ...prev, phone: e.target.value }))} placeholder="Phone (optional if an email is given)" className={inputClass} />
+                <div className="flex gap-2">
+                  <button type="button" onClick={handleAddGuest} disabled={isSubmitting} className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-60">
+                    Add Guest
+                  </button>
+                  <button type="button" onClick={() => { setShowGuestForm(false); setGuest(emptyGuest); }} className="px-3 py-1.5 text-sm text-secondary-700 hover:text-secondary-900">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button type="button" onClick={() => setShowGuestForm(true)} className="mt-2 text-sm text-primary-600 hover:text-primary-800 flex items-center">
+                <UserPlus className="h-4 w-4 mr-1" /> New guest contact
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {!fixedLocation && (
+        <div>
+          <label className="block text-sm font-medium text-secondary-700 mb-1">Location</label>
+          <select value={locationId} onChange={(e) => setLocationId(e.target.value ? Number(e.target.value) : '')} className={inputClass}>
+            <option value="">Choose a location</option>
+            {locations.map(loc => <option key={loc.id} value={loc.id}>{loc.name}</option>)}
+          </select>
+        </div>
+      )}
+
+      {location && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 mb-1">Start</label>
+              <input type="datetime-local" value={startTime} onChange={(e) => setStartTime(e.target.value)} className={inputClass} required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 mb-1">End</label>
+              <input type="datetime-local" value={endTime} min={startTime} onChange={(e) => setEndTime(e.target.value)} className={inputClass} required />
+            </div>
+          </div>
+          <p className="text-xs text-secondary-500">Times are local to the car park ({location.timeZone}).</p>
+        </>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-secondary-700 mb-1">License Plate (optional)</label>
+        <input type="text" value={licensePlate} onChange={(e) => setLicensePlate(e.target.value.toUpperCase())} placeholder="e.g., MH12AB1234" className={inputClass} />
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting || !customer || !location}
+        className="w-full px-4 py-2.5 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-60 disabled:cursor-not-allowed flex items-center justify-center"
+      >
+        {isSubmitting && <Loader2 className="h-5 w-5 mr-2 animate-spin" />} Book for Customer
+      </button>
+    </form>
+  );
+};
+
+export default StaffBookingForm;
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { AxiosError } from 'axios';
+import { MailCheck } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface ErrorResponseData {
+  message?: string;
+}
+
+// Shown on every page while a logged-in user's email address is still unverified
+const EmailVerificationBanner: React.FC = () => {
+  const { user, resendVerificationEmail, refreshUser } = useAuth();
+  const [sending, setSending] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  if (!user || user.emailVerified !== false) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setSending(true);
+    setNotice(null);
+    try {
+      setNotice(await resendVerificationEmail());
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      setNotice(axiosErr.response?.data?.message || 'Failed to resend verification email.');
+      // The address may have been verified in another tab in the meantime
+      refreshUser().catch(() => undefined);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="flex items-center text-sm text-yellow-800">
+          <MailCheck className="h-5 w-5 mr-2 flex-shrink-0" />
+          <span>
+            Please verify <span className="font-semibold">{user.email}</span> to start booking. Check your inbox for the verification link.
+            {notice && <span className="ml-2 text-yellow-700">{notice}</span>}
+          </span>
+        </div>
+        <button
+          onClick={handleResend}
+          disabled={sending}
+          className="self-start sm:self-auto px-3 py-1.5 text-xs font-medium rounded-md bg-yellow-200 text-yellow-900 hover:bg-yellow-300 disabled:opacity-60 disabled:cursor-not-allowed whitespace-nowrap"
+        >
+          {sending ? 'Sending...' : 'Resend email'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EmailVerificationBanner;
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { Menu, X, LogOut, Car, UserCircle } from 'lucide-react';
+import { getHomePath, getBackOfficePages } from '../../utils/access';
 
 const Navbar: React.FC = () => {
   const { user, logout } = useAuth();
@@ -17,20 +18,10 @@ const Navbar: React.FC = () => {
     setIsMenuOpen(!isMenuOpen);
   };
 
-  const getDashboardLink = () => {
-    if (!user) return '/';
-    
-    switch (user.role) {
-      case 'admin':
-        return '/admin/dashboard';
-      case 'employee':
-        return '/employee/dashboard';
-      case 'user':
-        return '/user/dashboard';
-      default:
-        return '/';
-    }
-  };
+  const getDashboardLink = () => getHomePath(user);
+
+  // Back-office pages this user may open, apart from the one "Dashboard" already points to
+  const extraPages = user ? getBackOfficePages(user).filter(page => page.path !== getDashboardLink()) : [];
 
   return (
     <nav className="bg-primary-800 text-white shadow-md">
@@ -54,6 +45,15 @@ const Navbar: React.FC = () => {
                 <Link to={getDashboardLink()} className="px-3 py-2 rounded-md hover:bg-primary-700 transition-colors">
                   Dashboard
                 </Link>
+                {extraPages.map(page => (
+                  <Link key={page.path} to={page.path} className="px-2 py-2 rounded-md hover:bg-primary-700 transition-colors">
+                    {page.label}
+                  </Link>
+                ))}
+                <Link to="/profile" className="flex items-center px-3 py-2 rounded-md hover:bg-primary-700 transition-colors">
+                  <UserCircle className="h-4 w-4 mr-1" />
+                  Profile
+                </Link>
                 <button
                   onClick={handleLogout}
                   className="flex items-center px-3 py-2 rounded-md bg-primary-600 hover:bg-primary-500 transition-colors"
@@ -107,6 +107,23 @@ const Navbar: React.FC = () => {
                 >
                   Dashboard
                 </Link>
+                {extraPages.map(page => (
+                  <Link 
+                    key={page.path}
+                    to={page.path} 
+                    className="block px-3 py-2 rounded-md hover:bg-primary-700 transition-colors"
+                    onClick={() => setIsMenuOpen(false)}
+                  >
+                    {page.label}
+                  </Link>
+                ))}
+                <Link 
+                  to="/profile" 
+                  className="block px-3 py-2 rounded-md hover:bg-primary-700 transition-colors"
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  Profile
+                </Link>
                 <button
                   onClick={() => {
                     handleLogout();
@@ -1,14 +1,15 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { getHomePath } from '../../utils/access';
 
 type ProtectedRouteProps = {
   children: React.ReactNode;
-  allowedRoles: string[];
+  permission?: string; // Omit to allow any logged-in user
 };
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, allowedRoles }) => {
-  const { user, loading } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission }) => {
+  const { user, loading, hasPermission } = useAuth();
 
   if (loading) {
     return <div className="flex justify-center items-center h-screen">Loading...</div>;
@@ -18,21 +19,12 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, allowedRoles
     return <Navigate to="/login" replace />;
   }
 
-  if (!allowedRoles.includes(user.role)) {
-    // Redirect to appropriate dashboard based on role
-    switch (user.role) {
-      case 'admin':
-        return <Navigate to="/admin/dashboard" replace />;
-      case 'employee':
-        return <Navigate to="/employee/dashboard" replace />;
-      case 'user':
-        return <Navigate to="/user/dashboard" replace />;
-      default:
-        return <Navigate to="/" replace />;
-    }
+  if (permission && !hasPermission(permission)) {
+    // Redirect to the first page this user is allowed to see
+    return <Navigate to={getHomePath(user)} replace />;
   }
 
   return <>{children}</>;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Copy, Download, ShieldCheck } from 'lucide-react';
+
+interface RecoveryCodesPanelProps {
+  codes: string[];
+}
+
+// Recovery codes are only ever shown once, right after they are generated
+const RecoveryCodesPanel: React.FC<RecoveryCodesPanelProps> = ({ codes }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy recovery codes:', err);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`ParkEase recovery codes\n\n${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'parkease-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="border border-yellow-300 bg-yellow-50 rounded-md p-4">
+      <div className="flex items-center text-yellow-800 mb-2">
+        <ShieldCheck className="h-5 w-5 mr-2" />
+        <h3 className="text-sm font-semibold">Save your recovery codes</h3>
+      </div>
+      <p className="text-xs text-yellow-800 mb-3">
+        Each code can be used once to sign in if you lose access to your authenticator app. They won't be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-secondary-900 mb-3">
+        {codes.map(code => (
+          <li key={code} className="bg-white border border-yellow-200 rounded px-2 py-1 text-center">{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex items-center px-3 py-1.5 text-xs font-medium rounded-md bg-white border border-secondary-300 text-secondary-700 hover:bg-secondary-50"
+        >
+          <Copy className="h-4 w-4 mr-1" /> {copied ? 'Copied!' : 'Copy'}
+        </button>
+        <button
+          type="button"
+          onClick={handleDownload}
+          className="flex items-center px-3 py-1.5 text-xs font-medium rounded-md bg-white border border-secondary-300 text-secondary-700 hover:bg-secondary-50"
+        >
+          <Download className="h-4 w-4 mr-1" /> Download
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodesPanel;
@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import axios, { AxiosError } from 'axios';
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import { MonitorSmartphone, AlertCircle, CheckCircle, LogOut } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+
+dayjs.extend(relativeTime);
+
+interface ErrorResponseData {
+  message?: string;
+}
+
+interface ActiveSession {
+  id: number;
+  device: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+interface SessionsPanelProps {
+  // When set, shows and revokes another user's sessions through the admin API instead of the current user's
+  userId?: number;
+}
+
+// Lists the devices an account is logged in on, with buttons to sign them out
+const SessionsPanel: React.FC<SessionsPanelProps> = ({ userId }) => {
+  const { logout } = useAuth();
+  const [sessions, setSessions] = useState<ActiveSession[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const isAdminView = userId !== undefined;
+  const baseUrl = isAdminView ? `/api/admin/users/${userId}/sessions` : '/api/auth/sessions';
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const response = await axios.get(baseUrl);
+      setSessions(response.data);
+    } catch (err) {
+      console.error('Error fetching sessions:', err);
+      setError('Failed to load sessions.');
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  // Wraps each request with the shared submitting/error/message handling
+  const run = async (request: () => Promise<string>, fallbackError: string) => {
+    setSubmitting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setMessage(await request());
+      await fetchSessions();
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      setError(axiosErr.response?.data?.message || fallbackError);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = (session: ActiveSession) => {
+    if (session.current) {
+      // Signing out this device is just a logout
+      logout();
+      return;
+    }
+    return run(async () => {
+      const response = await axios.delete(`${baseUrl}/${session.id}`);
+      return response.data.message;
+    }, 'Failed to sign out session.');
+  };
+
+  const handleRevokeAll = () => run(async () => {
+    const response = isAdminView
+      ? await axios.post(`/api/admin/users/${userId}/revoke-sessions`)
+      : await axios.post('/api/auth/sessions/revoke-others');
+    return response.data.message;
+  }, 'Failed to sign out sessions.');
+
+  const otherSessionCount = sessions ? sessions.filter(session => !session.current).length : 0;
+
+  return (
+    <div className={isAdminView ? '' : 'bg-white shadow-md rounded-lg p-6'}>
+      {!isAdminView && (
+        <h2 className="text-xl font-semibold text-secondary-800 mb-4 flex items-center">
+          <MonitorSmartphone className="h-6 w-6 text-primary-600 mr-2" />
+          Active sessions
+        </h2>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border-l-4 border-red-500 text-red-700 flex items-center text-sm">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          <p>{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="mb-4 p-3 bg-green-50 border-l-4 border-green-500 text-green-700 flex items-center text-sm">
+          <CheckCircle className="h-5 w-5 mr-2" />
+          <p>{message}</p>
+        </div>
+      )}
+
+      {!sessions ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-secondary-600">No active sessions.</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-secondary-100 mb-4">
+            {sessions.map(session => (
+              <li key={session.id} className="flex justify-between items-center py-3">
+                <div className="text-sm">
+                  <div className="font-medium text-secondary-900">
+                    {session.device}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">This device</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-secondary-500" title={session.userAgent || undefined}>
+                    {session.ipAddress || 'Unknown IP'} · Last active {dayjs(session.lastSeenAt).fromNow()} · Signed in {dayjs(session.createdAt).format('MMM D, YYYY')}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRevoke(session)}
+                  disabled={submitting}
+                  className="flex items-center px-3 py-1.5 text-xs font-medium rounded-md text-red-700 bg-red-50 hover:bg-red-100 disabled:opacity-50"
+                >
+                  <LogOut className="h-4 w-4 mr-1" />
+                  Sign out
+                </button>
+              </li>
+            ))}
+          </ul>
+          {(isAdminView || otherSessionCount > 0) && (
+            <button
+              onClick={handleRevokeAll}
+              disabled={submitting}
+              className="px-4 py-2 text-sm font-medium rounded-md bg-secondary-100 text-secondary-700 hover:bg-secondary-200 disabled:opacity-50"
+            >
+              {isAdminView ? 'Sign out all sessions' : 'Sign out all other sessions'}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SessionsPanel;
@@ -0,0 +1,255 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import axios, { AxiosError } from 'axios';
+import dayjs from 'dayjs';
+import { Smartphone, AlertCircle, CheckCircle, ShieldCheck } from 'lucide-react';
+import { TwoFactorEnrollment } from '../../contexts/AuthContext';
+import RecoveryCodesPanel from './RecoveryCodesPanel';
+
+interface ErrorResponseData {
+  message?: string;
+}
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Enrol, manage recovery codes for, or turn off TOTP two-factor authentication (staff accounts only)
+const TwoFactorSettings: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [action, setAction] = useState<'disable' | 'regenerate' | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await axios.get('/api/auth/2fa/status');
+      setStatus(response.data);
+    } catch (err) {
+      console.error('Error fetching two-factor status:', err);
+      setError('Failed to load two-factor status.');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const resetForm = () => {
+    setCode('');
+    setPassword('');
+    setAction(null);
+  };
+
+  // Wraps each request with the shared submitting/error/message handling
+  const run = async (request: () => Promise<void>, fallbackError: string) => {
+    setSubmitting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await request();
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      setError(axiosErr.response?.data?.message || fallbackError);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleStartSetup = () => run(async () => {
+    const response = await axios.post('/api/auth/2fa/setup');
+    setEnrollment(response.data);
+    setRecoveryCodes([]);
+  }, 'Failed to start two-factor setup.');
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const response = await axios.post('/api/auth/2fa/enable', { code: code.trim() });
+      setRecoveryCodes(response.data.recoveryCodes);
+      setEnrollment(null);
+      setMessage(response.data.message);
+      resetForm();
+      await fetchStatus();
+    }, 'Failed to enable two-factor authentication.');
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const response = await axios.post('/api/auth/2fa/disable', { password, code: code.trim() });
+      setRecoveryCodes([]);
+      setMessage(response.data.message);
+      resetForm();
+      await fetchStatus();
+    }, 'Failed to disable two-factor authentication.');
+  };
+
+  const handleRegenerate = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const response = await axios.post('/api/auth/2fa/recovery-codes', { code: code.trim() });
+      setRecoveryCodes(response.data.recoveryCodes);
+      setMessage(response.data.message);
+      resetForm();
+      await fetchStatus();
+    }, 'Failed to regenerate recovery codes.');
+  };
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      placeholder="6-digit code"
+      className="w-full px-3 py-2 border border-secondary-300 rounded-md font-mono tracking-widest focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+    />
+  );
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6">
+      <h2 className="text-xl font-semibold text-secondary-800 mb-4 flex items-center">
+        <Smartphone className="h-6 w-6 text-primary-600 mr-2" />
+        Two-factor authentication
+      </h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border-l-4 border-red-500 text-red-700 flex items-center text-sm">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          <p>{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="mb-4 p-3 bg-green-50 border-l-4 border-green-500 text-green-700 flex items-center text-sm">
+          <CheckCircle className="h-5 w-5 mr-2" />
+          <p>{message}</p>
+        </div>
+      )}
+
+      {recoveryCodes.length > 0 && (
+        <div className="mb-4">
+          <RecoveryCodesPanel codes={recoveryCodes} />
+        </div>
+      )}
+
+      {!status ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      ) : status.enabled ? (
+        <div className="space-y-4">
+          <div className="flex items-center text-sm text-green-700">
+            <ShieldCheck className="h-5 w-5 mr-2" />
+            Enabled{status.enabledAt ? ` since ${dayjs(status.enabledAt).format('MMM D, YYYY')}` : ''}.
+            {' '}{status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+          </div>
+          {status.required && (
+            <p className="text-xs text-secondary-500">Two-factor authentication is required for your role, so it can't be turned off.</p>
+          )}
+
+          {action === null && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setAction('regenerate')}
+                className="px-4 py-2 text-sm font-medium rounded-md bg-secondary-100 text-secondary-700 hover:bg-secondary-200"
+              >
+                New recovery codes
+              </button>
+              {!status.required && (
+                <button
+                  onClick={() => setAction('disable')}
+                  className="px-4 py-2 text-sm font-medium rounded-md bg-red-50 text-red-700 hover:bg-red-100"
+                >
+                  Turn off
+                </button>
+              )}
+            </div>
+          )}
+
+          {action !== null && (
+            <form onSubmit={action === 'disable' ? handleDisable : handleRegenerate} className="space-y-3 max-w-sm">
+              {action === 'disable' && (
+                <input
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Current password"
+                  className="w-full px-3 py-2 border border-secondary-300 rounded-md focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                />
+              )}
+              {codeInput}
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="px-4 py-2 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:bg-primary-300"
+                >
+                  {submitting ? 'Please wait...' : action === 'disable' ? 'Turn off two-factor' : 'Generate new codes'}
+                </button>
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 text-sm font-medium rounded-md text-secondary-700 hover:bg-secondary-100"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      ) : enrollment ? (
+        <form onSubmit={handleEnable} className="space-y-4">
+          <p className="text-sm text-secondary-600">
+            Scan this QR code with an authenticator app (Google Authenticator, Authy, 1Password...), then enter the 6-digit code it shows.
+          </p>
+          <img src={enrollment.qrCodeDataUrl} alt="Two-factor QR code" className="h-48 w-48" />
+          <p className="text-xs text-secondary-500">
+            Can't scan it? Enter this key manually: <span className="font-mono break-all text-secondary-800">{enrollment.secret}</span>
+          </p>
+          <div className="max-w-sm">{codeInput}</div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:bg-primary-300"
+            >
+              {submitting ? 'Verifying...' : 'Enable'}
+            </button>
+            <button
+              type="button"
+              onClick={() => { setEnrollment(null); resetForm(); }}
+              className="px-4 py-2 text-sm font-medium rounded-md text-secondary-700 hover:bg-secondary-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-secondary-600">
+            Protect your account with a one-time code from an authenticator app in addition to your password.
+          </p>
+          <button
+            onClick={handleStartSetup}
+            disabled={submitting}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:bg-primary-300"
+          >
+            Set up two-factor authentication
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -1,25 +1,136 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import axios from 'axios';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 
 type User = {
   id: number;
   name: string;
   email: string;
-  role: 'admin' | 'employee' | 'user';
+  role: string; // 'admin', 'employee', 'user' or the name of a custom role
+  permissions?: string[];
   parkingLocationId?: number;
+  emailVerified?: boolean;
+  authVersion?: number; // Changes whenever role/location/profile change server-side
+};
+
+// Outcome of the password step: signed in, or a second step is needed using the short-lived challenge token
+export type LoginResult =
+  | { status: 'ok' }
+  | { status: 'two-factor'; challengeToken: string }
+  | { status: 'two-factor-setup'; challengeToken: string };
+
+// Query parameters the identity provider appends when it redirects back to /login/sso/callback
+export type SsoCallbackParams = {
+  code?: string;
+  state?: string;
+  error?: string;
+};
+
+// The state and browser key of the sign-in this tab sent to the identity provider. A callback that doesn't match
+// was started elsewhere, e.g. a link crafted to sign this browser into someone else's account.
+const SSO_ATTEMPT_KEY = 'ssoLoginAttempt';
+type SsoAttempt = { state: string; browserKey: string };
+
+const takeSsoAttempt = (): SsoAttempt | null => {
+  const stored = sessionStorage.getItem(SSO_ATTEMPT_KEY);
+  sessionStorage.removeItem(SSO_ATTEMPT_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as SsoAttempt;
+  } catch {
+    return null;
+  }
+};
+
+export type TwoFactorEnrollment = {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+};
+
+export type ProfileChanges = {
+  name?: string;
+  email?: string;
+  currentPassword?: string; // Required when the email changes
 };
 
 type AuthContextType = {
   user: User | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  startSsoLogin: () => Promise<void>;
+  completeSsoLogin: (callback: SsoCallbackParams) => Promise<LoginResult>;
+  completeTwoFactorLogin: (challengeToken: string, factor: { code?: string; recoveryCode?: string }) => Promise<void>;
+  startTwoFactorSetup: (challengeToken: string) => Promise<TwoFactorEnrollment>;
+  confirmTwoFactorSetup: (challengeToken: string, code: string) => Promise<string[]>;
   register: (name: string, email: string, password: string) => Promise<void>;
   logout: () => void;
+  refreshUser: () => Promise<void>;
+  hasPermission: (permission: string) => boolean;
+  updateProfile: (changes: ProfileChanges) => Promise<string>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<string>;
+  resendVerificationEmail: () => Promise<string>;
   error: string | null;
 };
 
+// Body of a successful /login or /oidc/callback response
+type LoginResponseData = {
+  token?: string;
+  refreshToken?: string;
+  user?: User;
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+  challengeToken?: string;
+};
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Auth endpoints that must never trigger a silent refresh (they either issue tokens or end the session)
+const NO_REFRESH_URLS = [
+  '/api/auth/login',
+  '/api/auth/login/2fa',
+  '/api/auth/login/2fa/setup',
+  '/api/auth/login/2fa/setup/confirm',
+  '/api/auth/oidc/authorize',
+  '/api/auth/oidc/callback',
+  '/api/auth/register',
+  '/api/auth/refresh',
+  '/api/auth/logout'
+];
+
+// refreshToken is null when the server answered a refresh that raced another one: keep the stored token
+const storeTokens = (token: string, refreshToken: string | null) => {
+  localStorage.setItem('token', token);
+  if (refreshToken) localStorage.setItem('refreshToken', refreshToken);
+  axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+};
+
+const clearTokens = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  delete axios.defaults.headers.common['Authorization'];
+};
+
+// Shared between concurrent 401s so the refresh token is only rotated once
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = () => {
+  if (!refreshPromise) {
+    const refreshToken = localStorage.getItem('refreshToken');
+    refreshPromise = axios
+      .post('/api/auth/refresh', { refreshToken })
+      .then(response => {
+        storeTokens(response.data.token, response.data.refreshToken);
+        return response.data.token as string;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
 export const useAuth = () => {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -32,6 +143,66 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const userRef = useRef<User | null>(null);
+  const syncingUser = useRef(false);
+
+  useEffect(() => {
+    userRef.current = user;
+  }, [user]);
+
+  useEffect(() => {
+    // Every authenticated response carries the user's current auth version. If it differs from ours
+    // (e.g. an admin moved this employee to another location), re-fetch the user without a re-login.
+    const syncUserIfStale = (version: unknown) => {
+      const current = userRef.current;
+      if (version === undefined || !current || current.authVersion === undefined) return;
+      if (Number(version) === current.authVersion || syncingUser.current) return;
+
+      syncingUser.current = true;
+      axios.get('/api/auth/me')
+        .then(response => setUser(response.data))
+        .catch(err => console.error('Error refreshing user after a server-side change:', err))
+        .finally(() => {
+          syncingUser.current = false;
+        });
+    };
+
+    // Silently refresh the access token when a request fails with 401, then replay the request once
+    const interceptorId = axios.interceptors.response.use(
+      response => {
+        syncUserIfStale(response.headers['x-auth-version']);
+        return response;
+      },
+      async (error: AxiosError) => {
+        const originalRequest = error.config as RetriableRequestConfig | undefined;
+        if (
+          error.response?.status !== 401 ||
+          !originalRequest ||
+          originalRequest._retried ||
+          NO_REFRESH_URLS.includes(originalRequest.url || '') ||
+          !localStorage.getItem('refreshToken')
+        ) {
+          return Promise.reject(error);
+        }
+
+        originalRequest._retried = true;
+        try {
+          const newToken = await refreshAccessToken();
+          originalRequest.headers['Authorization'] = `Bearer ${newToken}`;
+          return axios(originalRequest);
+        } catch {
+          // Refresh token expired or the session was revoked server-side
+          clearTokens();
+          setUser(null);
+          return Promise.reject(error);
+        }
+      }
+    );
+
+    return () => {
+      axios.interceptors.response.eject(interceptorId);
+    };
+  }, []);
 
   useEffect(() => {
     // Check if user is already logged in
@@ -45,10 +216,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           // Fetch the current user's data
           const response = await axios.get('/api/auth/me');
           setUser(response.data);
-        } catch (error) {
-          // If token is invalid, clear it
-          localStorage.removeItem('token');
-          delete axios.defaults.headers.common['Authorization'];
+        } catch {
+          // If the session can't be restored (even after a refresh attempt), clear it
+          clearTokens();
         }
       }
       setLoading(false);
@@ -57,35 +227,79 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     checkAuth();
   }, []);
 
-  const login = async (email: string, password: string) => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       setError(null);
       const response = await axios.post('/api/auth/login', { email, password });
-      
-      // Store the token in localStorage
-      localStorage.setItem('token', response.data.token);
-      
-      // Set the default Authorization header for all axios requests
-      axios.defaults.headers.common['Authorization'] = `Bearer ${response.data.token}`;
-      
-      // Set the user data
-      setUser(response.data.user);
+      return handleFirstFactorResponse(response.data);
     } catch (error: any) {
       setError(error.response?.data?.message || 'Failed to login');
       throw error;
     }
   };
 
+  // Shared by password and single sign-on logins
+  const handleFirstFactorResponse = (data: LoginResponseData): LoginResult => {
+    // First factor was right but a second factor is still needed
+    if (data.twoFactorRequired) {
+      return { status: 'two-factor', challengeToken: data.challengeToken as string };
+    }
+    if (data.twoFactorSetupRequired) {
+      return { status: 'two-factor-setup', challengeToken: data.challengeToken as string };
+    }
+
+    // Store the tokens and set the default Authorization header for all axios requests
+    storeTokens(data.token as string, data.refreshToken as string);
+
+    // Set the user data
+    setUser(data.user as User);
+    return { status: 'ok' };
+  };
+
+  // Leaves the app for the identity provider, which redirects back to /login/sso/callback
+  const startSsoLogin = async () => {
+    setError(null);
+    const response = await axios.post('/api/auth/oidc/authorize');
+    const attempt: SsoAttempt = { state: response.data.state, browserKey: response.data.browserKey };
+    sessionStorage.setItem(SSO_ATTEMPT_KEY, JSON.stringify(attempt));
+    window.location.assign(response.data.authorizationUrl);
+  };
+
+  const completeSsoLogin = async (callback: SsoCallbackParams) => {
+    const attempt = takeSsoAttempt();
+    if (!callback.error && (!attempt || attempt.state !== callback.state)) {
+      throw new Error('This sign-in was not started from this browser. Please try again.');
+    }
+    const response = await axios.post('/api/auth/oidc/callback', { ...callback, browserKey: attempt?.browserKey });
+    return handleFirstFactorResponse(response.data);
+  };
+
+  const completeTwoFactorLogin = async (challengeToken: string, factor: { code?: string; recoveryCode?: string }) => {
+    const response = await axios.post('/api/auth/login/2fa', { challengeToken, ...factor });
+    storeTokens(response.data.token, response.data.refreshToken);
+    setUser(response.data.user);
+  };
+
+  const startTwoFactorSetup = async (challengeToken: string) => {
+    const response = await axios.post('/api/auth/login/2fa/setup', { challengeToken });
+    return response.data as TwoFactorEnrollment;
+  };
+
+  // Finishes a mandatory enrolment and signs in; returns the recovery codes so they can be shown once
+  const confirmTwoFactorSetup = async (challengeToken: string, code: string) => {
+    const response = await axios.post('/api/auth/login/2fa/setup/confirm', { challengeToken, code });
+    storeTokens(response.data.token, response.data.refreshToken);
+    setUser(response.data.user);
+    return response.data.recoveryCodes as string[];
+  };
+
   const register = async (name: string, email: string, password: string) => {
     try {
       setError(null);
       const response = await axios.post('/api/auth/register', { name, email, password });
       
-      // Store the token in localStorage
-      localStorage.setItem('token', response.data.token);
-      
-      // Set the default Authorization header for all axios requests
-      axios.defaults.headers.common['Authorization'] = `Bearer ${response.data.token}`;
+      // Store the tokens and set the default Authorization header for all axios requests
+      storeTokens(response.data.token, response.data.refreshToken);
       
       // Set the user data
       setUser(response.data.user);
@@ -95,19 +309,51 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Re-fetch the current user, e.g. after the email address was verified in another tab
+  const refreshUser = useCallback(async () => {
+    if (!localStorage.getItem('token')) return;
+    const response = await axios.get('/api/auth/me');
+    setUser(response.data);
+  }, []);
+
+  const hasPermission = useCallback(
+    (permission: string) => Boolean(user?.permissions?.includes(permission)),
+    [user]
+  );
+
+  // Both resolve with the server's confirmation message
+  const updateProfile = async (changes: ProfileChanges) => {
+    const response = await axios.patch('/api/auth/me', changes);
+    setUser(response.data.user);
+    return response.data.message as string;
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    const response = await axios.post('/api/auth/change-password', { currentPassword, newPassword });
+    return response.data.message as string;
+  };
+
+  const resendVerificationEmail = async () => {
+    const response = await axios.post('/api/auth/verify-email/resend');
+    return response.data.message as string;
+  };
+
   const logout = () => {
-    // Remove the token from localStorage
-    localStorage.removeItem('token');
-    
-    // Remove the Authorization header
-    delete axios.defaults.headers.common['Authorization'];
+    // Revoke the session server-side so the tokens stop working even if they were copied
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      axios.post('/api/auth/logout', { refreshToken }).catch(err => console.error('Error revoking session on logout:', err));
+    }
+
+    // Remove the tokens and the Authorization header
+    clearTokens();
     
     // Clear the user data
     setUser(null);
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, login, register, logout, error }}>
+    <AuthContext.Provider value={{ user, loading, login, startSsoLogin, completeSsoLogin, completeTwoFactorLogin, startTwoFactorSetup, confirmTwoFactorSetup, register, logout, refreshUser, hasPermission, updateProfile, changePassword, resendVerificationEmail, error }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import axios, { AxiosError } from 'axios';
+import { Mail, AlertCircle, CheckCircle } from 'lucide-react';
+
+interface ErrorResponseData {
+  message?: string;
+}
+
+const ForgotPasswordPage: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email) {
+      setFormError('Please enter your email address');
+      return;
+    }
+
+    try {
+      setFormError(null);
+      setSuccessMessage(null);
+      setLoading(true);
+      const response = await axios.post('/api/auth/password-reset/request', { email });
+      setSuccessMessage(response.data.message || 'If an account exists for this email, a password reset link has been sent.');
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      console.error('Password reset request error:', err);
+      setFormError(axiosErr.response?.data?.message || 'Failed to request a password reset');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-64px)] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-primary-50">
+      <div className="max-w-md w-full space-y-8 bg-white p-8 rounded-lg shadow-md">
+        <div className="text-center">
+          <h2 className="text-3xl font-extrabold text-secondary-900">Forgot your password?</h2>
+          <p className="mt-2 text-sm text-secondary-600">
+            Enter your email and we'll send you a link to choose a new one.
+          </p>
+        </div>
+
+        {formError && (
+          <div className="bg-red-50 border-l-4 border-red-500 p-4 flex items-start">
+            <AlertCircle className="h-5 w-5 text-red-500 mt-0.5 mr-2" />
+            <div>
+              <p className="text-sm text-red-700">{formError}</p>
+            </div>
+          </div>
+        )}
+
+        {successMessage && (
+          <div className="bg-green-50 border-l-4 border-green-500 p-4 flex items-start">
+            <CheckCircle className="h-5 w-5 text-green-500 mt-0.5 mr-2" />
+            <div>
+              <p className="text-sm text-green-700">{successMessage}</p>
+            </div>
+          </div>
+        )}
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          <div>
+            <label htmlFor="email-address" className="sr-only">Email address</label>
+            <input
+              id="email-address"
+              name="email"
+              type="email"
+              autoComplete="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="appearance-none relative block w-full px-3 py-2 border border-secondary-300 placeholder-secondary-500 text-secondary-900 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm"
+              placeholder="Email address"
+            />
+          </div>
+
+          <div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:bg-primary-300 disabled:cursor-not-allowed"
+            >
+              {loading ? (
+                <span className="absolute left-0 inset-y-0 flex items-center pl-3">
+                  <div className="h-5 w-5 border-t-2 border-b-2 border-white rounded-full animate-spin"></div>
+                </span>
+              ) : (
+                <span className="absolute left-0 inset-y-0 flex items-center pl-3">
+                  <Mail className="h-5 w-5 text-primary-400 group-hover:text-primary-300" aria-hidden="true" />
+                </span>
+              )}
+              {loading ? 'Sending link...' : 'Send reset link'}
+            </button>
+          </div>
+        </form>
+
+        <p className="text-center text-sm text-secondary-600">
+          <Link to="/login" className="font-medium text-primary-600 hover:text-primary-500">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
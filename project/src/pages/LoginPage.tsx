@@ -1,15 +1,126 @@
-import React, { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
-import { LogIn, AlertCircle } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
+import axios, { AxiosError } from 'axios';
+import { useAuth, LoginResult, TwoFactorEnrollment } from '../contexts/AuthContext';
+import { LogIn, AlertCircle, Smartphone, Building2 } from 'lucide-react';
+import RecoveryCodesPanel from '../components/common/RecoveryCodesPanel';
+
+interface ErrorResponseData {
+  message?: string;
+  retryAfterSeconds?: number;
+}
+
+type LoginStep = 'credentials' | 'two-factor' | 'two-factor-setup' | 'recovery-codes';
+
+const formatWait = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 
 const LoginPage: React.FC = () => {
-  const { login, error } = useAuth();
+  const { login, startSsoLogin, completeSsoLogin, completeTwoFactorLogin, startTwoFactorSetup, confirmTwoFactorSetup, error } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
+  const [step, setStep] = useState<LoginStep>('credentials');
+  const [challengeToken, setChallengeToken] = useState('');
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [ssoProviderName, setSsoProviderName] = useState<string | null>(null); // null = single sign-on not configured
+  const ssoCallbackSent = useRef(false); // Authorization codes are single-use, so don't submit twice under StrictMode
+
+  useEffect(() => {
+    axios.get('/api/auth/oidc/config')
+      .then(response => setSsoProviderName(response.data.enabled ? response.data.providerName : null))
+      .catch(err => console.error('Error loading single sign-on config:', err));
+  }, []);
+
+  // Count down while the server is refusing login attempts
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) setLockedUntil(null);
+    };
+    tick();
+    const intervalId = setInterval(tick, 1000);
+    return () => clearInterval(intervalId);
+  }, [lockedUntil]);
+
+  // Returns true if the error was a lockout (429), in which case the countdown replaces the error message
+  const handleLockout = (axiosErr: AxiosError<ErrorResponseData>) => {
+    const retryAfterSeconds = axiosErr.response?.data?.retryAfterSeconds;
+    if (axiosErr.response?.status !== 429 || !retryAfterSeconds) return false;
+    setFormError(null);
+    setLockedUntil(Date.now() + retryAfterSeconds * 1000);
+    return true;
+  };
+
+  // After the first factor (password or single sign-on): done, or on to the two-factor step
+  const handleLoginResult = useCallback(async (result: LoginResult) => {
+    if (result.status === 'two-factor') {
+      setChallengeToken(result.challengeToken);
+      setStep('two-factor');
+      return;
+    }
+    if (result.status === 'two-factor-setup') {
+      // Two-factor is mandatory for this role; enrol before the first session is issued
+      setChallengeToken(result.challengeToken);
+      setEnrollment(await startTwoFactorSetup(result.challengeToken));
+      setStep('two-factor-setup');
+      return;
+    }
+
+    // Redirect based on user role (handled in AuthContext)
+    navigate('/');
+  }, [navigate, startTwoFactorSetup]);
+
+  // The identity provider sends the browser back to /login/sso/callback with ?code&state (or ?error)
+  useEffect(() => {
+    const code = searchParams.get('code');
+    const providerError = searchParams.get('error');
+    if ((!code && !providerError) || ssoCallbackSent.current) return;
+    ssoCallbackSent.current = true;
+
+    const finishSso = async () => {
+      try {
+        setLoading(true);
+        const result = await completeSsoLogin({
+          code: code || undefined,
+          state: searchParams.get('state') || undefined,
+          error: providerError || undefined
+        });
+        await handleLoginResult(result);
+      } catch (err) {
+        const axiosErr = err as AxiosError<ErrorResponseData>;
+        console.error('Single sign-on error:', err);
+        // A callback this browser didn't start is rejected before it reaches the server
+        setFormError(axios.isAxiosError(err) ? axiosErr.response?.data?.message || 'Single sign-on failed' : (err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    finishSso();
+  }, [searchParams, completeSsoLogin, handleLoginResult]);
+
+  const handleSsoClick = async () => {
+    try {
+      setFormError(null);
+      setLoading(true);
+      await startSsoLogin();
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      console.error('Single sign-on error:', err);
+      setFormError(axiosErr.response?.data?.message || 'Could not start single sign-on');
+      setLoading(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -23,32 +134,88 @@ const LoginPage: React.FC = () => {
     try {
       setFormError(null);
       setLoading(true);
-      await login(email, password);
-      
-      // Redirect based on user role (handled in AuthContext)
-      navigate('/');
+      const result = await login(email, password);
+      await handleLoginResult(result);
     } catch (error: any) {
       console.error('Login error:', error);
+      if (handleLockout(error)) return;
       setFormError(error.response?.data?.message || 'Failed to login');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      setFormError(useRecoveryCode ? 'Please enter a recovery code' : 'Please enter the code from your authenticator app');
+      return;
+    }
+
+    try {
+      setFormError(null);
+      setLoading(true);
+      if (step === 'two-factor-setup') {
+        setRecoveryCodes(await confirmTwoFactorSetup(challengeToken, code.trim()));
+        setStep('recovery-codes');
+      } else {
+        await completeTwoFactorLogin(challengeToken, useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() });
+        navigate('/');
+      }
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      console.error('Two-factor login error:', err);
+      if (handleLockout(axiosErr)) return;
+      // An expired challenge means starting over from the password step
+      if (axiosErr.response?.status === 401) {
+        setStep('credentials');
+        setPassword('');
+      }
+      setFormError(axiosErr.response?.data?.message || 'Failed to verify code');
+    } finally {
+      setCode('');
+      setLoading(false);
+    }
+  };
+
+  const handleBackToCredentials = () => {
+    setStep('credentials');
+    setChallengeToken('');
+    setEnrollment(null);
+    setCode('');
+    setUseRecoveryCode(false);
+    setFormError(null);
+  };
+
   return (
     <div className="min-h-[calc(100vh-64px)] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-primary-50">
       <div className="max-w-md w-full space-y-8 bg-white p-8 rounded-lg shadow-md">
         <div className="text-center">
-          <h2 className="text-3xl font-extrabold text-secondary-900">Sign in to your account</h2>
-          <p className="mt-2 text-sm text-secondary-600">
-            Or{' '}
-            <Link to="/register" className="font-medium text-primary-600 hover:text-primary-500">
-              create a new account
-            </Link>
-          </p>
+          <h2 className="text-3xl font-extrabold text-secondary-900">
+            {step === 'credentials' ? 'Sign in to your account' : 'Two-factor authentication'}
+          </h2>
+          {step === 'credentials' && (
+            <p className="mt-2 text-sm text-secondary-600">
+              Or{' '}
+              <Link to="/register" className="font-medium text-primary-600 hover:text-primary-500">
+                create a new account
+              </Link>
+            </p>
+          )}
         </div>
         
-        {(formError || error) && (
+        {lockedUntil && (
+          <div className="bg-yellow-50 border-l-4 border-yellow-500 p-4 flex items-start">
+            <AlertCircle className="h-5 w-5 text-yellow-600 mt-0.5 mr-2" />
+            <div>
+              <p className="text-sm text-yellow-800">
+                Too many failed login attempts. You can try again in <span className="font-semibold">{formatWait(secondsLeft)}</span>.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {!lockedUntil && (formError || (step === 'credentials' && error)) && (
           <div className="bg-red-50 border-l-4 border-red-500 p-4 flex items-start">
             <AlertCircle className="h-5 w-5 text-red-500 mt-0.5 mr-2" />
             <div>
@@ -57,57 +224,167 @@ const LoginPage: React.FC = () => {
           </div>
         )}
         
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
-          <div className="rounded-md shadow-sm -space-y-px">
+        {step === 'recovery-codes' && (
+          <div className="space-y-6">
+            <p className="text-sm text-secondary-600">Two-factor authentication is now enabled for your account.</p>
+            <RecoveryCodesPanel codes={recoveryCodes} />
+            <button
+              type="button"
+              onClick={() => navigate('/')}
+              className="w-full py-2 px-4 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+            >
+              I've saved my codes, continue
+            </button>
+          </div>
+        )}
+
+        {(step === 'two-factor' || step === 'two-factor-setup') && (
+          <form className="mt-8 space-y-6" onSubmit={handleTwoFactorSubmit}>
+            {step === 'two-factor-setup' && enrollment && (
+              <div className="text-center space-y-3">
+                <p className="text-sm text-secondary-600">
+                  Your administrator requires two-factor authentication. Scan this QR code with an authenticator app, then enter the 6-digit code it shows.
+                </p>
+                <img src={enrollment.qrCodeDataUrl} alt="Two-factor QR code" className="mx-auto h-48 w-48" />
+                <p className="text-xs text-secondary-500">
+                  Can't scan it? Enter this key manually: <span className="font-mono break-all text-secondary-800">{enrollment.secret}</span>
+                </p>
+              </div>
+            )}
+            {step === 'two-factor' && (
+              <p className="text-sm text-secondary-600 text-center">
+                {useRecoveryCode
+                  ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+                  : 'Enter the 6-digit code from your authenticator app.'}
+              </p>
+            )}
+
             <div>
-              <label htmlFor="email-address" className="sr-only">Email address</label>
+              <label htmlFor="two-factor-code" className="sr-only">{useRecoveryCode ? 'Recovery code' : 'Authentication code'}</label>
               <input
-                id="email-address"
-                name="email"
-                type="email"
-                autoComplete="email"
-                required
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-secondary-300 placeholder-secondary-500 text-secondary-900 rounded-t-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm"
-                placeholder="Email address"
+                id="two-factor-code"
+                name="code"
+                type="text"
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                autoFocus
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="appearance-none relative block w-full px-3 py-2 border border-secondary-300 placeholder-secondary-500 text-secondary-900 rounded-md text-center tracking-widest font-mono focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                placeholder={useRecoveryCode ? 'xxxx-xxxx-xxxx' : '123456'}
               />
             </div>
-            <div>
-              <label htmlFor="password" className="sr-only">Password</label>
-              <input
-                id="password"
-                name="password"
-                type="password"
-                autoComplete="current-password"
-                required
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-secondary-300 placeholder-secondary-500 text-secondary-900 rounded-b-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm"
-                placeholder="Password"
-              />
+
+            <div className="flex justify-between text-sm">
+              <button type="button" onClick={handleBackToCredentials} className="font-medium text-secondary-600 hover:text-secondary-800">
+                Back
+              </button>
+              {step === 'two-factor' && (
+                <button
+                  type="button"
+                  onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); setFormError(null); }}
+                  className="font-medium text-primary-600 hover:text-primary-500"
+                >
+                  {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                </button>
+              )}
             </div>
-          </div>
 
-          <div>
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || !!lockedUntil}
               className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:bg-primary-300 disabled:cursor-not-allowed"
             >
-              {loading ? (
-                <span className="absolute left-0 inset-y-0 flex items-center pl-3">
+              <span className="absolute left-0 inset-y-0 flex items-center pl-3">
+                {loading ? (
                   <div className="h-5 w-5 border-t-2 border-b-2 border-white rounded-full animate-spin"></div>
-                </span>
-              ) : (
-                <span className="absolute left-0 inset-y-0 flex items-center pl-3">
-                  <LogIn className="h-5 w-5 text-primary-400 group-hover:text-primary-300" aria-hidden="true" />
-                </span>
-              )}
-              {loading ? 'Signing in...' : 'Sign in'}
+                ) : (
+                  <Smartphone className="h-5 w-5 text-primary-400 group-hover:text-primary-300" aria-hidden="true" />
+                )}
+              </span>
+              {loading ? 'Verifying...' : step === 'two-factor-setup' ? 'Enable and sign in' : 'Verify'}
             </button>
-          </div>
-        </form>
+          </form>
+        )}
+
+        {step === 'credentials' && (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            <div className="rounded-md shadow-sm -space-y-px">
+              <div>
+                <label htmlFor="email-address" className="sr-only">Email address</label>
+                <input
+                  id="email-address"
+                  name="email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-secondary-300 placeholder-secondary-500 text-secondary-900 rounded-t-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm"
+                  placeholder="Email address"
+                />
+              </div>
+              <div>
+                <label htmlFor="password" className="sr-only">Password</label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete="current-password"
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-secondary-300 placeholder-secondary-500 text-secondary-900 rounded-b-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm"
+                  placeholder="Password"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Link to="/forgot-password" className="text-sm font-medium text-primary-600 hover:text-primary-500">
+                Forgot your password?
+              </Link>
+            </div>
+
+            <div>
+              <button
+                type="submit"
+                disabled={loading || !!lockedUntil}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:bg-primary-300 disabled:cursor-not-allowed"
+              >
+                {loading ? (
+                  <span className="absolute left-0 inset-y-0 flex items-center pl-3">
+                    <div className="h-5 w-5 border-t-2 border-b-2 border-white rounded-full animate-spin"></div>
+                  </span>
+                ) : (
+                  <span className="absolute left-0 inset-y-0 flex items-center pl-3">
+                    <LogIn className="h-5 w-5 text-primary-400 group-hover:text-primary-300" aria-hidden="true" />
+                  </span>
+                )}
+                {loading ? 'Signing in...' : 'Sign in'}
+              </button>
+            </div>
+
+            {ssoProviderName && (
+              <>
+                <div className="flex items-center">
+                  <div className="flex-grow border-t border-secondary-200"></div>
+                  <span className="px-3 text-xs uppercase text-secondary-500">or</span>
+                  <div className="flex-grow border-t border-secondary-200"></div>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleSsoClick}
+                  disabled={loading}
+                  className="w-full flex justify-center items-center py-2 px-4 border border-secondary-300 text-sm font-medium rounded-md text-secondary-700 bg-white hover:bg-secondary-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Building2 className="h-5 w-5 mr-2 text-secondary-500" aria-hidden="true" />
+                  Sign in with {ssoProviderName}
+                </button>
+              </>
+            )}
+          </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { AxiosError } from 'axios';
+import { UserCircle, KeyRound, AlertCircle, CheckCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import TwoFactorSettings from '../components/common/TwoFactorSettings';
+import SessionsPanel from '../components/common/SessionsPanel';
+
+interface ErrorResponseData {
+  message?: string;
+}
+
+type Feedback = { type: 'success' | 'error'; message: string } | null;
+
+const FeedbackMessage: React.FC<{ feedback: Feedback }> = ({ feedback }) => {
+  if (!feedback) return null;
+  return feedback.type === 'success' ? (
+    <div className="mb-4 p-3 bg-green-50 border-l-4 border-green-500 text-green-700 flex items-center text-sm">
+      <CheckCircle className="h-5 w-5 mr-2" />
+      <p>{feedback.message}</p>
+    </div>
+  ) : (
+    <div className="mb-4 p-3 bg-red-50 border-l-4 border-red-500 text-red-700 flex items-center text-sm">
+      <AlertCircle className="h-5 w-5 mr-2" />
+      <p>{feedback.message}</p>
+    </div>
+  );
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-secondary-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+// Profile page shared by all roles: name/email, password, active sessions and (for staff) two-factor authentication
+const ProfilePage: React.FC = () => {
+  const { user, updateProfile, changePassword } = useAuth();
+
+  const [name, setName] = useState(user?.name || '');
+  const [email, setEmail] = useState(user?.email || '');
+  const [emailPassword, setEmailPassword] = useState('');
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [profileFeedback, setProfileFeedback] = useState<Feedback>(null);
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [passwordFeedback, setPasswordFeedback] = useState<Feedback>(null);
+
+  if (!user) return null;
+
+  const emailChanged = email.trim().toLowerCase() !== user.email.toLowerCase();
+
+  const handleProfileSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setProfileFeedback(null);
+
+    if (!name.trim() || !email.trim()) {
+      setProfileFeedback({ type: 'error', message: 'Name and email are required.' });
+      return;
+    }
+    if (emailChanged && !emailPassword) {
+      setProfileFeedback({ type: 'error', message: 'Enter your current password to change your email address.' });
+      return;
+    }
+
+    setSavingProfile(true);
+    try {
+      const message = await updateProfile({
+        name: name.trim(),
+        ...(emailChanged ? { email: email.trim(), currentPassword: emailPassword } : {})
+      });
+      setEmailPassword('');
+      setProfileFeedback({ type: 'success', message });
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      console.error('Error updating profile:', err);
+      setProfileFeedback({ type: 'error', message: axiosErr.response?.data?.message || 'Failed to update profile.' });
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordFeedback(null);
+
+    if (!currentPassword || !newPassword || !confirmPassword) {
+      setPasswordFeedback({ type: 'error', message: 'Please fill in all password fields.' });
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setPasswordFeedback({ type: 'error', message: 'New passwords do not match.' });
+      return;
+    }
+    if (newPassword.length < 6) {
+      setPasswordFeedback({ type: 'error', message: 'Password must be at least 6 characters long.' });
+      return;
+    }
+
+    setSavingPassword(true);
+    try {
+      const message = await changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setPasswordFeedback({ type: 'success', message });
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      console.error('Error changing password:', err);
+      setPasswordFeedback({ type: 'error', message: axiosErr.response?.data?.message || 'Failed to change password.' });
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-secondary-900 mb-2">My Profile</h1>
+        <p className="text-secondary-600">Manage your account details and how you sign in.</p>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-secondary-800 mb-4 flex items-center">
+          <UserCircle className="h-6 w-6 text-primary-600 mr-2" />
+          Account details
+        </h2>
+        <FeedbackMessage feedback={profileFeedback} />
+        <form onSubmit={handleProfileSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="profile-name" className="block text-sm font-medium text-secondary-700 mb-1">Name</label>
+            <input id="profile-name" type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="profile-email" className="block text-sm font-medium text-secondary-700 mb-1">
+              Email
+              {user.role === 'user' && user.emailVerified === false && !emailChanged && (
+                <span className="ml-2 text-xs font-normal text-yellow-700">(not verified yet)</span>
+              )}
+            </label>
+            <input id="profile-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClassName} />
+          </div>
+          {emailChanged && (
+            <div>
+              <label htmlFor="profile-email-password" className="block text-sm font-medium text-secondary-700 mb-1">Current password</label>
+              <input
+                id="profile-email-password"
+                type="password"
+                autoComplete="current-password"
+                value={emailPassword}
+                onChange={(e) => setEmailPassword(e.target.value)}
+                className={inputClassName}
+              />
+              {user.role === 'user' && (
+                <p className="mt-1 text-xs text-secondary-500">We'll send a verification link to the new address.</p>
+              )}
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={savingProfile}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:bg-primary-300"
+          >
+            {savingProfile ? 'Saving...' : 'Save changes'}
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-secondary-800 mb-4 flex items-center">
+          <KeyRound className="h-6 w-6 text-primary-600 mr-2" />
+          Change password
+        </h2>
+        <FeedbackMessage feedback={passwordFeedback} />
+        <form onSubmit={handlePasswordSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="current-password" className="block text-sm font-medium text-secondary-700 mb-1">Current password</label>
+            <input
+              id="current-password"
+              type="password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="new-password" className="block text-sm font-medium text-secondary-700 mb-1">New password</label>
+            <input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="confirm-new-password" className="block text-sm font-medium text-secondary-700 mb-1">Confirm new password</label>
+            <input
+              id="confirm-new-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={savingPassword}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:bg-primary-300"
+          >
+            {savingPassword ? 'Saving...' : 'Change password'}
+          </button>
+        </form>
+      </div>
+
+      {user.role !== 'user' && <TwoFactorSettings />}
+
+      <SessionsPanel />
+    </div>
+  );
+};
+
+export default ProfilePage;
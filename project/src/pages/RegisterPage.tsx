@@ -1,10 +1,15 @@
 import React, { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
+import { AxiosError } from 'axios';
 import { useAuth } from '../contexts/AuthContext';
-import { UserPlus, AlertCircle } from 'lucide-react';
+import { UserPlus, AlertCircle, MailCheck, CheckCircle } from 'lucide-react';
+
+interface ErrorResponseData {
+  message?: string;
+}
 
 const RegisterPage: React.FC = () => {
-  const { register, error } = useAuth();
+  const { register, resendVerificationEmail, error } = useAuth();
   const navigate = useNavigate();
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
@@ -12,6 +17,9 @@ const RegisterPage: React.FC = () => {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
+  const [pendingVerification, setPendingVerification] = useState(false);
+  const [resending, setResending] = useState(false);
+  const [resendNotice, setResendNotice] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -37,8 +45,8 @@ const RegisterPage: React.FC = () => {
       setLoading(true);
       await register(name, email, password);
       
-      // Redirect to home page after successful registration
-      navigate('/');
+      // New accounts must confirm their email before booking
+      setPendingVerification(true);
     } catch (error: any) {
       console.error('Registration error:', error);
       setFormError(error.response?.data?.message || 'Failed to register');
@@ -47,6 +55,57 @@ const RegisterPage: React.FC = () => {
     }
   };
 
+  const handleResend = async () => {
+    setResending(true);
+    setResendNotice(null);
+    try {
+      setResendNotice(await resendVerificationEmail());
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      setResendNotice(axiosErr.response?.data?.message || 'Failed to resend verification email');
+    } finally {
+      setResending(false);
+    }
+  };
+
+  if (pendingVerification) {
+    return (
+      <div className="min-h-[calc(100vh-64px)] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-primary-50">
+        <div className="max-w-md w-full space-y-6 bg-white p-8 rounded-lg shadow-md text-center">
+          <MailCheck className="h-12 w-12 text-primary-600 mx-auto" />
+          <h2 className="text-3xl font-extrabold text-secondary-900">Check your inbox</h2>
+          <p className="text-sm text-secondary-600">
+            We sent a verification link to <span className="font-semibold text-secondary-900">{email}</span>.
+            Open it to activate bookings on your account.
+          </p>
+
+          {resendNotice && (
+            <div className="bg-green-50 border-l-4 border-green-500 p-4 flex items-start text-left">
+              <CheckCircle className="h-5 w-5 text-green-500 mt-0.5 mr-2" />
+              <p className="text-sm text-green-700">{resendNotice}</p>
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-3 justify-center">
+            <button
+              onClick={handleResend}
+              disabled={resending}
+              className="px-4 py-2 text-sm font-medium rounded-md text-primary-700 bg-primary-100 hover:bg-primary-200 disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {resending ? 'Sending...' : 'Resend verification email'}
+            </button>
+            <button
+              onClick={() => navigate('/')}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+            >
+              Continue to ParkEase
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-[calc(100vh-64px)] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-primary-50">
       <div className="max-w-md w-full space-y-8 bg-white p-8 rounded-lg shadow-md">
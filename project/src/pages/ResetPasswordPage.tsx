@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import axios, { AxiosError } from 'axios';
+import { KeyRound, AlertCircle, CheckCircle } from 'lucide-react';
+
+interface ErrorResponseData {
+  message?: string;
+}
+
+const ResetPasswordPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const token = searchParams.get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [formError, setFormError] = useState<string | null>(token ? null : 'This reset link is missing its token. Please request a new one.');
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Form validation
+    if (!password || !confirmPassword) {
+      setFormError('Please enter and confirm your new password');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setFormError('Passwords do not match');
+      return;
+    }
+
+    if (password.length < 6) {
+      setFormError('Password must be at least 6 characters long');
+      return;
+    }
+
+    try {
+      setFormError(null);
+      setLoading(true);
+      const response = await axios.post('/api/auth/password-reset/confirm', { token, password });
+      setSuccessMessage(response.data.message || 'Password has been reset.');
+      setPassword('');
+      setConfirmPassword('');
+
+      // Send the user to the login page after a short pause
+      setTimeout(() => navigate('/login'), 3000);
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      console.error('Password reset error:', err);
+      setFormError(axiosErr.response?.data?.message || 'Failed to reset password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-64px)] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-primary-50">
+      <div className="max-w-md w-full space-y-8 bg-white p-8 rounded-lg shadow-md">
+        <div className="text-center">
+          <h2 className="text-3xl font-extrabold text-secondary-900">Choose a new password</h2>
+          <p className="mt-2 text-sm text-secondary-600">
+            Or{' '}
+            <Link to="/forgot-password" className="font-medium text-primary-600 hover:text-primary-500">
+              request a new reset link
+            </Link>
+          </p>
+        </div>
+
+        {formError && (
+          <div className="bg-red-50 border-l-4 border-red-500 p-4 flex items-start">
+            <AlertCircle className="h-5 w-5 text-red-500 mt-0.5 mr-2" />
+            <div>
+              <p className="text-sm text-red-700">{formError}</p>
+            </div>
+          </div>
+        )}
+
+        {successMessage && (
+          <div className="bg-green-50 border-l-4 border-green-500 p-4 flex items-start">
+            <CheckCircle className="h-5 w-5 text-green-500 mt-0.5 mr-2" />
+            <div>
+              <p className="text-sm text-green-700">{successMessage}</p>
+            </div>
+          </div>
+        )}
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          <div className="rounded-md shadow-sm -space-y-px">
+            <div>
+              <label htmlFor="password" className="sr-only">New password</label>
+              <input
+                id="password"
+                name="password"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-secondary-300 placeholder-secondary-500 text-secondary-900 rounded-t-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm"
+                placeholder="New password"
+              />
+            </div>
+            <div>
+              <label htmlFor="confirm-password" className="sr-only">Confirm new password</label>
+              <input
+                id="confirm-password"
+                name="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-secondary-300 placeholder-secondary-500 text-secondary-900 rounded-b-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm"
+                placeholder="Confirm new password"
+              />
+            </div>
+          </div>
+
+          <div>
+            <button
+              type="submit"
+              disabled={loading || !token || !!successMessage}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:bg-primary-300 disabled:cursor-not-allowed"
+            >
+              {loading ? (
+                <span className="absolute left-0 inset-y-0 flex items-center pl-3">
+                  <div className="h-5 w-5 border-t-2 border-b-2 border-white rounded-full animate-spin"></div>
+                </span>
+              ) : (
+                <span className="absolute left-0 inset-y-0 flex items-center pl-3">
+                  <KeyRound className="h-5 w-5 text-primary-400 group-hover:text-primary-300" aria-hidden="true" />
+                </span>
+              )}
+              {loading ? 'Saving...' : 'Reset password'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
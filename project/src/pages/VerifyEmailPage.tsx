@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import axios, { AxiosError } from 'axios';
+import { MailCheck, AlertCircle, CheckCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+
+interface ErrorResponseData {
+  message?: string;
+}
+
+const VerifyEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { user, refreshUser } = useAuth();
+  const token = searchParams.get('token') || '';
+  const [status, setStatus] = useState<'verifying' | 'success' | 'error'>(token ? 'verifying' : 'error');
+  const [message, setMessage] = useState<string>(token ? 'Verifying your email address...' : 'This verification link is missing its token.');
+  const requestSent = useRef(false); // Tokens are single-use, so don't submit twice under StrictMode
+
+  useEffect(() => {
+    if (!token || requestSent.current) return;
+    requestSent.current = true;
+
+    const verify = async () => {
+      try {
+        const response = await axios.post('/api/auth/verify-email', { token });
+        setStatus('success');
+        setMessage(response.data.message || 'Email address verified successfully.');
+        // Drop the "unverified" state if this browser is logged in
+        refreshUser().catch(err => console.error('Error refreshing user after verification:', err));
+      } catch (err) {
+        const axiosErr = err as AxiosError<ErrorResponseData>;
+        setStatus('error');
+        setMessage(axiosErr.response?.data?.message || 'Failed to verify email address.');
+      }
+    };
+
+    verify();
+  }, [token, refreshUser]);
+
+  return (
+    <div className="min-h-[calc(100vh-64px)] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-primary-50">
+      <div className="max-w-md w-full space-y-6 bg-white p-8 rounded-lg shadow-md text-center">
+        <MailCheck className="h-12 w-12 text-primary-600 mx-auto" />
+        <h2 className="text-3xl font-extrabold text-secondary-900">Email verification</h2>
+
+        {status === 'verifying' && (
+          <div className="flex items-center justify-center text-secondary-600">
+            <div className="h-5 w-5 mr-2 border-t-2 border-b-2 border-primary-500 rounded-full animate-spin"></div>
+            <p className="text-sm">{message}</p>
+          </div>
+        )}
+        {status === 'success' && (
+          <div className="bg-green-50 border-l-4 border-green-500 p-4 flex items-start text-left">
+            <CheckCircle className="h-5 w-5 text-green-500 mt-0.5 mr-2" />
+            <p className="text-sm text-green-700">{message}</p>
+          </div>
+        )}
+        {status === 'error' && (
+          <div className="bg-red-50 border-l-4 border-red-500 p-4 flex items-start text-left">
+            <AlertCircle className="h-5 w-5 text-red-500 mt-0.5 mr-2" />
+            <p className="text-sm text-red-700">
+              {message}{user ? ' You can request a new link from the banner at the top of the page.' : ' Sign in to request a new link.'}
+            </p>
+          </div>
+        )}
+
+        {status !== 'verifying' && (
+          <Link
+            to={user ? '/' : '/login'}
+            className="inline-block px-6 py-2 bg-primary-600 text-white font-medium rounded-md hover:bg-primary-700 transition-colors"
+          >
+            {user ? 'Continue to ParkEase' : 'Go to sign in'}
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailPage;
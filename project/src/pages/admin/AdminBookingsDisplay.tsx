@@ -1,15 +1,21 @@
 // src/pages/admin/AdminBookingsDisplay.tsx
-import React, { useState, useEffect } from 'react';
-import axios from 'axios';
+import React, { useState, useEffect, useCallback } from 'react';
+import axios, { AxiosError } from 'axios';
 import dayjs from 'dayjs';
-import { AlertCircle, CalendarDays, ListFilter } from 'lucide-react'; // Import necessary icons
+import { AlertCircle, CalendarDays, ListFilter, UserX, CalendarPlus, X } from 'lucide-react'; // Import necessary icons
+import { formatInTimeZone } from '../../utils/dateTime';
+import { useAuth } from '../../contexts/AuthContext';
+import StaffBookingForm from '../../components/booking/StaffBookingForm';
 
 // Define the structure of a Booking object based on backend response
 type Booking = {
     id: number;
+    userId: number;
     userName: string;
-    userEmail: string;
+    userEmail: string | null; // Guest contacts may only have a phone number
+    userPhone?: string | null;
     locationName: string;
+    locationTimeZone: string; // Times are shown in the location's zone
     startTime: string; // ISO date string
     endTime: string;   // ISO date string
     status: string;
@@ -18,36 +24,193 @@ type Booking = {
     actualEntryTime?: string | null; // ISO date string
     createdAt: string; // ISO date string
     checkedInByEmployeeName?: string | null;
+    checkedOutByEmployeeName?: string | null;
+    createdByUserId?: number | null; // Differs from the customer when staff booked on their behalf
+    createdByName?: string | null;
+    noShowFee?: number | null;
+    quotedAmount?: number | null; // Price shown to the user when booking
+    finalCost?: number | null;
 };
 
-const AdminBookingsDisplay: React.FC = () => {
-    const [bookings, setBookings] = useState<Booking[]>([]);
-    const [loading, setLoading] = useState(true);
+// GET /api/admin/reports/no-shows
+type NoShowReport = {
+    from: string;
+    to: string;
+    summary: {
+        locationId: number;
+        locationName: string;
+        dueBookings: number;
+        noShows: number;
+        noShowRate: number;
+        feesCharged: number;
+    }[];
+    bookings: {
+        id: number;
+        userName: string;
+        userEmail: string;
+        locationName: string;
+        locationTimeZone: string;
+        startTime: string;
+        noShowFee: number | null;
+    }[];
+};
+
+interface ErrorResponseData {
+    message?: string;
+}
+
+// No-show rate and fees per location for a date range, with the bookings behind the numbers
+const NoShowReportPanel: React.FC = () => {
+    const [from, setFrom] = useState(dayjs().subtract(29, 'day').format('YYYY-MM-DD'));
+    const [to, setTo] = useState(dayjs().format('YYYY-MM-DD'));
+    const [report, setReport] = useState<NoShowReport | null>(null);
+    const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    // Add state for filters if needed, e.g., date range, status, location
-    // const [filter, setFilter] = useState({ status: '', locationId: '', dateRange: null });
+    const [showBookings, setShowBookings] = useState(false);
 
     useEffect(() => {
-        const fetchBookings = async () => {
+        if (!from || !to) return;
+        const fetchReport = async () => {
             setLoading(true);
             setError(null);
             try {
-                const response = await axios.get('/api/admin/bookings');
-                setBookings(response.data);
-            } catch (err: any) {
-                console.error('Error fetching bookings for admin:', err);
-                setError(err.response?.data?.message || 'Failed to load bookings.');
+                const response = await axios.get('/api/admin/reports/no-shows', { params: { from, to } });
+                setReport(response.data);
+            } catch (err) {
+                const axiosErr = err as AxiosError<ErrorResponseData>;
+                setError(axiosErr.response?.data?.message || 'Failed to load the no-show report.');
             } finally {
                 setLoading(false);
             }
         };
-        fetchBookings();
-    }, []); // Add dependencies if you implement filtering
+        fetchReport();
+    }, [from, to]);
+
+    const totalNoShows = report ? report.summary.reduce((sum, row) => sum + row.noShows, 0) : 0;
+    const totalFees = report ? report.summary.reduce((sum, row) => sum + row.feesCharged, 0) : 0;
+
+    return (
+        <div className="bg-white shadow-md rounded-lg p-6 mb-8">
+            <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-4">
+                <h2 className="text-xl font-semibold text-secondary-900 flex items-center">
+                    <UserX className="h-6 w-6 text-orange-600 mr-2" /> No-Show Report
+                </h2>
+                <div className="flex items-end gap-3 text-sm">
+                    <label className="block">
+                        <span className="block text-xs text-secondary-500 mb-1">From</span>
+                        <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)}
+                            className="px-3 py-1.5 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500" />
+                    </label>
+                    <label className="block">
+                        <span className="block text-xs text-secondary-500 mb-1">To</span>
+                        <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)}
+                            className="px-3 py-1.5 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500" />
+                    </label>
+                </div>
+            </div>
+
+            {error && (
+                <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 mb-4 rounded-md flex items-center text-sm">
+                    <AlertCircle className="h-5 w-5 mr-2" /> <p>{error}</p>
+                </div>
+            )}
+            {loading && <p className="text-sm text-secondary-500">Loading report...</p>}
+
+            {report && !loading && (
+                report.summary.length === 0 ? (
+                    <p className="text-sm text-secondary-600">No bookings started in this period.</p>
+                ) : (
+                    <>
+                        <p className="text-sm text-secondary-600 mb-3">
+                            {totalNoShows} no-show(s), ₹{totalFees.toFixed(2)} in fees. The rate is out of bookings that were due (not cancelled).
+                        </p>
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full divide-y divide-secondary-200 text-sm">
+                                <thead className="bg-secondary-50">
+                                    <tr>
+                                        <th className="px-4 py-2 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Location</th>
+                                        <th className="px-4 py-2 text-right text-xs font-medium text-secondary-500 uppercase tracking-wider">Due Bookings</th>
+                                        <th className="px-4 py-2 text-right text-xs font-medium text-secondary-500 uppercase tracking-wider">No-Shows</th>
+                                        <th className="px-4 py-2 text-right text-xs font-medium text-secondary-500 uppercase tracking-wider">Rate</th>
+                                        <th className="px-4 py-2 text-right text-xs font-medium text-secondary-500 uppercase tracking-wider">Fees</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-secondary-200">
+                                    {report.summary.map(row => (
+                                        <tr key={row.locationId}>
+                                            <td className="px-4 py-2 text-secondary-700">{row.locationName}</td>
+                                            <td className="px-4 py-2 text-right text-secondary-700">{row.dueBookings}</td>
+                                            <td className="px-4 py-2 text-right text-secondary-700">{row.noShows}</td>
+                                            <td className="px-4 py-2 text-right text-secondary-700">{row.noShowRate.toFixed(1)}%</td>
+                                            <td className="px-4 py-2 text-right text-secondary-700">₹{row.feesCharged.toFixed(2)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {report.bookings.length > 0 && (
+                            <div className="mt-4">
+                                <button type="button" onClick={() => setShowBookings(prev => !prev)}
+                                    className="text-sm text-primary-600 hover:text-primary-800">
+                                    {showBookings ? 'Hide' : 'Show'} the {report.bookings.length} no-show booking(s)
+                                </button>
+                                {showBookings && (
+                                    <ul className="mt-2 divide-y divide-secondary-100 text-sm">
+                                        {report.bookings.map(booking => (
+                                            <li key={booking.id} className="py-2 flex justify-between gap-4">
+                                                <span className="text-secondary-700">
+                                                    #{booking.id} · {booking.userName} ({booking.userEmail}) · {booking.locationName}
+                                                </span>
+                                                <span className="text-secondary-500 whitespace-nowrap">
+                                                    {formatInTimeZone(booking.startTime, booking.locationTimeZone, 'MMM D, YYYY h:mm A')}
+                                                    {booking.noShowFee !== null && ` · ₹${booking.noShowFee.toFixed(2)}`}
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        )}
+                    </>
+                )
+            )}
+        </div>
+    );
+};
+
+const AdminBookingsDisplay: React.FC = () => {
+    const { user, hasPermission } = useAuth();
+    // Staff other than admins can only book at an assigned location (see POST /api/locations/bookings)
+    const canBookForCustomers = hasPermission('bookings:write') && (user?.role === 'admin' || !!user?.parkingLocationId);
+    const [bookings, setBookings] = useState<Booking[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [showBookingForm, setShowBookingForm] = useState(false);
+    // Add state for filters if needed, e.g., date range, status, location
+    // const [filter, setFilter] = useState({ status: '', locationId: '', dateRange: null });
+
+    // isInitialLoad shows the spinner; refreshing after a staff booking keeps the table on screen
+    const fetchBookings = useCallback(async (isInitialLoad = false) => {
+        if (isInitialLoad) setLoading(true);
+        setError(null);
+        try {
+            const response = await axios.get('/api/admin/bookings');
+            setBookings(response.data);
+        } catch (err: any) {
+            console.error('Error fetching bookings for admin:', err);
+            setError(err.response?.data?.message || 'Failed to load bookings.');
+        } finally {
+            if (isInitialLoad) setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchBookings(true);
+    }, [fetchBookings]); // Add dependencies if you implement filtering
 
-    const formatDate = (dateString: string | null | undefined) => {
-        if (!dateString) return 'N/A';
-        return dayjs(dateString).format('MMM D, YYYY h:mm A');
-    };
+    const formatDate = (dateString: string | null | undefined, timeZone?: string | null) =>
+        formatInTimeZone(dateString, timeZone, 'MMM D, YYYY h:mm A');
 
     if (loading) {
         return (
@@ -69,11 +232,28 @@ const AdminBookingsDisplay: React.FC = () => {
 
     return (
         <div className="max-w-full mx-auto px-4 sm:px-6 lg:px-8 py-8">
-            <div className="mb-6">
+            <div className="mb-6 flex items-center justify-between gap-4">
                 <h1 className="text-3xl font-bold text-secondary-900">All Bookings</h1>
                 {/* Add Filter UI here if needed, e.g., using ListFilter icon */}
+                {canBookForCustomers && (
+                    <button type="button" onClick={() => setShowBookingForm(prev => !prev)}
+                        className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 flex items-center text-sm">
+                        {showBookingForm ? <X className="h-4 w-4 mr-1.5" /> : <CalendarPlus className="h-4 w-4 mr-1.5" />}
+                        {showBookingForm ? 'Close' : 'New Booking'}
+                    </button>
+                )}
             </div>
 
+            {showBookingForm && (
+                <div className="bg-white shadow-md rounded-lg p-6 mb-8 max-w-2xl">
+                    <h2 className="text-xl font-semibold text-secondary-900 mb-1">Book for a Customer</h2>
+                    <p className="text-sm text-secondary-600 mb-4">The booking belongs to the customer and records you as the one who made it.</p>
+                    <StaffBookingForm onBooked={() => fetchBookings()} />
+                </div>
+            )}
+
+            <NoShowReportPanel />
+
             {bookings.length === 0 ? (
                 <div className="text-center py-10 bg-white rounded-lg shadow">
                     <CalendarDays size={48} className="mx-auto text-secondary-400 mb-4" />
@@ -92,8 +272,10 @@ const AdminBookingsDisplay: React.FC = () => {
                                 <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Status</th>
                                 <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Plate Booked</th>
                                 <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Actual Entry</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Quoted / Charged</th>
                                 <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Created At</th>
-                                {/* Add more columns if needed, e.g., checkedInByEmployeeName */}
+                                <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Booked By</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Handled By</th>
                             </tr>
                         </thead>
                         <tbody className="bg-white divide-y divide-secondary-200">
@@ -102,24 +284,47 @@ const AdminBookingsDisplay: React.FC = () => {
                                     <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">{booking.id}</td>
                                     <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">
                                         <div>{booking.userName}</div>
-                                        <div className="text-xs text-secondary-500">{booking.userEmail}</div>
+                                        <div className="text-xs text-secondary-500">{booking.userEmail || booking.userPhone}</div>
                                     </td>
                                     <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">{booking.locationName}</td>
-                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">{formatDate(booking.startTime)}</td>
-                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">{formatDate(booking.endTime)}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">{formatDate(booking.startTime, booking.locationTimeZone)}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">{formatDate(booking.endTime, booking.locationTimeZone)}</td>
                                     <td className="px-4 py-3 whitespace-nowrap text-sm">
                                         <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${booking.status === 'confirmed' ? 'bg-blue-100 text-blue-800' :
                                                 booking.status === 'completed' ? 'bg-green-100 text-green-800' :
                                                     booking.status === 'cancelled' ? 'bg-red-100 text-red-800' :
                                                         booking.status === 'checked-in' ? 'bg-yellow-100 text-yellow-800' :
+                                                        booking.status === 'no-show' ? 'bg-orange-100 text-orange-800' :
                                                             'bg-gray-100 text-gray-800'
                                             }`}>
                                             {booking.status}
                                         </span>
+                                        {booking.noShowFee !== null && booking.noShowFee !== undefined && (
+                                            <div className="text-xs text-secondary-500 mt-1">Fee ₹{Number(booking.noShowFee).toFixed(2)}</div>
+                                        )}
                                     </td>
                                     <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">{booking.license_plate_booked || 'N/A'}</td>
-                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">{formatDate(booking.actualEntryTime)}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">{formatDate(booking.actualEntryTime, booking.locationTimeZone)}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">
+                                        <div>{booking.quotedAmount != null ? `₹${booking.quotedAmount.toFixed(2)}` : 'N/A'}</div>
+                                        {booking.finalCost != null && (
+                                            <div className={`text-xs ${booking.quotedAmount != null && booking.finalCost > booking.quotedAmount ? 'text-orange-600' : 'text-secondary-500'}`}>
+                                                Charged ₹{booking.finalCost.toFixed(2)}
+                                            </div>
+                                        )}
+                                    </td>
                                     <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-500">{formatDate(booking.createdAt)}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">
+                                        {!booking.createdByUserId ? 'N/A'
+                                            : booking.createdByUserId === booking.userId
+                                                ? <span className="text-secondary-500">Customer</span>
+                                                : <span>Staff: {booking.createdByName}</span>}
+                                    </td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">
+                                        {booking.checkedInByEmployeeName && <div>In: {booking.checkedInByEmployeeName}</div>}
+                                        {booking.checkedOutByEmployeeName && <div>Out: {booking.checkedOutByEmployeeName}</div>}
+                                        {!booking.checkedInByEmployeeName && !booking.checkedOutByEmployeeName && 'N/A'}
+                                    </td>
                                 </tr>
                             ))}
                         </tbody>
@@ -0,0 +1,320 @@
+// src/pages/admin/ApiKeys.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import axios, { AxiosError } from 'axios';
+import dayjs from 'dayjs';
+import { KeyRound, Plus, X, Save, Trash2, AlertCircle, CheckCircle, Copy } from 'lucide-react';
+
+interface ErrorResponseData {
+  message?: string;
+}
+
+type ApiKey = {
+  id: number;
+  name: string;
+  keyPrefix: string;
+  parkingLocationId: number | null;
+  locationName: string | null;
+  permissions: string[];
+  usageCount: number;
+  lastUsedAt: string | null;
+  createdAt: string;
+  createdByName: string | null;
+  revokedAt: string | null;
+};
+
+type Permission = {
+  key: string;
+  description: string;
+  apiKeyAssignable: boolean;
+};
+
+type Location = {
+  id: number;
+  name: string;
+};
+
+const initialFormData = { name: '', parkingLocationId: '', permissions: [] as string[] };
+
+const inputClassName = 'w-full px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const AdminApiKeys: React.FC = () => {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionInProgress, setActionInProgress] = useState(false);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [formData, setFormData] = useState(initialFormData);
+  const [createdKey, setCreatedKey] = useState<string | null>(null); // Plain key, shown once after creation
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const clearMessages = () => {
+    setError(null);
+    setSuccessMessage(null);
+  };
+
+  const fetchApiKeys = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await axios.get('/api/admin/api-keys');
+      setApiKeys(response.data);
+    } catch (err) {
+      console.error('Error fetching API keys:', err);
+      setError('Failed to load API keys. Please try refreshing.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchApiKeys();
+    axios.get('/api/admin/permissions')
+      .then(response => setPermissions(response.data.filter((p: Permission) => p.apiKeyAssignable)))
+      .catch(err => console.error('Error fetching permissions:', err));
+    axios.get('/api/admin/locations')
+      .then(response => setLocations(response.data))
+      .catch(err => console.error('Error fetching locations:', err));
+  }, [fetchApiKeys]);
+
+  const togglePermission = (key: string) => {
+    setFormData(prev => ({
+      ...prev,
+      permissions: prev.permissions.includes(key)
+        ? prev.permissions.filter(p => p !== key)
+        : [...prev.permissions, key]
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    clearMessages();
+    setActionInProgress(true);
+    try {
+      const response = await axios.post('/api/admin/api-keys', {
+        name: formData.name,
+        parkingLocationId: formData.parkingLocationId || null,
+        permissions: formData.permissions
+      });
+      setCreatedKey(response.data.key);
+      setSuccessMessage(response.data.message);
+      setFormData(initialFormData);
+      setShowAddForm(false);
+      fetchApiKeys();
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      console.error('Error creating API key:', err);
+      setError(axiosErr.response?.data?.message || 'Failed to create API key.');
+    } finally {
+      setActionInProgress(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    clearMessages();
+    if (!window.confirm(`Revoke "${apiKey.name}"? Devices using it will stop working immediately.`)) return;
+    setActionInProgress(true);
+    try {
+      const response = await axios.delete(`/api/admin/api-keys/${apiKey.id}`);
+      setSuccessMessage(response.data.message);
+      fetchApiKeys();
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      console.error('Error revoking API key:', err);
+      setError(axiosErr.response?.data?.message || 'Failed to revoke API key.');
+    } finally {
+      setActionInProgress(false);
+    }
+  };
+
+  const handleCopy = () => {
+    if (createdKey) {
+      navigator.clipboard.writeText(createdKey).catch(err => console.error('Error copying API key:', err));
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-secondary-900">API Keys</h1>
+          <p className="text-secondary-600 mt-1">Credentials for gate controllers, display boards and partner systems. Send the key in the X-API-Key header.</p>
+        </div>
+        <button
+          onClick={() => { setShowAddForm(!showAddForm); clearMessages(); if (showAddForm) setFormData(initialFormData); }}
+          className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50"
+          disabled={actionInProgress}
+        >
+          {showAddForm ? (
+            <><X className="h-5 w-5 mr-2" />Cancel</>
+          ) : (
+            <><Plus className="h-5 w-5 mr-2" />New API Key</>
+          )}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-6 rounded-md flex items-center" role="alert">
+          <AlertCircle className="h-5 w-5 mr-3" /> <p>{error}</p>
+        </div>
+      )}
+      {successMessage && (
+        <div className="bg-green-100 border-l-4 border-green-500 text-green-700 p-4 mb-6 rounded-md flex items-center" role="alert">
+          <CheckCircle className="h-5 w-5 mr-3" /> <p>{successMessage}</p>
+        </div>
+      )}
+
+      {/* Newly created key, shown once */}
+      {createdKey && (
+        <div className="bg-yellow-50 border border-yellow-300 p-4 mb-6 rounded-md">
+          <p className="text-sm font-medium text-yellow-800 mb-2">New API key — copy it now, it won't be shown again:</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 px-3 py-2 bg-white border border-yellow-200 rounded text-sm break-all">{createdKey}</code>
+            <button onClick={handleCopy} className="p-2 text-yellow-800 hover:text-yellow-900" title="Copy to clipboard">
+              <Copy size={18} />
+            </button>
+            <button onClick={() => setCreatedKey(null)} className="p-2 text-yellow-800 hover:text-yellow-900" title="Dismiss">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Create Key Form */}
+      {showAddForm && (
+        <form onSubmit={handleCreate} className="bg-white p-6 rounded-lg shadow-md mb-8">
+          <h2 className="text-xl font-semibold text-secondary-800 mb-4">New API Key</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                required
+                placeholder="e.g. North gate controller"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 mb-1">Location Scope</label>
+              <select
+                value={formData.parkingLocationId}
+                onChange={(e) => setFormData(prev => ({ ...prev, parkingLocationId: e.target.value }))}
+                className={inputClassName}
+              >
+                <option value="">No location (back-office data only)</option>
+                {locations.map(location => (
+                  <option key={location.id} value={location.id}>{location.name}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-secondary-500">Required for parking:operate; also limits the bookings list to that location.</p>
+            </div>
+          </div>
+
+          <h3 className="text-sm font-medium text-secondary-700 mt-6 mb-2">Permissions</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {permissions.map(permission => (
+              <label key={permission.key} className="flex items-start p-2 rounded-md hover:bg-secondary-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.permissions.includes(permission.key)}
+                  onChange={() => togglePermission(permission.key)}
+                  className="mt-1 mr-3 h-4 w-4 text-primary-600 border-secondary-300 rounded"
+                />
+                <span>
+                  <span className="block text-sm font-mono text-secondary-900">{permission.key}</span>
+                  <span className="block text-xs text-secondary-500">{permission.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <button type="button" onClick={() => { setShowAddForm(false); setFormData(initialFormData); }} disabled={actionInProgress}
+                    className="px-4 py-2 bg-secondary-200 text-secondary-700 rounded-md hover:bg-secondary-300 transition-colors disabled:opacity-50">
+              Cancel
+            </button>
+            <button type="submit" disabled={actionInProgress}
+                    className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors flex items-center disabled:opacity-50">
+              <Save className="h-5 w-5 mr-2" /> Create Key
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* API Keys Table */}
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      ) : apiKeys.length === 0 ? (
+        <div className="text-center py-10">
+          <KeyRound size={48} className="mx-auto text-secondary-400 mb-4" />
+          <p className="text-secondary-600">No API keys yet. Click "New API Key" to create one.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-secondary-200">
+            <thead className="bg-secondary-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Name</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Location</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Permissions</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Usage</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Last Used</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-secondary-200">
+              {apiKeys.map(apiKey => (
+                <tr key={apiKey.id} className={apiKey.revokedAt ? 'bg-secondary-50 text-secondary-400' : ''}>
+                  <td className="px-4 py-3 text-sm">
+                    <div className="font-medium text-secondary-900">{apiKey.name}</div>
+                    <div className="text-xs font-mono text-secondary-500">{apiKey.keyPrefix}…</div>
+                    <div className="text-xs text-secondary-500">
+                      Created {dayjs(apiKey.createdAt).format('MMM D, YYYY')}{apiKey.createdByName ? ` by ${apiKey.createdByName}` : ''}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-600">{apiKey.locationName || 'Any'}</td>
+                  <td className="px-4 py-3 text-sm">
+                    <div className="flex flex-wrap gap-1">
+                      {apiKey.permissions.map(key => (
+                        <span key={key} className="px-2 py-0.5 rounded-md text-xs font-mono bg-primary-50 text-primary-700">{key}</span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-600">{apiKey.usageCount.toLocaleString()} requests</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-600">
+                    {apiKey.lastUsedAt ? dayjs(apiKey.lastUsedAt).format('MMM D, YYYY h:mm A') : 'Never'}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm">
+                    {apiKey.revokedAt ? (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">Revoked</span>
+                    ) : (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">Active</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-medium">
+                    {!apiKey.revokedAt && (
+                      <button
+                        onClick={() => handleRevoke(apiKey)}
+                        disabled={actionInProgress}
+                        className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                        title="Revoke API Key">
+                        <Trash2 size={18} />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminApiKeys;
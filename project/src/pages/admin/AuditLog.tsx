@@ -0,0 +1,301 @@
+// src/pages/admin/AuditLog.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import axios, { AxiosError } from 'axios';
+import dayjs from 'dayjs';
+import { ScrollText, Download, Search, AlertCircle, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ErrorResponseData {
+  message?: string;
+}
+
+type AuditEvent = {
+  id: number;
+  actorId: number | null;
+  actorName: string | null;
+  actorRole: string | null;
+  actorEmail: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ipAddress: string | null;
+  createdAt: string;
+};
+
+type AuditFilters = {
+  actor: string;
+  entityType: string;
+  entityId: string;
+  from: string;
+  to: string;
+};
+
+const initialFilters: AuditFilters = { actor: '', entityType: '', entityId: '', from: '', to: '' };
+
+const PAGE_SIZE = 50;
+
+const inputClassName = 'w-full px-3 py-2 border border-secondary-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+// Only send filters that are filled in
+const toParams = (filters: AuditFilters) =>
+  Object.fromEntries(Object.entries(filters).filter(([, value]) => value.trim() !== ''));
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Side-by-side view of the fields an event changed
+const ChangeDetails: React.FC<{ event: AuditEvent }> = ({ event }) => {
+  const keys = Array.from(new Set([...Object.keys(event.before || {}), ...Object.keys(event.after || {})]));
+  if (keys.length === 0) {
+    return <p className="text-sm text-secondary-500">No details recorded.</p>;
+  }
+  return (
+    <table className="min-w-full text-xs">
+      <thead>
+        <tr className="text-left text-secondary-500">
+          <th className="pr-4 py-1 font-medium">Field</th>
+          <th className="pr-4 py-1 font-medium">Before</th>
+          <th className="py-1 font-medium">After</th>
+        </tr>
+      </thead>
+      <tbody className="font-mono">
+        {keys.map(key => {
+          const before = formatValue(event.before?.[key]);
+          const after = formatValue(event.after?.[key]);
+          return (
+            <tr key={key} className={before !== after ? 'text-secondary-900' : 'text-secondary-400'}>
+              <td className="pr-4 py-1 align-top">{key}</td>
+              <td className="pr-4 py-1 align-top break-all">{event.before ? before : '—'}</td>
+              <td className="py-1 align-top break-all">{event.after ? after : '—'}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
+
+const AdminAuditLog: React.FC = () => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [entityTypes, setEntityTypes] = useState<string[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>(initialFilters);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(initialFilters);
+  const [offset, setOffset] = useState(0);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await axios.get('/api/admin/audit-events', {
+        params: { ...toParams(appliedFilters), limit: PAGE_SIZE, offset }
+      });
+      setEvents(response.data.events);
+      setTotal(response.data.total);
+      setEntityTypes(response.data.entityTypes);
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      console.error('Error fetching audit events:', err);
+      setError(axiosErr.response?.data?.message || 'Failed to load the audit log.');
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFilters, offset]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFilters(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setOffset(0);
+    setAppliedFilters(filters);
+  };
+
+  const handleReset = () => {
+    setFilters(initialFilters);
+    setOffset(0);
+    setAppliedFilters(initialFilters);
+  };
+
+  // Fetch through axios so the auth header is sent, then hand the file to the browser
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const response = await axios.get('/api/admin/audit-events/export', {
+        params: toParams(appliedFilters),
+        responseType: 'blob'
+      });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${dayjs().format('YYYY-MM-DD')}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting audit log:', err);
+      setError('Failed to export the audit log.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const pageEnd = Math.min(offset + PAGE_SIZE, total);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold text-secondary-900 flex items-center">
+          <ScrollText className="h-8 w-8 text-primary-600 mr-3" />
+          Audit Log
+        </h1>
+        <button
+          onClick={handleExport}
+          disabled={exporting || total === 0}
+          className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50"
+        >
+          <Download className="h-5 w-5 mr-2" />
+          {exporting ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      {/* Filters */}
+      <form onSubmit={handleSearch} className="bg-white p-4 rounded-lg shadow-md mb-6 grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-secondary-700 mb-1">Actor (name or email)</label>
+          <input type="text" name="actor" value={filters.actor} onChange={handleFilterChange} className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-secondary-700 mb-1">Entity</label>
+          <select name="entityType" value={filters.entityType} onChange={handleFilterChange} className={inputClassName}>
+            <option value="">All</option>
+            {entityTypes.map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-secondary-700 mb-1">Entity ID</label>
+          <input type="text" name="entityId" value={filters.entityId} onChange={handleFilterChange} className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-secondary-700 mb-1">From</label>
+          <input type="date" name="from" value={filters.from} onChange={handleFilterChange} className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-secondary-700 mb-1">To</label>
+          <input type="date" name="to" value={filters.to} onChange={handleFilterChange} className={inputClassName} />
+        </div>
+        <div className="md:col-span-6 flex justify-end space-x-3">
+          <button type="button" onClick={handleReset}
+                  className="px-4 py-2 text-sm bg-secondary-200 text-secondary-700 rounded-md hover:bg-secondary-300 transition-colors">
+            Reset
+          </button>
+          <button type="submit"
+                  className="flex items-center px-4 py-2 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors">
+            <Search className="h-4 w-4 mr-2" /> Apply Filters
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-6 rounded-md flex items-center" role="alert">
+          <AlertCircle className="h-5 w-5 mr-3" /> <p>{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      ) : events.length === 0 ? (
+        <div className="text-center py-10">
+          <ScrollText size={48} className="mx-auto text-secondary-400 mb-4" />
+          <p className="text-secondary-600">No audit events match these filters.</p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+            <table className="min-w-full divide-y divide-secondary-200">
+              <thead className="bg-secondary-50">
+                <tr>
+                  <th className="px-4 py-3 w-8"></th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">When</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Actor</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Action</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Entity</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">IP Address</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-secondary-200">
+                {events.map(event => (
+                  <React.Fragment key={event.id}>
+                    <tr className="hover:bg-secondary-50 cursor-pointer" onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}>
+                      <td className="px-4 py-3 text-secondary-400">
+                        {expandedId === event.id ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">{dayjs(event.createdAt).format('MMM D, YYYY h:mm:ss A')}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">
+                        <div>{event.actorName || 'System'}</div>
+                        {(event.actorEmail || event.actorRole) && (
+                          <div className="text-xs text-secondary-500">{[event.actorEmail, event.actorRole].filter(Boolean).join(' · ')}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-secondary-900">{event.action}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-700">
+                        {event.entityType}{event.entityId ? ` #${event.entityId}` : ''}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-secondary-500">{event.ipAddress || 'N/A'}</td>
+                    </tr>
+                    {expandedId === event.id && (
+                      <tr className="bg-secondary-50">
+                        <td></td>
+                        <td colSpan={5} className="px-4 py-3">
+                          <ChangeDetails event={event} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Paging */}
+          <div className="flex justify-between items-center mt-4 text-sm text-secondary-600">
+            <span>Showing {offset + 1}–{pageEnd} of {total}</span>
+            <div className="space-x-2">
+              <button
+                onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                disabled={offset === 0}
+                className="px-3 py-1.5 rounded-md bg-secondary-100 hover:bg-secondary-200 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={pageEnd >= total}
+                className="px-3 py-1.5 rounded-md bg-secondary-100 hover:bg-secondary-200 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AdminAuditLog;
@@ -1,7 +1,10 @@
 // src/pages/admin/AdminEmployees.tsx
 import React, { useState, useEffect } from 'react';
-import axios from 'axios';
-import { Users, UserPlus, Building, Edit3, Trash2, X, Save, AlertCircle } from 'lucide-react';
+import axios, { AxiosError } from 'axios';
+import dayjs from 'dayjs';
+import { Users, UserPlus, Building, Edit3, Trash2, X, Save, AlertCircle, UserX, UserCheck, MonitorSmartphone } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import SessionsPanel from '../../components/common/SessionsPanel';
 
 // Types remain the same
 type Employee = {
@@ -10,8 +13,16 @@ type Employee = {
   email: string;
   parkingLocationId: number;
   locationName: string; // Assuming this comes from a JOIN in the backend GET /api/admin/employees
+  active: boolean;
+  deactivatedAt: string | null;
 };
 
+type StatusFilter = 'all' | 'active' | 'inactive';
+
+interface ErrorResponseData {
+  message?: string;
+}
+
 type Location = {
   id: number;
   name: string;
@@ -48,6 +59,11 @@ const AdminEmployees: React.FC = () => {
   const [addFormData, setAddFormData] = useState(initialAddFormData);
   const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null); // Employee being edited
   const [editFormData, setEditFormData] = useState(initialEditFormData);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [sessionsEmployee, setSessionsEmployee] = useState<Employee | null>(null); // Employee whose sessions are shown
+
+  const { hasPermission } = useAuth();
+  const canManageSessions = hasPermission('users:manage');
 
   // Feedback States
   const [error, setError] = useState<string | null>(null); // General fetch or submit error
@@ -178,6 +194,31 @@ const AdminEmployees: React.FC = () => {
     }
   };
 
+  const handleStatusChange = async (employee: Employee) => {
+    clearMessages();
+    const action = employee.active ? 'deactivate' : 'reactivate';
+    const prompt = employee.active
+      ? `Deactivate ${employee.name}? They will be logged out and unable to log in until reactivated.`
+      : `Reactivate ${employee.name}? They will be able to log in again.`;
+    if (!window.confirm(prompt)) return;
+    setActionInProgress(true);
+    try {
+      const response = await axios.post(`/api/admin/employee/${employee.id}/${action}`);
+      setSuccessMessage(response.data.message);
+      fetchEmployees(); // Refresh list
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      console.error(`Error trying to ${action} employee:`, err);
+      setError(axiosErr.response?.data?.message || `Failed to ${action} employee.`);
+    } finally {
+      setActionInProgress(false);
+    }
+  };
+
+  const visibleEmployees = employees.filter(employee =>
+    statusFilter === 'all' || (statusFilter === 'active' ? employee.active : !employee.active)
+  );
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="flex justify-between items-center mb-6">
@@ -305,6 +346,38 @@ const AdminEmployees: React.FC = () => {
       )}
 
 
+      {/* Employee Sessions Modal */}
+      {sessionsEmployee && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex justify-center items-center">
+          <div className="bg-white p-8 rounded-lg shadow-xl w-full max-w-2xl mx-4">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-semibold text-secondary-800">Sessions: {sessionsEmployee.name}</h2>
+              <button type="button" onClick={() => setSessionsEmployee(null)} className="text-secondary-500 hover:text-secondary-700">
+                <X size={24} />
+              </button>
+            </div>
+            <SessionsPanel userId={sessionsEmployee.id} />
+          </div>
+        </div>
+      )}
+
+      {/* Status Filter */}
+      {!loading && employees.length > 0 && (
+        <div className="flex items-center mb-4 space-x-2">
+          <label htmlFor="employee-status-filter" className="text-sm font-medium text-secondary-700">Show:</label>
+          <select
+            id="employee-status-filter"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className="px-3 py-1.5 border border-secondary-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="active">Active ({employees.filter(emp => emp.active).length})</option>
+            <option value="inactive">Deactivated ({employees.filter(emp => !emp.active).length})</option>
+            <option value="all">All ({employees.length})</option>
+          </select>
+        </div>
+      )}
+
       {/* Employees Table */}
       {loading ? (
         <div className="flex justify-center items-center h-64">
@@ -323,12 +396,18 @@ const AdminEmployees: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Name</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Email</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Assigned Location</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Status</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-secondary-500 uppercase tracking-wider">Actions</th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-secondary-200">
-              {employees.map(employee => (
-                <tr key={employee.id}>
+              {visibleEmployees.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-6 text-center text-sm text-secondary-500">No employees match this filter.</td>
+                </tr>
+              )}
+              {visibleEmployees.map(employee => (
+                <tr key={employee.id} className={employee.active ? '' : 'bg-secondary-50'}>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm font-medium text-secondary-900">{employee.name}</div>
                   </td>
@@ -341,6 +420,18 @@ const AdminEmployees: React.FC = () => {
                       {employee.locationName || 'N/A'} {/* Display N/A if locationName is not present */}
                     </div>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {employee.active ? (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">Active</span>
+                    ) : (
+                      <div>
+                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-secondary-200 text-secondary-700">Deactivated</span>
+                        {employee.deactivatedAt && (
+                          <div className="text-xs text-secondary-500 mt-1">since {dayjs(employee.deactivatedAt).format('MMM D, YYYY')}</div>
+                        )}
+                      </div>
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <button 
                         onClick={() => handleEditClick(employee)} 
@@ -349,6 +440,22 @@ const AdminEmployees: React.FC = () => {
                         title="Edit Employee">
                         <Edit3 size={18}/>
                     </button>
+                    {canManageSessions && (
+                      <button 
+                          onClick={() => { clearMessages(); setSessionsEmployee(employee); }}
+                          disabled={actionInProgress}
+                          className="text-secondary-600 hover:text-secondary-800 mr-3 disabled:opacity-50"
+                          title="View Sessions">
+                          <MonitorSmartphone size={18}/>
+                      </button>
+                    )}
+                    <button 
+                        onClick={() => handleStatusChange(employee)}
+                        disabled={actionInProgress}
+                        className={`${employee.active ? 'text-yellow-600 hover:text-yellow-800' : 'text-green-600 hover:text-green-800'} mr-3 disabled:opacity-50`}
+                        title={employee.active ? 'Deactivate Employee' : 'Reactivate Employee'}>
+                        {employee.active ? <UserX size={18}/> : <UserCheck size={18}/>}
+                    </button>
                     <button 
                         onClick={() => handleDeleteClick(employee.id)}
                         disabled={actionInProgress}
@@ -3,6 +3,8 @@ import React, { useState, useEffect, useRef } from 'react';
 import axios from 'axios';
 import { MapPin, Plus, Upload, Edit3, Trash2, X, Save, AlertCircle, CheckCircle, Building } from 'lucide-react'; // Added more icons
 
+type CapacityMode = 'percent' | 'absolute';
+
 type Location = {
   id: number;
   name: string;
@@ -11,6 +13,10 @@ type Location = {
   totalSlots: number;
   availableSlots: number; // Assuming this is part of the fetched data
   coverImageUrl: string | null; // Can be null
+  capacityMode: CapacityMode;
+  capacityValue: number;
+  bookingCapacity: number; // Slots that can be booked in advance under the policy
+  timeZone: string; // IANA zone bookings at this location are made and shown in
   averageRating?: number; // Optional, as in your original type
   feedbackCount?: number; // Optional
 };
@@ -20,9 +26,55 @@ const initialFormData = {
   latitude: '',
   longitude: '',
   totalSlots: '',
+  capacityMode: 'percent' as CapacityMode,
+  capacityValue: '70',
+  // New locations default to the admin's own zone
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
   coverImage: null as File | null,
 };
 
+// Booking capacity policy inputs, shared by the add form and the edit modal
+const CapacityPolicyFields: React.FC<{
+  mode: CapacityMode;
+  value: string;
+  totalSlots: string;
+  onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => void;
+}> = ({ mode, value, totalSlots, onChange }) => {
+  const slots = parseInt(totalSlots, 10) || 0;
+  const amount = parseInt(value, 10) || 0;
+  const bookable = mode === 'percent' ? Math.floor(slots * amount / 100) : Math.min(amount, slots);
+  return (
+    <div>
+      <label className="block text-sm font-medium text-secondary-700 mb-1">Booking Capacity</label>
+      <div className="flex space-x-2">
+        <input type="number" name="capacityValue" value={value} onChange={onChange} required min="0" max={mode === 'percent' ? 100 : slots || undefined}
+               className="w-1/2 px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"/>
+        <select name="capacityMode" value={mode} onChange={onChange}
+                className="w-1/2 px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500">
+          <option value="percent">% of total slots</option>
+          <option value="absolute">slots</option>
+        </select>
+      </div>
+      <p className="mt-1 text-xs text-secondary-500">
+        {bookable} of {slots} slots can be booked in advance; the rest are kept for drive-ups.
+      </p>
+    </div>
+  );
+};
+
+// IANA time zone input, shared by the add form and the edit modal; the server rejects names it doesn't know
+const TimeZoneField: React.FC<{
+  value: string;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}> = ({ value, onChange }) => (
+  <div>
+    <label className="block text-sm font-medium text-secondary-700 mb-1">Time Zone</label>
+    <input type="text" name="timeZone" value={value} onChange={onChange} required placeholder="e.g. Asia/Kolkata"
+           className="w-full px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"/>
+    <p className="mt-1 text-xs text-secondary-500">Booking times at this location are entered and shown in this zone.</p>
+  </div>
+);
+
 const AdminLocations: React.FC = () => {
   const [locations, setLocations] = useState<Location[]>([]);
   const [loading, setLoading] = useState(true);
@@ -42,6 +94,9 @@ const AdminLocations: React.FC = () => {
     latitude: '',
     longitude: '',
     totalSlots: '',
+    capacityMode: 'percent' as CapacityMode,
+    capacityValue: '70',
+    timeZone: '',
     coverImage: null as File | null,
     currentCoverImageUrl: '' as string | null,
   });
@@ -73,9 +128,9 @@ const AdminLocations: React.FC = () => {
     fetchLocations();
   }, []);
 
-  const handleAddInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleAddInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
-    if (type === 'file') {
+    if (type === 'file' && e.target instanceof HTMLInputElement) {
       const files = e.target.files;
       setAddFormData(prev => ({ ...prev, coverImage: files ? files[0] : null }));
     } else {
@@ -93,6 +148,9 @@ const AdminLocations: React.FC = () => {
       formDataToSend.append('latitude', addFormData.latitude);
       formDataToSend.append('longitude', addFormData.longitude);
       formDataToSend.append('totalSlots', addFormData.totalSlots);
+      formDataToSend.append('capacityMode', addFormData.capacityMode);
+      formDataToSend.append('capacityValue', addFormData.capacityValue);
+      formDataToSend.append('timeZone', addFormData.timeZone);
       if (addFormData.coverImage) {
         formDataToSend.append('coverImage', addFormData.coverImage);
       }
@@ -122,15 +180,18 @@ const AdminLocations: React.FC = () => {
       latitude: location.latitude.toString(),
       longitude: location.longitude.toString(),
       totalSlots: location.totalSlots.toString(),
+      capacityMode: location.capacityMode,
+      capacityValue: location.capacityValue.toString(),
+      timeZone: location.timeZone,
       coverImage: null, // Reset file input for edit
       currentCoverImageUrl: location.coverImageUrl,
     });
     setShowEditModal(true);
   };
   
-  const handleEditInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleEditInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
-    if (type === 'file') {
+    if (type === 'file' && e.target instanceof HTMLInputElement) {
       const files = e.target.files;
       setEditFormData(prev => ({ ...prev, coverImage: files ? files[0] : null }));
     } else {
@@ -149,6 +210,9 @@ const AdminLocations: React.FC = () => {
     formDataToSend.append('latitude', editFormData.latitude);
     formDataToSend.append('longitude', editFormData.longitude);
     formDataToSend.append('totalSlots', editFormData.totalSlots);
+    formDataToSend.append('capacityMode', editFormData.capacityMode);
+    formDataToSend.append('capacityValue', editFormData.capacityValue);
+    formDataToSend.append('timeZone', editFormData.timeZone);
     if (editFormData.coverImage) { // Only append if a new image is selected
       formDataToSend.append('coverImage', editFormData.coverImage);
     }
@@ -234,6 +298,9 @@ const AdminLocations: React.FC = () => {
               <input type="number" name="totalSlots" value={addFormData.totalSlots} onChange={handleAddInputChange} required min="1"
                      className="w-full px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"/>
             </div>
+            <CapacityPolicyFields mode={addFormData.capacityMode} value={addFormData.capacityValue}
+                                  totalSlots={addFormData.totalSlots} onChange={handleAddInputChange} />
+            <TimeZoneField value={addFormData.timeZone} onChange={handleAddInputChange} />
             <div>
               <label className="block text-sm font-medium text-secondary-700 mb-1">Latitude</label>
               <input type="number" step="any" name="latitude" value={addFormData.latitude} onChange={handleAddInputChange} required
@@ -292,6 +359,9 @@ const AdminLocations: React.FC = () => {
                         <input type="number" name="totalSlots" value={editFormData.totalSlots} onChange={handleEditInputChange} required min="1"
                                 className="w-full px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"/>
                     </div>
+                    <CapacityPolicyFields mode={editFormData.capacityMode} value={editFormData.capacityValue}
+                                          totalSlots={editFormData.totalSlots} onChange={handleEditInputChange} />
+                    <TimeZoneField value={editFormData.timeZone} onChange={handleEditInputChange} />
                     <div>
                         <label className="block text-sm font-medium text-secondary-700 mb-1">Latitude</label>
                         <input type="number" step="any" name="latitude" value={editFormData.latitude} onChange={handleEditInputChange} required
@@ -358,6 +428,11 @@ const AdminLocations: React.FC = () => {
                 <div className="space-y-1 text-sm text-secondary-600 mb-3 flex-grow">
                   <p><strong>Total Slots:</strong> {location.totalSlots}</p>
                   <p><strong>Available:</strong> {location.availableSlots}</p>
+                  <p>
+                    <strong>Bookable in Advance:</strong> {location.bookingCapacity}
+                    {location.capacityMode === 'percent' && ` (${location.capacityValue}%)`}
+                  </p>
+                  <p><strong>Time Zone:</strong> {location.timeZone}</p>
                   <p><strong>Rating:</strong> {location.averageRating?.toFixed(1) ?? 'N/A'} ⭐ ({location.feedbackCount ?? 0} reviews)</p>
                   <p className="flex items-center text-xs">
                     <MapPin className="h-4 w-4 mr-1 flex-shrink-0" />
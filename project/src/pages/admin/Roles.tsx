@@ -0,0 +1,372 @@
+// src/pages/admin/Roles.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import axios, { AxiosError } from 'axios';
+import { Shield, Plus, Trash2, Save, X, UserPlus, AlertCircle, CheckCircle, Lock, Edit3 } from 'lucide-react';
+
+interface ErrorResponseData {
+  message?: string;
+}
+
+interface Permission {
+  key: string;
+  group: string;
+  description: string;
+  assignable: boolean;
+}
+
+interface RoleMember {
+  id: number;
+  name: string;
+  email: string;
+}
+
+interface Role {
+  name: string;
+  label: string;
+  description: string | null;
+  isSystem: boolean;
+  memberCount: number;
+  permissions: string[];
+  members: RoleMember[];
+}
+
+interface RoleFormData {
+  name: string;
+  label: string;
+  description: string;
+  permissions: string[];
+}
+
+const initialFormData: RoleFormData = { name: '', label: '', description: '', permissions: [] };
+
+const inputClassName = 'w-full px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const AdminRoles: React.FC = () => {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionInProgress, setActionInProgress] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // null = form closed, '' = creating a new role, otherwise the name of the role being edited
+  const [editingRole, setEditingRole] = useState<string | null>(null);
+  const [formData, setFormData] = useState<RoleFormData>(initialFormData);
+  const [memberEmails, setMemberEmails] = useState<Record<string, string>>({});
+
+  const clearMessages = () => {
+    setError(null);
+    setSuccessMessage(null);
+  };
+
+  const fetchRoles = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [rolesResponse, permissionsResponse] = await Promise.all([
+        axios.get('/api/admin/roles'),
+        axios.get('/api/admin/permissions')
+      ]);
+      setRoles(rolesResponse.data);
+      setPermissions(permissionsResponse.data);
+    } catch (err) {
+      console.error('Error fetching roles:', err);
+      setError('Failed to load roles. Please try again later.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRoles();
+  }, [fetchRoles]);
+
+  // Wraps each mutating request with the shared progress/error/success handling
+  const run = async (request: () => Promise<string>, fallbackError: string) => {
+    clearMessages();
+    setActionInProgress(true);
+    try {
+      const message = await request();
+      setSuccessMessage(message);
+      await fetchRoles();
+      return true;
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      console.error(fallbackError, err);
+      setError(axiosErr.response?.data?.message || fallbackError);
+      return false;
+    } finally {
+      setActionInProgress(false);
+    }
+  };
+
+  const closeForm = () => {
+    setEditingRole(null);
+    setFormData(initialFormData);
+  };
+
+  const openCreateForm = () => {
+    clearMessages();
+    setEditingRole('');
+    setFormData(initialFormData);
+  };
+
+  const openEditForm = (role: Role) => {
+    clearMessages();
+    setEditingRole(role.name);
+    setFormData({
+      name: role.name,
+      label: role.label,
+      description: role.description || '',
+      permissions: role.permissions
+    });
+  };
+
+  const togglePermission = (key: string) => {
+    setFormData(prev => ({
+      ...prev,
+      permissions: prev.permissions.includes(key)
+        ? prev.permissions.filter(p => p !== key)
+        : [...prev.permissions, key]
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const isNew = editingRole === '';
+    const saved = await run(async () => {
+      const body = { label: formData.label, description: formData.description, permissions: formData.permissions };
+      const response = isNew
+        ? await axios.post('/api/admin/roles', { ...body, name: formData.name.trim() })
+        : await axios.put(`/api/admin/roles/${editingRole}`, body);
+      return response.data.message;
+    }, isNew ? 'Failed to create role.' : 'Failed to update role.');
+    if (saved) closeForm();
+  };
+
+  const handleDelete = (role: Role) => {
+    if (!window.confirm(`Delete the role "${role.label}"? This cannot be undone.`)) return;
+    run(async () => {
+      const response = await axios.delete(`/api/admin/roles/${role.name}`);
+      return response.data.message;
+    }, 'Failed to delete role.');
+  };
+
+  const handleAddMember = async (e: React.FormEvent, role: Role) => {
+    e.preventDefault();
+    const email = (memberEmails[role.name] || '').trim();
+    if (!email) return;
+    const added = await run(async () => {
+      const response = await axios.post(`/api/admin/roles/${role.name}/members`, { email });
+      return response.data.message;
+    }, 'Failed to add member.');
+    if (added) setMemberEmails(prev => ({ ...prev, [role.name]: '' }));
+  };
+
+  const handleRemoveMember = (role: Role, member: RoleMember) => {
+    if (!window.confirm(`Remove ${member.name} from "${role.label}"? They will become a regular customer account.`)) return;
+    run(async () => {
+      const response = await axios.delete(`/api/admin/roles/${role.name}/members/${member.id}`);
+      return response.data.message;
+    }, 'Failed to remove member.');
+  };
+
+  const assignablePermissions = permissions.filter(p => p.assignable);
+  const describePermission = (key: string) => permissions.find(p => p.key === key)?.description || key;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-secondary-900">Roles & Permissions</h1>
+          <p className="text-secondary-600 mt-1">Create back-office roles with a chosen set of permissions and assign them to accounts.</p>
+        </div>
+        <button
+          onClick={editingRole === null ? openCreateForm : closeForm}
+          className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50"
+          disabled={actionInProgress}
+        >
+          {editingRole === null ? (
+            <><Plus className="h-5 w-5 mr-2" />New Role</>
+          ) : (
+            <><X className="h-5 w-5 mr-2" />Cancel</>
+          )}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-6 rounded-md flex items-center" role="alert">
+          <AlertCircle className="h-5 w-5 mr-3" /> <p>{error}</p>
+        </div>
+      )}
+      {successMessage && (
+        <div className="bg-green-100 border-l-4 border-green-500 text-green-700 p-4 mb-6 rounded-md flex items-center" role="alert">
+          <CheckCircle className="h-5 w-5 mr-3" /> <p>{successMessage}</p>
+        </div>
+      )}
+
+      {/* Create / Edit Role Form */}
+      {editingRole !== null && (
+        <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md mb-8">
+          <h2 className="text-xl font-semibold text-secondary-800 mb-4">
+            {editingRole === '' ? 'New Role' : `Edit Role: ${formData.label}`}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 mb-1">Role Key</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value.toLowerCase() }))}
+                disabled={editingRole !== ''}
+                required
+                placeholder="e.g. finance"
+                className={`${inputClassName} disabled:bg-secondary-100`}
+              />
+              <p className="mt-1 text-xs text-secondary-500">Lowercase letters, digits and dashes. Cannot be changed later.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 mb-1">Display Name</label>
+              <input
+                type="text"
+                value={formData.label}
+                onChange={(e) => setFormData(prev => ({ ...prev, label: e.target.value }))}
+                required
+                placeholder="e.g. Finance"
+                className={inputClassName}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-secondary-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <h3 className="text-sm font-medium text-secondary-700 mt-6 mb-2">Permissions</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {assignablePermissions.map(permission => (
+              <label key={permission.key} className="flex items-start p-2 rounded-md hover:bg-secondary-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.permissions.includes(permission.key)}
+                  onChange={() => togglePermission(permission.key)}
+                  className="mt-1 mr-3 h-4 w-4 text-primary-600 border-secondary-300 rounded"
+                />
+                <span>
+                  <span className="block text-sm font-mono text-secondary-900">{permission.key}</span>
+                  <span className="block text-xs text-secondary-500">{permission.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <button type="button" onClick={closeForm} disabled={actionInProgress}
+                    className="px-4 py-2 bg-secondary-200 text-secondary-700 rounded-md hover:bg-secondary-300 transition-colors disabled:opacity-50">
+              Cancel
+            </button>
+            <button type="submit" disabled={actionInProgress}
+                    className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors flex items-center disabled:opacity-50">
+              <Save className="h-5 w-5 mr-2" /> {editingRole === '' ? 'Create Role' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Roles List */}
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {roles.map(role => (
+            <div key={role.name} className="bg-white rounded-lg shadow-md p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-secondary-800 flex items-center">
+                    <Shield className="h-5 w-5 text-primary-600 mr-2" />
+                    {role.label}
+                    <span className="ml-2 text-sm font-mono font-normal text-secondary-500">{role.name}</span>
+                    {role.isSystem && (
+                      <span className="ml-3 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-secondary-100 text-secondary-700">
+                        <Lock className="h-3 w-3 mr-1" /> Built-in
+                      </span>
+                    )}
+                  </h2>
+                  {role.description && <p className="text-sm text-secondary-600 mt-1">{role.description}</p>}
+                  <p className="text-xs text-secondary-500 mt-1">{role.memberCount} account{role.memberCount === 1 ? '' : 's'}</p>
+                </div>
+                {!role.isSystem && (
+                  <div className="flex space-x-2">
+                    <button onClick={() => openEditForm(role)} disabled={actionInProgress}
+                            className="text-primary-600 hover:text-primary-800 disabled:opacity-50" title="Edit role">
+                      <Edit3 size={20} />
+                    </button>
+                    <button onClick={() => handleDelete(role)} disabled={actionInProgress || role.memberCount > 0}
+                            className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                            title={role.memberCount > 0 ? 'Remove all members first' : 'Delete role'}>
+                      <Trash2 size={20} />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-2 mb-4">
+                {role.permissions.length === 0 ? (
+                  <span className="text-sm text-secondary-500">No permissions</span>
+                ) : role.permissions.map(key => (
+                  <span key={key} title={describePermission(key)}
+                        className="px-2 py-1 rounded-md text-xs font-mono bg-primary-50 text-primary-700">
+                    {key}
+                  </span>
+                ))}
+              </div>
+
+              {!role.isSystem && (
+                <div className="border-t border-secondary-200 pt-4">
+                  <h3 className="text-sm font-medium text-secondary-700 mb-2">Members</h3>
+                  {role.members.length > 0 && (
+                    <ul className="divide-y divide-secondary-100 mb-3">
+                      {role.members.map(member => (
+                        <li key={member.id} className="flex justify-between items-center py-2 text-sm">
+                          <span>
+                            <span className="text-secondary-900">{member.name}</span>
+                            <span className="ml-2 text-secondary-500">{member.email}</span>
+                          </span>
+                          <button onClick={() => handleRemoveMember(role, member)} disabled={actionInProgress}
+                                  className="text-red-600 hover:text-red-800 disabled:opacity-50" title="Remove from role">
+                            <X size={18} />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <form onSubmit={(e) => handleAddMember(e, role)} className="flex gap-2 max-w-md">
+                    <input
+                      type="email"
+                      value={memberEmails[role.name] || ''}
+                      onChange={(e) => setMemberEmails(prev => ({ ...prev, [role.name]: e.target.value }))}
+                      placeholder="Account email"
+                      className={`${inputClassName} text-sm`}
+                    />
+                    <button type="submit" disabled={actionInProgress}
+                            className="flex items-center px-3 py-2 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50 whitespace-nowrap">
+                      <UserPlus className="h-4 w-4 mr-1" /> Add
+                    </button>
+                  </form>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminRoles;
@@ -1,16 +1,41 @@
 // src/pages/admin/SettingsPage.tsx
 
 import React, { useState, useEffect } from 'react';
-import axios from 'axios';
-import { IndianRupee, AlertCircle, CheckCircle } from 'lucide-react';
+import axios, { AxiosError } from 'axios';
+import { IndianRupee, AlertCircle, CheckCircle, ShieldCheck, UserX } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface ErrorResponseData {
+    message?: string;
+}
+
+// Role name -> whether two-factor is required, for every staff role
+type TwoFactorPolicy = Record<string, boolean>;
+
+// When an unused booking becomes a no-show (minutes after its start) and what it costs
+type NoShowPolicy = {
+    graceMinutes: number;
+    fee: number;
+};
 
 const AdminSettingsPage: React.FC = () => {
+    const { hasPermission } = useAuth();
+    const canEditRate = hasPermission('rates:write');
+    const canManageSecurity = hasPermission('security:manage');
     const [currentRate, setCurrentRate] = useState<number | null>(null);
     const [newRate, setNewRate] = useState<string>('');
     const [loading, setLoading] = useState<boolean>(true);
     const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
     const [successMessage, setSuccessMessage] = useState<string | null>(null);
+    const [twoFactorPolicy, setTwoFactorPolicy] = useState<TwoFactorPolicy | null>(null);
+    const [policySaving, setPolicySaving] = useState<boolean>(false);
+    const [policyError, setPolicyError] = useState<string | null>(null);
+    const [policyMessage, setPolicyMessage] = useState<string | null>(null);
+    const [noShowForm, setNoShowForm] = useState({ graceMinutes: '', fee: '' });
+    const [noShowSaving, setNoShowSaving] = useState<boolean>(false);
+    const [noShowError, setNoShowError] = useState<string | null>(null);
+    const [noShowMessage, setNoShowMessage] = useState<string | null>(null);
 
     // Fetch the current hourly rate on component mount
     useEffect(() => {
@@ -35,6 +60,76 @@ const AdminSettingsPage: React.FC = () => {
         fetchCurrentRate();
     }, []);
 
+    useEffect(() => {
+        axios.get('/api/admin/no-show-policy')
+            .then(response => {
+                const policy: NoShowPolicy = response.data;
+                setNoShowForm({ graceMinutes: String(policy.graceMinutes), fee: String(policy.fee) });
+            })
+            .catch(err => {
+                console.error('Error fetching no-show policy:', err);
+                setNoShowError('Failed to load no-show policy.');
+            });
+    }, []);
+
+    // Fetch which staff roles must use two-factor authentication
+    useEffect(() => {
+        if (!canManageSecurity) return;
+        axios.get('/api/admin/two-factor-policy')
+            .then(response => setTwoFactorPolicy(response.data))
+            .catch(err => {
+                console.error('Error fetching two-factor policy:', err);
+                setPolicyError('Failed to load two-factor policy.');
+            });
+    }, [canManageSecurity]);
+
+    const handlePolicyToggle = async (role: string) => {
+        if (!twoFactorPolicy) return;
+        setPolicySaving(true);
+        setPolicyError(null);
+        setPolicyMessage(null);
+        try {
+            const response = await axios.put('/api/admin/two-factor-policy', { [role]: !twoFactorPolicy[role] });
+            setTwoFactorPolicy(response.data);
+            setPolicyMessage(
+                response.data[role]
+                    ? `Two-factor authentication is now required for the "${role}" role. Anyone not enrolled will be asked to set it up at their next login.`
+                    : `Two-factor authentication is now optional for the "${role}" role.`
+            );
+        } catch (err) {
+            const axiosErr = err as AxiosError<ErrorResponseData>;
+            console.error('Error updating two-factor policy:', err);
+            setPolicyError(axiosErr.response?.data?.message || 'Failed to update two-factor policy.');
+        } finally {
+            setPolicySaving(false);
+        }
+    };
+
+    const handleSubmitNoShowPolicy = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setNoShowSaving(true);
+        setNoShowError(null);
+        setNoShowMessage(null);
+        try {
+            const response = await axios.put('/api/admin/no-show-policy', {
+                graceMinutes: Number(noShowForm.graceMinutes),
+                fee: Number(noShowForm.fee),
+            });
+            const policy: NoShowPolicy = response.data;
+            setNoShowForm({ graceMinutes: String(policy.graceMinutes), fee: String(policy.fee) });
+            setNoShowMessage(
+                `Bookings not checked in ${policy.graceMinutes} minutes after their start are now released as no-shows` +
+                (policy.fee > 0 ? ` and charged ₹${policy.fee.toFixed(2)}.` : ' without a fee.')
+            );
+        } catch (err) {
+            const axiosErr = err as AxiosError<ErrorResponseData>;
+            console.error('Error updating no-show policy:', err);
+            setNoShowError(axiosErr.response?.data?.message || 'Failed to update no-show policy.');
+        } finally {
+            setNoShowSaving(false);
+        }
+    };
+
     const handleRateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setNewRate(e.target.value);
     };
@@ -109,40 +204,165 @@ const AdminSettingsPage: React.FC = () => {
                     </div>
                 )}
 
-                <form onSubmit={handleSubmitRate} className="space-y-6">
-                    <div>
-                        <label htmlFor="hourlyRate" className="block text-sm font-medium text-secondary-700 mb-1">
-                            Set New Hourly Rate (₹)
-                        </label>
-                        <input
-                            type="number"
-                            id="hourlyRate"
-                            name="hourlyRate"
-                            value={newRate}
-                            onChange={handleRateChange}
-                            min="0"
-                            step="0.01"
-                            className="w-full px-4 py-2 border border-secondary-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
-                            placeholder="e.g., 2.50"
-                            disabled={isSubmitting || loading}
-                        />
+                {canEditRate && (
+                    <form onSubmit={handleSubmitRate} className="space-y-6">
+                        <div>
+                            <label htmlFor="hourlyRate" className="block text-sm font-medium text-secondary-700 mb-1">
+                                Set New Hourly Rate (₹)
+                            </label>
+                            <input
+                                type="number"
+                                id="hourlyRate"
+                                name="hourlyRate"
+                                value={newRate}
+                                onChange={handleRateChange}
+                                min="0"
+                                step="0.01"
+                                className="w-full px-4 py-2 border border-secondary-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                                placeholder="e.g., 2.50"
+                                disabled={isSubmitting || loading}
+                            />
+                        </div>
+
+                        <div>
+                            <button
+                                type="submit"
+                                disabled={isSubmitting || loading}
+                                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:bg-primary-300"
+                            >
+                                {isSubmitting ? (
+                                    <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-white"></div>
+                                ) : (
+                                    'Update Hourly Rate'
+                                )}
+                            </button>
+                        </div>
+                    </form>
+                )}
+            </div>
+
+            <div className="bg-white shadow-md rounded-lg p-6 md:p-8 mt-8">
+                <h2 className="text-xl font-semibold text-secondary-800 mb-2 border-b pb-4 flex items-center">
+                    <UserX className="h-6 w-6 text-primary-600 mr-2" />
+                    No-Show Policy
+                </h2>
+                <p className="text-sm text-secondary-600 mb-6">
+                    Bookings that haven't been checked in by the end of the grace period are marked as no-shows, which frees their
+                    capacity for other customers and the waitlist.
+                </p>
+
+                {noShowError && (
+                    <div className="mb-4 p-3 bg-red-50 border-l-4 border-red-500 text-red-700 flex items-center">
+                        <AlertCircle className="h-5 w-5 mr-2" />
+                        <p>{noShowError}</p>
                     </div>
+                )}
 
-                    <div>
+                {noShowMessage && (
+                    <div className="mb-4 p-3 bg-green-50 border-l-4 border-green-500 text-green-700 flex items-center">
+                        <CheckCircle className="h-5 w-5 mr-2" />
+                        <p>{noShowMessage}</p>
+                    </div>
+                )}
+
+                <form onSubmit={handleSubmitNoShowPolicy} className="space-y-6">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="noShowGraceMinutes" className="block text-sm font-medium text-secondary-700 mb-1">
+                                Grace Period (minutes after start)
+                            </label>
+                            <input
+                                type="number"
+                                id="noShowGraceMinutes"
+                                value={noShowForm.graceMinutes}
+                                onChange={(e) => setNoShowForm(prev => ({ ...prev, graceMinutes: e.target.value }))}
+                                min="0"
+                                step="1"
+                                className="w-full px-4 py-2 border border-secondary-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                                disabled={!canEditRate || noShowSaving}
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="noShowFee" className="block text-sm font-medium text-secondary-700 mb-1">
+                                No-Show Fee (₹, 0 for none)
+                            </label>
+                            <input
+                                type="number"
+                                id="noShowFee"
+                                value={noShowForm.fee}
+                                onChange={(e) => setNoShowForm(prev => ({ ...prev, fee: e.target.value }))}
+                                min="0"
+                                step="0.01"
+                                className="w-full px-4 py-2 border border-secondary-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                                disabled={!canEditRate || noShowSaving}
+                            />
+                        </div>
+                    </div>
+
+                    {canEditRate && (
                         <button
                             type="submit"
-                            disabled={isSubmitting || loading}
+                            disabled={noShowSaving}
                             className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:bg-primary-300"
                         >
-                            {isSubmitting ? (
-                                <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-white"></div>
-                            ) : (
-                                'Update Hourly Rate'
-                            )}
+                            {noShowSaving ? 'Saving...' : 'Update No-Show Policy'}
                         </button>
-                    </div>
+                    )}
                 </form>
             </div>
+
+            {canManageSecurity && (
+                <div className="bg-white shadow-md rounded-lg p-6 md:p-8 mt-8">
+                    <h2 className="text-xl font-semibold text-secondary-800 mb-2 border-b pb-4 flex items-center">
+                        <ShieldCheck className="h-6 w-6 text-primary-600 mr-2" />
+                        Two-Factor Authentication Policy
+                    </h2>
+                    <p className="text-sm text-secondary-600 mb-6">
+                        When required, staff must enter a code from an authenticator app at every login and cannot turn two-factor off.
+                    </p>
+
+                    {policyError && (
+                        <div className="mb-4 p-3 bg-red-50 border-l-4 border-red-500 text-red-700 flex items-center">
+                            <AlertCircle className="h-5 w-5 mr-2" />
+                            <p>{policyError}</p>
+                        </div>
+                    )}
+
+                    {policyMessage && (
+                        <div className="mb-4 p-3 bg-green-50 border-l-4 border-green-500 text-green-700 flex items-center">
+                            <CheckCircle className="h-5 w-5 mr-2" />
+                            <p>{policyMessage}</p>
+                        </div>
+                    )}
+
+                    {twoFactorPolicy && (
+                        <ul className="divide-y divide-secondary-200">
+                            {Object.keys(twoFactorPolicy).map(role => (
+                                <li key={role} className="flex items-center justify-between py-3">
+                                    <div>
+                                        <p className="text-sm font-medium text-secondary-900 capitalize">{role}</p>
+                                        <p className="text-xs text-secondary-500">
+                                            {twoFactorPolicy[role] ? 'Required at login' : 'Optional'}
+                                        </p>
+                                    </div>
+                                    <button
+                                        type="button"
+                                        onClick={() => handlePolicyToggle(role)}
+                                        disabled={policySaving}
+                                        className={`px-4 py-1.5 text-sm font-medium rounded-md disabled:opacity-60 ${
+                                            twoFactorPolicy[role]
+                                                ? 'bg-secondary-100 text-secondary-700 hover:bg-secondary-200'
+                                                : 'bg-primary-600 text-white hover:bg-primary-700'
+                                        }`}
+                                    >
+                                        {twoFactorPolicy[role] ? 'Make optional' : 'Require'}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
@@ -2,13 +2,17 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import axios, { AxiosError } from 'axios'; // AxiosError is imported
 import dayjs from 'dayjs';
-import { Car, LogIn, LogOut, MapPin, Clock, CheckSquare, XSquare, UserCheck, ListChecks, AlertTriangle, Info, Ban, UserMinus } from 'lucide-react';
+import { Car, LogIn, LogOut, MapPin, Clock, CheckSquare, XSquare, UserCheck, ListChecks, AlertTriangle, Info, Ban, UserMinus, UserX, Timer, ScanLine, CalendarPlus } from 'lucide-react';
+import { inTimeZone, formatInTimeZone } from '../../utils/dateTime';
+import { useAuth } from '../../contexts/AuthContext';
+import StaffBookingForm from '../../components/booking/StaffBookingForm';
 
 type LocationDetails = {
   id: number;
   name: string;
   totalSlots: number;
   availableSlots: number;
+  timeZone: string; // Times on the dashboard are shown in the location's zone
 };
 
 type VehicleSession = {
@@ -29,6 +33,31 @@ type LocationBooking = {
   status: string;
   licensePlateBooked?: string | null;
   checkedInLicensePlate?: string | null;
+  noShowAt?: string | null;
+  noShowFee?: number | null;
+};
+
+// GET /api/employee/overstays: checked-in bookings past their end time and grace window
+type OverstayingBooking = {
+  bookingId: number;
+  userName: string;
+  endTime: string;
+  licensePlateBooked?: string | null;
+  checkedInLicensePlate?: string | null;
+  overstayMinutes: number;
+  overstayCost: number;
+  currentCost: number;
+  userNotifiedAt?: string | null;
+};
+
+// GET /api/employee/bookings/by-code/:code: the booking behind a scanned or typed pass
+type PassBooking = {
+  bookingId: number;
+  userName: string;
+  userEmail: string;
+  licensePlateBooked?: string | null;
+  startTime: string;
+  endTime: string;
 };
 
 // Define the expected structure of error response data if it contains a message
@@ -37,10 +66,12 @@ interface ErrorResponseData {
 }
 
 const EmployeeDashboard: React.FC = () => {
+  const { hasPermission } = useAuth();
   const [location, setLocation] = useState<LocationDetails | null>(null);
   const [parkedVehicles, setParkedVehicles] = useState<VehicleSession[]>([]);
   const [recentActivity, setRecentActivity] = useState<VehicleSession[]>([]);
   const [locationBookings, setLocationBookings] = useState<LocationBooking[]>([]);
+  const [overstays, setOverstays] = useState<OverstayingBooking[]>([]);
 
   const [loading, setLoading] = useState(true);
   const [pageError, setPageError] = useState<string | null>(null);
@@ -52,6 +83,11 @@ const EmployeeDashboard: React.FC = () => {
   const [selectedVehicleId, setSelectedVehicleId] = useState<string>('');
   const [hourlyRate, setHourlyRate] = useState<number>(0); // Retained for potential future use
 
+  // Check-in by pass: a scanner types the code and presses Enter, or the employee types it
+  const [passCodeInput, setPassCodeInput] = useState('');
+  const [passBooking, setPassBooking] = useState<PassBooking | null>(null);
+  const [passPlateInput, setPassPlateInput] = useState('');
+
   const fetchDashboardData = useCallback(async (isInitialLoad = false) => {
     if (isInitialLoad) {
       setLoading(true);
@@ -63,11 +99,12 @@ const EmployeeDashboard: React.FC = () => {
     let locationDetailsPromiseFailed = false;
 
     try {
-      const [locationRes, allVehicleSessionsRes, rateRes, locationBookingsRes] = await Promise.allSettled([
+      const [locationRes, allVehicleSessionsRes, rateRes, locationBookingsRes, overstaysRes] = await Promise.allSettled([
         axios.get('/api/employee/location'),
         axios.get('/api/employee/vehicles'),
         axios.get('/api/settings/rate'), 
-        axios.get('/api/employee/location-bookings')
+        axios.get('/api/employee/location-bookings'),
+        axios.get('/api/employee/overstays')
       ]);
 
       if (locationRes.status === 'fulfilled') {
@@ -76,6 +113,7 @@ const EmployeeDashboard: React.FC = () => {
           name: locationRes.value.data.name,
           totalSlots: locationRes.value.data.totalSlots || locationRes.value.data.total_slots,
           availableSlots: locationRes.value.data.availableSlots || locationRes.value.data.available_slots,
+          timeZone: locationRes.value.data.timeZone,
         };
         setLocation(fetchedLocation);
       } else {
@@ -139,6 +177,8 @@ const EmployeeDashboard: React.FC = () => {
           status: b.status,
           licensePlateBooked: b.licensePlateBooked || b.license_plate_booked,
           checkedInLicensePlate: b.checkedInLicensePlate || b.checked_in_license_plate,
+          noShowAt: b.noShowAt,
+          noShowFee: b.noShowFee,
         }));
         setLocationBookings(fetchedLocationBookings.sort((a, b) => dayjs(a.startTime).valueOf() - dayjs(b.startTime).valueOf()));
       } else {
@@ -146,6 +186,13 @@ const EmployeeDashboard: React.FC = () => {
         setLocationBookings([]);
       }
 
+      if (overstaysRes.status === 'fulfilled') {
+        setOverstays(overstaysRes.value.data || []);
+      } else {
+        console.error("Failed to fetch overstays:", overstaysRes.reason);
+        setOverstays([]);
+      }
+
       if (isInitialLoad && !locationDetailsPromiseFailed) {
         setPageError(null);
       }
@@ -212,16 +259,65 @@ const EmployeeDashboard: React.FC = () => {
     }
   };
   
-  const handleBookedUserCheckOut = async (booking: LocationBooking) => {
+  const handlePassLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = passCodeInput.trim();
+    if (!code) return;
+    setActionError(null);
+    setActionSuccess(null);
+    setPassBooking(null);
+    setIsSubmitting(true);
+    try {
+      const response = await axios.get(`/api/employee/bookings/by-code/${encodeURIComponent(code)}`);
+      setPassBooking(response.data);
+      setPassPlateInput(response.data.licensePlateBooked || '');
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      setActionError(axiosErr.response?.data?.message || 'Could not look up this pass.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePassCheckIn = async () => {
+    if (!passBooking) return;
+    if (!passPlateInput.trim()) {
+      setActionError('License plate is required for checking in a booking.');
+      return;
+    }
+    setActionError(null);
+    setActionSuccess(null);
+    setIsSubmitting(true);
+    try {
+      const response = await axios.post(`/api/employee/bookings/by-code/${encodeURIComponent(passCodeInput.trim())}/checkin`, {
+        licensePlate: passPlateInput.trim().toUpperCase()
+      });
+      setActionSuccess(`${passBooking.userName} (LP: ${passPlateInput.trim().toUpperCase()}) checked in. ${response.data.message || ''}`);
+      setPassBooking(null);
+      setPassCodeInput('');
+      setPassPlateInput('');
+      fetchDashboardData();
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      setActionError(axiosErr.response?.data?.message || 'Failed to check in this pass.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleBookedUserCheckOut = async (booking: Pick<LocationBooking, 'bookingId' | 'licensePlateBooked' | 'checkedInLicensePlate'>) => {
     setActionError(null);
     setActionSuccess(null);
     setIsSubmitting(true);
     try {
       const response = await axios.post(`/api/employee/bookings/${booking.bookingId}/checkout`);
-      const cost = response.data.cost;
+      const { cost, bookedCost, overstayCost, overstayMinutes } = response.data;
       const lp = booking.checkedInLicensePlate || booking.licensePlateBooked || 'N/A';
       
-      const successMessage = `Booking ID ${booking.bookingId} (LP: ${lp}) checked out. Cost: ${cost !== undefined && cost !== null ? `₹${Number(cost).toFixed(2)}` : 'N/A'}`;
+      let successMessage = `Booking ID ${booking.bookingId} (LP: ${lp}) checked out. Cost: ${cost !== undefined && cost !== null ? `₹${Number(cost).toFixed(2)}` : 'N/A'}`;
+      if (overstayCost > 0) {
+        successMessage += ` (booked time ₹${Number(bookedCost).toFixed(2)} + overstay of ${overstayMinutes} min ₹${Number(overstayCost).toFixed(2)})`;
+      }
       setActionSuccess(successMessage);
       fetchDashboardData();
     } catch (err: any) {
@@ -297,10 +393,8 @@ const EmployeeDashboard: React.FC = () => {
     }
   };
 
-  const formatDateTime = (dateString: string | null | undefined) => {
-    if (!dateString) return 'N/A';
-    return dayjs(dateString).format('MMM D, YY, h:mm A');
-  };
+  const formatDateTime = (dateString: string | null | undefined) =>
+    formatInTimeZone(dateString, location?.timeZone, 'MMM D, YY, h:mm A');
 
   if (loading) {
     return (
@@ -327,10 +421,14 @@ const EmployeeDashboard: React.FC = () => {
     );
   }
 
+  // "Today" at the location
+  const isToday = (dateString: string) =>
+    inTimeZone(dateString, location?.timeZone).isSame(inTimeZone(dayjs(), location?.timeZone), 'day');
   const todayBookings = locationBookings.filter(b =>
-    (b.status === 'confirmed' || b.status === 'checked-in') &&
-    dayjs(b.startTime).isSame(dayjs(), 'day')
+    (b.status === 'confirmed' || b.status === 'checked-in') && isToday(b.startTime)
   );
+  // Released by the server's no-show job once the grace period passed without a check-in
+  const todayNoShows = locationBookings.filter(b => b.status === 'no-show' && isToday(b.startTime));
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -391,6 +489,54 @@ const EmployeeDashboard: React.FC = () => {
         </div>
       )}
 
+      {location && (
+        <div className="bg-white rounded-xl shadow-2xl p-6 sm:p-8 mb-10">
+          <h2 className="text-2xl font-semibold text-secondary-800 mb-5 flex items-center">
+            <ScanLine className="h-7 w-7 text-primary-600 mr-2.5" />
+            Check In by Pass
+          </h2>
+          <form onSubmit={handlePassLookup} className="flex flex-col sm:flex-row gap-3">
+            <input
+              type="text"
+              value={passCodeInput}
+              onChange={(e) => { setPassCodeInput(e.target.value.toUpperCase()); setPassBooking(null); }}
+              placeholder="Scan the QR pass or type the code, e.g. ABCDE-12345"
+              autoComplete="off"
+              className="flex-grow px-4 py-2.5 border border-secondary-300 rounded-md font-mono tracking-wider focus:outline-none focus:ring-2 focus:ring-primary-500"
+              disabled={isSubmitting}
+            />
+            <button type="submit" disabled={isSubmitting || !passCodeInput.trim()}
+              className="px-5 py-2.5 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-60 disabled:cursor-not-allowed">
+              Look Up
+            </button>
+          </form>
+          {passBooking && (
+            <div className="mt-4 p-4 bg-green-50 rounded-lg border border-green-200 flex flex-col sm:flex-row justify-between items-start sm:items-end gap-3">
+              <div>
+                <p className="font-medium text-secondary-900 text-lg">{passBooking.userName} <span className="text-sm text-secondary-500">(Booking ID {passBooking.bookingId})</span></p>
+                <p className="text-sm text-secondary-600">
+                  <Clock className="inline h-4 w-4 mr-1 align-text-bottom" />
+                  {formatDateTime(passBooking.startTime)} - {formatDateTime(passBooking.endTime)}
+                </p>
+                <label className="block text-xs font-medium text-secondary-600 mt-2 mb-1">License plate</label>
+                <input
+                  type="text"
+                  value={passPlateInput}
+                  onChange={(e) => setPassPlateInput(e.target.value.toUpperCase())}
+                  placeholder="Vehicle license plate"
+                  className="px-3 py-2 border border-secondary-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  disabled={isSubmitting}
+                />
+              </div>
+              <button onClick={handlePassCheckIn} disabled={isSubmitting || !passPlateInput.trim()}
+                className="px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-60 disabled:cursor-not-allowed flex items-center shadow">
+                <UserCheck className="h-4 w-4 mr-1.5" /> Check-In
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {location && (
         <div className="bg-white rounded-xl shadow-2xl p-6 sm:p-8 mb-10">
           <h2 className="text-2xl font-semibold text-secondary-800 mb-5 flex items-center">
@@ -454,6 +600,83 @@ const EmployeeDashboard: React.FC = () => {
         </div>
       )}
 
+      {location && overstays.length > 0 && (
+        <div className="bg-white rounded-xl shadow-2xl p-6 sm:p-8 mb-10 border-l-4 border-red-500">
+          <h2 className="text-2xl font-semibold text-secondary-800 mb-5 flex items-center">
+            <Timer className="h-7 w-7 text-red-600 mr-2.5" />
+            Overstaying ({overstays.length})
+          </h2>
+          <div className="space-y-3 max-h-[24rem] overflow-y-auto pr-2">
+            {overstays.map(booking => (
+              <div key={booking.bookingId} className="p-4 bg-red-50 rounded-lg border border-red-200 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+                <div className="flex-grow">
+                  <p className="font-medium text-secondary-900 text-lg">{booking.userName}</p>
+                  <p className="text-sm text-secondary-600">
+                    <Clock className="inline h-4 w-4 mr-1 align-text-bottom" />
+                    Booking ended {formatDateTime(booking.endTime)} · {booking.overstayMinutes} min over
+                  </p>
+                  {(booking.checkedInLicensePlate || booking.licensePlateBooked) && (
+                    <p className="text-sm text-secondary-500 mt-0.5"><Car className="inline h-4 w-4 mr-1 align-text-bottom" /> LP: {booking.checkedInLicensePlate || booking.licensePlateBooked}</p>
+                  )}
+                  <p className="text-sm text-red-700 mt-0.5">
+                    Overstay so far: ₹{booking.overstayCost.toFixed(2)} (total ₹{booking.currentCost.toFixed(2)})
+                    {booking.userNotifiedAt && <span className="text-secondary-500"> · user notified {formatDateTime(booking.userNotifiedAt)}</span>}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleBookedUserCheckOut(booking)}
+                  disabled={isSubmitting}
+                  className="w-full sm:w-auto px-3 py-2 text-xs bg-orange-500 text-white rounded-md hover:bg-orange-600 disabled:opacity-60 disabled:cursor-not-allowed flex items-center justify-center shadow hover:shadow-md transition-all shrink-0"
+                >
+                  <UserMinus className="h-4 w-4 mr-1.5" /> Check-Out User
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {location && todayNoShows.length > 0 && (
+        <div className="bg-white rounded-xl shadow-2xl p-6 sm:p-8 mb-10">
+          <h2 className="text-2xl font-semibold text-secondary-800 mb-5 flex items-center">
+            <UserX className="h-7 w-7 text-orange-600 mr-2.5" />
+            Today's No-Shows ({todayNoShows.length})
+          </h2>
+          <div className="space-y-3 max-h-[20rem] overflow-y-auto pr-2">
+            {todayNoShows.map(booking => (
+              <div key={booking.bookingId} className="p-4 bg-orange-50 rounded-lg border border-orange-200 flex flex-col sm:flex-row justify-between sm:items-center gap-2">
+                <div>
+                  <p className="font-medium text-secondary-900">{booking.userName}</p>
+                  <p className="text-sm text-secondary-600">
+                    <Clock className="inline h-4 w-4 mr-1 align-text-bottom" />
+                    {formatDateTime(booking.startTime)} - {formatDateTime(booking.endTime)}
+                  </p>
+                  {booking.licensePlateBooked && <p className="text-sm text-secondary-500 mt-0.5"><Car className="inline h-4 w-4 mr-1 align-text-bottom" /> Pre-reg LP: {booking.licensePlateBooked}</p>}
+                </div>
+                <div className="text-sm text-orange-800 sm:text-right">
+                  <p>Released {formatDateTime(booking.noShowAt)}</p>
+                  {booking.noShowFee !== null && booking.noShowFee !== undefined && <p className="font-semibold">Fee: ₹{Number(booking.noShowFee).toFixed(2)}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {location && hasPermission('bookings:write') && (
+        <div className="bg-white rounded-xl shadow-2xl p-6 sm:p-8 mb-10">
+          <h2 className="text-2xl font-semibold text-secondary-800 mb-2 flex items-center">
+            <CalendarPlus className="h-7 w-7 text-primary-600 mr-2.5" />
+            Book for a Customer
+          </h2>
+          <p className="text-sm text-secondary-600 mb-5">For phone reservations and walk-ins. The booking is the customer's; you're recorded as the one who made it.</p>
+          <StaffBookingForm
+            fixedLocation={{ id: location.id, name: location.name, timeZone: location.timeZone }}
+            onBooked={() => fetchDashboardData()}
+          />
+        </div>
+      )}
+
       {location && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-10">
           <div className="bg-white rounded-xl shadow-2xl p-6 sm:p-8">
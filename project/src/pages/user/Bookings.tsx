@@ -1,10 +1,11 @@
 // src/pages/user/Bookings.tsx
 import React, { useState, useEffect, useCallback } from 'react';
 import axios, { AxiosError } from 'axios';
-import { Calendar, Clock, MapPin, AlertCircle, CheckCircle, XCircle, MessageSquare, Car as CarIcon, TrendingUp, LogIn as LogInIcon, LogOut as LogOutIcon } from 'lucide-react'; // Added LogInIcon, LogOutIcon
+import { Calendar, Clock, MapPin, AlertCircle, CheckCircle, XCircle, MessageSquare, Car as CarIcon, TrendingUp, LogIn as LogInIcon, LogOut as LogOutIcon, Edit3, Loader2, Repeat, Hourglass, QrCode, Download } from 'lucide-react'; // Added LogInIcon, LogOutIcon
 import { useNavigate } from 'react-router-dom';
 import dayjs from 'dayjs';
 import isBetween from 'dayjs/plugin/isBetween';
+import { formatInTimeZone, toTimeZoneInputValue, fromTimeZoneInputValue } from '../../utils/dateTime';
 
 dayjs.extend(isBetween);
 
@@ -14,30 +15,247 @@ type Booking = {
   endTime: string;
   locationName: string;
   locationId: number;
+  locationTimeZone?: string | null; // Times are shown in the location's zone
   status: string;
   licensePlateBooked?: string;
   actualEntryTime?: string | null; // New field
   actualExitTime?: string | null;
   finalCost?: number | null;
+  seriesId?: number | null; // Set when the booking is one date of a recurring booking
+  noShowFee?: number | null; // Charged when the server marked the booking as a no-show
+  overstayCharge?: number | null; // Part of finalCost for time parked past the booking's end
+  confirmationCode?: string | null; // Shown on the booking pass and checked at the gate
+  quotedAmount?: number | null; // Price quoted when booked or last changed
+};
+
+// An entry from GET /api/locations/waitlist; waiting entries are auto-booked when capacity frees up
+type WaitlistEntry = {
+  id: number;
+  locationName: string;
+  locationTimeZone?: string | null;
+  startTime: string;
+  endTime: string;
+  status: 'waiting' | 'booked';
+  bookingId: number | null;
+  position: number | null;
 };
 
 interface ErrorResponseData {
   message?: string;
 }
 
+// Response of PATCH /api/locations/bookings/:id with preview: true
+type ModificationPreview = {
+  isBookable: boolean;
+  message: string;
+  currentEstimate: number;
+  newEstimate: number;
+  priceDifference: number;
+};
+
+// Response of GET /api/locations/bookings/:id/pass
+type BookingPass = {
+  bookingId: number;
+  confirmationCode: string;
+  qrCodeDataUrl: string;
+  locationName: string;
+  locationTimeZone: string;
+  startTime: string;
+  endTime: string;
+  licensePlateBooked: string | null;
+  validFrom: string;
+};
+
+const formatPriceDifference = (difference: number) => {
+  if (difference === 0) return 'No change';
+  return `${difference > 0 ? '+' : '-'}₹${Math.abs(difference).toFixed(2)}`;
+};
+
+// Inline editor for a booking's times with a live capacity check and price difference. The inputs hold wall-clock
+// times at the booking's location.
+const ModifyBookingPanel: React.FC<{
+  booking: Booking;
+  onSaved: (message: string) => void;
+  onClose: () => void;
+}> = ({ booking, onSaved, onClose }) => {
+  const isCheckedIn = booking.status === 'checked-in';
+  const timeZone = booking.locationTimeZone;
+  const hasStarted = !dayjs(booking.startTime).isAfter(dayjs());
+  const [startTime, setStartTime] = useState(toTimeZoneInputValue(booking.startTime, timeZone));
+  const [endTime, setEndTime] = useState(toTimeZoneInputValue(booking.endTime, timeZone));
+  const [preview, setPreview] = useState<ModificationPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const changes = useCallback(() => ({
+    startTime: fromTimeZoneInputValue(startTime, timeZone),
+    endTime: fromTimeZoneInputValue(endTime, timeZone),
+  }), [startTime, endTime, timeZone]);
+
+  const unchanged = startTime === toTimeZoneInputValue(booking.startTime, timeZone) && endTime === toTimeZoneInputValue(booking.endTime, timeZone);
+
+  // Re-check availability and price shortly after the times stop changing
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+    if (unchanged || !dayjs(startTime).isValid() || !dayjs(endTime).isValid()) return;
+
+    const handler = setTimeout(async () => {
+      setIsPreviewing(true);
+      try {
+        const response = await axios.patch(`/api/locations/bookings/${booking.id}`, { ...changes(), preview: true });
+        setPreview(response.data);
+      } catch (err) {
+        const axiosErr = err as AxiosError<ErrorResponseData>;
+        setError(axiosErr.response?.data?.message || 'Could not check the new times.');
+      } finally {
+        setIsPreviewing(false);
+      }
+    }, 700);
+    return () => clearTimeout(handler);
+  }, [booking.id, startTime, endTime, unchanged, changes]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await axios.patch(`/api/locations/bookings/${booking.id}`, changes());
+      onSaved(response.data.message || 'Booking updated successfully.');
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      setError(axiosErr.response?.data?.message || 'Failed to update booking.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="px-6 py-4 bg-primary-50 border-t border-primary-100 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-secondary-600 mb-1">Entry</label>
+          <input type="datetime-local" value={startTime} onChange={(e) => setStartTime(e.target.value)}
+                 disabled={isCheckedIn || hasStarted}
+                 min={toTimeZoneInputValue(dayjs(), timeZone)}
+                 className="w-full px-3 py-2 border border-secondary-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-secondary-100" />
+          {(isCheckedIn || hasStarted) && (
+            <p className="mt-1 text-xs text-secondary-500">This booking has started, so only the exit time can change.</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-secondary-600 mb-1">Exit</label>
+          <input type="datetime-local" value={endTime} onChange={(e) => setEndTime(e.target.value)}
+                 min={isCheckedIn ? toTimeZoneInputValue(booking.endTime, timeZone) : startTime}
+                 className="w-full px-3 py-2 border border-secondary-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500" />
+          {isCheckedIn && (
+            <p className="mt-1 text-xs text-secondary-500">You're checked in: the booking can be extended but not shortened.</p>
+          )}
+        </div>
+      </div>
+
+      {isPreviewing && (
+        <p className="flex items-center text-sm text-secondary-600"><Loader2 className="h-4 w-4 mr-2 animate-spin" /> Checking availability and price...</p>
+      )}
+      {error && (
+        <p className="flex items-center text-sm text-red-700"><AlertCircle className="h-4 w-4 mr-2" /> {error}</p>
+      )}
+      {preview && (
+        <div className={`text-sm rounded-md p-3 ${preview.isBookable ? 'bg-white text-secondary-700' : 'bg-red-50 text-red-700'}`}>
+          <p className="font-medium">{preview.message}</p>
+          <p className="mt-1">
+            Estimated cost: ₹{preview.currentEstimate.toFixed(2)} → ₹{preview.newEstimate.toFixed(2)}{' '}
+            <span className={`font-semibold ${preview.priceDifference > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+              ({formatPriceDifference(preview.priceDifference)})
+            </span>
+          </p>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <button type="button" onClick={onClose} disabled={isSaving}
+                className="px-4 py-2 text-sm bg-secondary-200 text-secondary-700 rounded-md hover:bg-secondary-300 disabled:opacity-50">
+          Close
+        </button>
+        <button type="button" onClick={handleSave} disabled={isSaving || isPreviewing || !preview?.isBookable}
+                className="px-4 py-2 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50">
+          {isSaving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// The booking pass: a QR code of the confirmation code for the gate scanner, with the code to read out if it won't scan
+const BookingPassPanel: React.FC<{ bookingId: number; onClose: () => void }> = ({ bookingId, onClose }) => {
+  const [pass, setPass] = useState<BookingPass | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPass = async () => {
+      try {
+        const response = await axios.get(`/api/locations/bookings/${bookingId}/pass`);
+        setPass(response.data);
+      } catch (err) {
+        const axiosErr = err as AxiosError<ErrorResponseData>;
+        setError(axiosErr.response?.data?.message || 'Could not load the booking pass.');
+      }
+    };
+    fetchPass();
+  }, [bookingId]);
+
+  return (
+    <div className="px-6 py-4 bg-primary-50 border-t border-primary-100">
+      {!pass && !error && (
+        <p className="flex items-center text-sm text-secondary-600"><Loader2 className="h-4 w-4 mr-2 animate-spin" /> Loading pass...</p>
+      )}
+      {error && (
+        <p className="flex items-center text-sm text-red-700"><AlertCircle className="h-4 w-4 mr-2" /> {error}</p>
+      )}
+      {pass && (
+        <div className="flex flex-col sm:flex-row items-center sm:items-start gap-6">
+          <img src={pass.qrCodeDataUrl} alt={`QR pass for booking ${pass.bookingId}`} className="h-44 w-44 bg-white rounded-md border border-secondary-200" />
+          <div className="space-y-2 text-sm text-secondary-700">
+            <p className="text-xs uppercase tracking-wide text-secondary-500">Confirmation code</p>
+            <p className="font-mono text-2xl font-bold tracking-widest text-secondary-900">{pass.confirmationCode}</p>
+            <p>{pass.locationName}</p>
+            <p>{formatInTimeZone(pass.startTime, pass.locationTimeZone, 'ddd, MMM D, YYYY h:mm A')} - {formatInTimeZone(pass.endTime, pass.locationTimeZone, 'h:mm A')}</p>
+            {pass.licensePlateBooked && <p>Vehicle: <span className="font-medium">{pass.licensePlateBooked}</span></p>}
+            <p className="text-xs text-secondary-500">Show this at the entrance from {formatInTimeZone(pass.validFrom, pass.locationTimeZone, 'h:mm A')}.</p>
+          </div>
+        </div>
+      )}
+      <div className="flex justify-end space-x-3 mt-4">
+        <button type="button" onClick={onClose}
+                className="px-4 py-2 text-sm bg-secondary-200 text-secondary-700 rounded-md hover:bg-secondary-300">
+          Close
+        </button>
+        {pass && (
+          <a href={pass.qrCodeDataUrl} download={`parkease-pass-${pass.bookingId}.png`}
+             className="inline-flex items-center px-4 py-2 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700">
+            <Download className="h-4 w-4 mr-1.5" /> Download Pass
+          </a>
+        )}
+      </div>
+    </div>
+  );
+};
+
 const UserBookings: React.FC = () => {
   const navigate = useNavigate();
   const [bookings, setBookings] = useState<Booking[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
   const [actionError, setActionError] = useState<string | null>(null);
   const [actionSuccess, setActionSuccess] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [modifyingBookingId, setModifyingBookingId] = useState<number | null>(null);
+  const [passBookingId, setPassBookingId] = useState<number | null>(null);
 
-  const formatUserDateTime = (dateString?: string | null) => {
-    if (!dateString) return 'N/A';
-    return dayjs(dateString).format('ddd, MMM D, YY, h:mm A');
-  };
+  // In the booking location's zone, wherever the user is
+  const formatUserDateTime = (dateString: string | null | undefined, timeZone?: string | null) =>
+    formatInTimeZone(dateString, timeZone, 'ddd, MMM D, YY, h:mm A');
 
   const fetchBookings = useCallback(async (isManualRefresh = false) => {
     if (!isManualRefresh && bookings.length > 0) {
@@ -63,13 +281,26 @@ const UserBookings: React.FC = () => {
           endTime: b.endTime,
           locationName: b.locationName || 'N/A',
           locationId: b.locationId,
+          locationTimeZone: b.locationTimeZone,
           status: b.status,
           licensePlateBooked: b.licensePlateBooked,
           actualEntryTime: b.actualEntryTime, // Map new field
           actualExitTime: b.actualExitTime, 
           finalCost: b.finalCost,          
+          seriesId: b.seriesId,
+          noShowFee: b.noShowFee,
+          overstayCharge: b.overstayCharge,
+          confirmationCode: b.confirmationCode,
+          quotedAmount: b.quotedAmount,
         }));
         setBookings(mappedBookings);
+        try {
+          const waitlistResponse = await axios.get('/api/locations/waitlist');
+          setWaitlist(Array.isArray(waitlistResponse.data) ? waitlistResponse.data : []);
+        } catch (waitlistErr) {
+          // The bookings are still worth showing without the waitlist
+          console.error('Error fetching waitlist:', waitlistErr);
+        }
       } else {
         console.error('Invalid response format for bookings:', response.data);
         setFetchError('Failed to load bookings: Invalid server response.');
@@ -125,6 +356,52 @@ const UserBookings: React.FC = () => {
     }
   };
   
+  // Cancels every remaining date of a recurring booking
+  const handleCancelSeries = async (seriesId: number) => {
+    if (!window.confirm('Cancel all upcoming dates of this recurring booking? This action cannot be undone.')) {
+      return;
+    }
+    setActionError(null);
+    setActionSuccess(null);
+    setIsSubmitting(true);
+    try {
+      const response = await axios.patch(`/api/locations/bookings/series/${seriesId}/cancel`);
+      setActionSuccess(response.data.message || 'Recurring booking cancelled.');
+      fetchBookings(true);
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      setActionError(axiosErr.response?.data?.message || 'Failed to cancel recurring booking.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLeaveWaitlist = async (entryId: number) => {
+    if (!window.confirm('Leave the waitlist for this time window?')) {
+      return;
+    }
+    setActionError(null);
+    setActionSuccess(null);
+    setIsSubmitting(true);
+    try {
+      const response = await axios.patch(`/api/locations/waitlist/${entryId}/cancel`);
+      setActionSuccess(response.data.message || 'You have left the waitlist.');
+      fetchBookings(true);
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      setActionError(axiosErr.response?.data?.message || 'Failed to leave the waitlist.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleModificationSaved = (message: string) => {
+    setActionError(null);
+    setActionSuccess(message);
+    setModifyingBookingId(null);
+    fetchBookings(true);
+  };
+
   if (loading && bookings.length === 0) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -169,6 +446,44 @@ const UserBookings: React.FC = () => {
         </div>
       )}
 
+      {waitlist.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md mb-6">
+          <div className="px-6 py-4 border-b border-secondary-200 flex items-center">
+            <Hourglass className="h-5 w-5 text-primary-600 mr-2" />
+            <h2 className="text-lg font-semibold text-secondary-900">Waitlist</h2>
+          </div>
+          <ul className="divide-y divide-secondary-100">
+            {waitlist.map(entry => (
+              <li key={entry.id} className="px-6 py-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div>
+                  <p className="font-medium text-secondary-900 flex items-center">
+                    <MapPin className="h-4 w-4 mr-1 text-secondary-500" /> {entry.locationName}
+                  </p>
+                  <p className="text-sm text-secondary-600 flex items-center mt-1">
+                    <Clock className="h-4 w-4 mr-1" /> {formatUserDateTime(entry.startTime, entry.locationTimeZone)} - {formatUserDateTime(entry.endTime, entry.locationTimeZone)}
+                  </p>
+                </div>
+                {entry.status === 'waiting' ? (
+                  <div className="flex items-center gap-3">
+                    <span className="px-3 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                      #{entry.position} in line
+                    </span>
+                    <button onClick={() => handleLeaveWaitlist(entry.id)} disabled={isSubmitting}
+                            className="px-3 py-1 text-sm bg-secondary-200 text-secondary-700 rounded-md hover:bg-secondary-300 disabled:opacity-50">
+                      Leave
+                    </button>
+                  </div>
+                ) : (
+                  <span className="px-3 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                    Booked{entry.bookingId ? ` (Booking #${entry.bookingId})` : ''}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {bookings.length === 0 && !fetchError && !loading ? (
         <div className="text-center py-12 bg-white rounded-lg shadow-xl">
           <Calendar className="h-16 w-16 text-secondary-400 mx-auto mb-6" />
@@ -200,24 +515,32 @@ const UserBookings: React.FC = () => {
             } else if (booking.status === 'completed') {
               statusText = 'Completed';
               statusColorClasses = 'bg-gray-200 text-gray-800 border-gray-500';
+            } else if (booking.status === 'checked-in' && endTime.isBefore(now)) {
+              statusText = 'Overstaying';
+              statusColorClasses = 'bg-red-100 text-red-700 border-red-500';
             } else if (booking.status === 'checked-in') {
               statusText = 'Checked-In / Active';
               statusColorClasses = 'bg-green-100 text-green-700 border-green-500';
+            } else if (booking.status === 'no-show') {
+              statusText = 'Missed';
+              statusColorClasses = 'bg-orange-100 text-orange-700 border-orange-500';
             } else if (booking.status === 'confirmed') {
               if (startTime.isAfter(now)) {
                 statusText = 'Upcoming';
                 statusColorClasses = 'bg-blue-100 text-blue-700 border-blue-500';
-              } else if (now.isBetween(startTime, endTime, null, '[]')) {
+              } else {
+                // The server marks it as a no-show once the grace period is over
                 statusText = 'Due for Check-in'; 
                 statusColorClasses = 'bg-yellow-100 text-yellow-700 border-yellow-500';
-              } else { 
-                statusText = 'Missed';
-                statusColorClasses = 'bg-orange-100 text-orange-700 border-orange-500';
               }
             }
             
             const canLeaveFeedback = booking.status === 'completed';
             const canCancel = booking.status === 'confirmed' && startTime.isAfter(now.add(1, 'hour')); 
+            const canModify = (booking.status === 'confirmed' || booking.status === 'checked-in') && endTime.isAfter(now);
+            const canShowPass = booking.status === 'confirmed' && Boolean(booking.confirmationCode) && endTime.isAfter(now);
+            const canCancelSeries = !!booking.seriesId && bookings.some(b =>
+              b.seriesId === booking.seriesId && b.status === 'confirmed' && dayjs(b.startTime).isAfter(now.add(1, 'hour')));
 
             return (
               <div
@@ -231,7 +554,14 @@ const UserBookings: React.FC = () => {
                                 <MapPin className="h-5 w-5 mr-2 text-primary-600 flex-shrink-0" />
                                 {booking.locationName}
                             </div>
-                            <p className="text-xs text-secondary-500 ml-7">(Booking ID: {booking.id})</p>
+                            <p className="text-xs text-secondary-500 ml-7">
+                                (Booking ID: {booking.id})
+                                {booking.seriesId && (
+                                    <span className="inline-flex items-center ml-2 text-primary-600">
+                                        <Repeat className="h-3 w-3 mr-1" /> Recurring
+                                    </span>
+                                )}
+                            </p>
                         </div>
                         <div className={`mt-2 sm:mt-0 px-3 py-1.5 rounded-full text-sm font-semibold whitespace-nowrap ${statusColorClasses}`}>
                             {statusText}
@@ -243,14 +573,14 @@ const UserBookings: React.FC = () => {
                             <Calendar className="h-5 w-5 mr-2 text-secondary-500 flex-shrink-0" />
                             <div>
                                 <span className="font-medium block text-xs text-secondary-500">Scheduled Entry</span>
-                                {formatUserDateTime(booking.startTime)}
+                                {formatUserDateTime(booking.startTime, booking.locationTimeZone)}
                             </div>
                         </div>
                         <div className="flex items-center">
                             <Clock className="h-5 w-5 mr-2 text-secondary-500 flex-shrink-0" />
                             <div>
                                 <span className="font-medium block text-xs text-secondary-500">Scheduled Exit</span>
-                                {formatUserDateTime(booking.endTime)}
+                                {formatUserDateTime(booking.endTime, booking.locationTimeZone)}
                             </div>
                         </div>
                         
@@ -260,7 +590,7 @@ const UserBookings: React.FC = () => {
                                 <LogInIcon className="h-5 w-5 mr-2 text-green-600 flex-shrink-0" />
                                 <div>
                                     <span className="font-medium block text-xs text-secondary-500">Actual Entry</span>
-                                    {formatUserDateTime(booking.actualEntryTime)}
+                                    {formatUserDateTime(booking.actualEntryTime, booking.locationTimeZone)}
                                 </div>
                             </div>
                         )}
@@ -271,7 +601,7 @@ const UserBookings: React.FC = () => {
                                 <LogOutIcon className="h-5 w-5 mr-2 text-red-600 flex-shrink-0" />
                                 <div>
                                     <span className="font-medium block text-xs text-secondary-500">Actual Exit</span>
-                                    {formatUserDateTime(booking.actualExitTime)}
+                                    {formatUserDateTime(booking.actualExitTime, booking.locationTimeZone)}
                                 </div>
                             </div>
                         )}
@@ -286,19 +616,57 @@ const UserBookings: React.FC = () => {
                             </div>
                         )}
                         
+                        {(booking.status === 'confirmed' || booking.status === 'checked-in') && booking.quotedAmount !== null && booking.quotedAmount !== undefined && (
+                            <div className="flex items-center">
+                                <TrendingUp className="h-5 w-5 mr-2 text-secondary-500 flex-shrink-0" />
+                                <div>
+                                    <span className="font-medium block text-xs text-secondary-500">Quoted Price</span>
+                                    ₹{Number(booking.quotedAmount).toFixed(2)}
+                                </div>
+                            </div>
+                        )}
+
                         {(booking.status === 'completed' && booking.finalCost !== null && booking.finalCost !== undefined) && (
                             <div className="flex items-center">
                                 <TrendingUp className="h-5 w-5 mr-2 text-green-600 flex-shrink-0" />
                                 <div>
                                     <span className="font-medium block text-xs text-secondary-500">Final Cost</span>
                                     ₹{Number(booking.finalCost).toFixed(2)}
+                                    {booking.overstayCharge !== null && booking.overstayCharge !== undefined && (
+                                        <span className="block text-xs text-orange-600">incl. ₹{Number(booking.overstayCharge).toFixed(2)} overstay</span>
+                                    )}
+                                    {booking.quotedAmount !== null && booking.quotedAmount !== undefined && (
+                                        <span className="block text-xs text-secondary-500">Quoted ₹{Number(booking.quotedAmount).toFixed(2)}</span>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+
+                        {booking.status === 'no-show' && booking.noShowFee !== null && booking.noShowFee !== undefined && (
+                            <div className="flex items-center">
+                                <TrendingUp className="h-5 w-5 mr-2 text-orange-600 flex-shrink-0" />
+                                <div>
+                                    <span className="font-medium block text-xs text-secondary-500">No-Show Fee</span>
+                                    ₹{Number(booking.noShowFee).toFixed(2)}
                                 </div>
                             </div>
                         )}
                     </div>
                 </div>
                 
-                {(canLeaveFeedback || canCancel) && (
+                {modifyingBookingId === booking.id && (
+                    <ModifyBookingPanel
+                        booking={booking}
+                        onSaved={handleModificationSaved}
+                        onClose={() => setModifyingBookingId(null)}
+                    />
+                )}
+
+                {passBookingId === booking.id && (
+                    <BookingPassPanel bookingId={booking.id} onClose={() => setPassBookingId(null)} />
+                )}
+
+                {(canLeaveFeedback || canShowPass || canCancel || canModify || canCancelSeries) && modifyingBookingId !== booking.id && passBookingId !== booking.id && (
                     <div className="px-6 py-4 bg-secondary-50 border-t border-secondary-200 flex flex-col sm:flex-row sm:justify-end space-y-2 sm:space-y-0 sm:space-x-3">
                     {canLeaveFeedback && (
                         <button
@@ -309,13 +677,40 @@ const UserBookings: React.FC = () => {
                         <MessageSquare className="h-4 w-4 mr-1.5" /> Leave Feedback
                         </button>
                     )}
+                    {canShowPass && (
+                        <button
+                        onClick={() => { setModifyingBookingId(null); setPassBookingId(booking.id); }}
+                        disabled={isSubmitting}
+                        className="w-full sm:w-auto inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-primary-700 bg-primary-100 hover:bg-primary-200 rounded-md shadow-sm transition-colors disabled:opacity-70"
+                        >
+                        <QrCode className="h-4 w-4 mr-1.5" /> Show Pass
+                        </button>
+                    )}
+                    {canModify && (
+                        <button
+                        onClick={() => { setActionError(null); setActionSuccess(null); setPassBookingId(null); setModifyingBookingId(booking.id); }}
+                        disabled={isSubmitting}
+                        className="w-full sm:w-auto inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-primary-700 bg-primary-100 hover:bg-primary-200 rounded-md shadow-sm transition-colors disabled:opacity-70"
+                        >
+                        <Edit3 className="h-4 w-4 mr-1.5" /> {booking.status === 'checked-in' ? 'Extend Booking' : 'Modify Booking'}
+                        </button>
+                    )}
                     {canCancel && (
                         <button
                         onClick={() => handleCancelBooking(booking.id)}
                         disabled={isSubmitting}
                         className="w-full sm:w-auto inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-red-700 bg-red-100 hover:bg-red-200 rounded-md shadow-sm transition-colors disabled:opacity-70"
                         >
-                        <XCircle className="h-4 w-4 mr-1.5" /> Cancel Booking
+                        <XCircle className="h-4 w-4 mr-1.5" /> {booking.seriesId ? 'Cancel This Date' : 'Cancel Booking'}
+                        </button>
+                    )}
+                    {canCancelSeries && (
+                        <button
+                        onClick={() => handleCancelSeries(booking.seriesId as number)}
+                        disabled={isSubmitting}
+                        className="w-full sm:w-auto inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-200 hover:bg-red-50 rounded-md shadow-sm transition-colors disabled:opacity-70"
+                        >
+                        <Repeat className="h-4 w-4 mr-1.5" /> Cancel Whole Series
                         </button>
                     )}
                     </div>
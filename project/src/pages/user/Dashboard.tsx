@@ -2,11 +2,13 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
-import axios from 'axios';
-import { Calendar, Clock, MapPin, AlertCircle, CheckCircle, Car as CarIcon, Loader2, Info } from 'lucide-react'; // Added CarIcon, Loader2, Info
+import axios, { AxiosError } from 'axios';
+import { Calendar, Clock, MapPin, AlertCircle, CheckCircle, Car as CarIcon, Loader2, Info, Repeat, Hourglass, Lightbulb } from 'lucide-react'; // Added CarIcon, Loader2, Info
 import dayjs from 'dayjs';
 import isBetween from 'dayjs/plugin/isBetween';
 import StarRating from '../../components/common/StarRating'; // Adjust path if needed
+import AvailabilityHeatmap from '../../components/booking/AvailabilityHeatmap';
+import { formatInTimeZone, toTimeZoneInputValue, fromTimeZoneInputValue } from '../../utils/dateTime';
 
 dayjs.extend(isBetween);
 
@@ -19,8 +21,14 @@ type Location = {
   availableSlots: number; // Physical drive-up slots
   coverImageUrl: string;
   averageRating: number;
+  timeZone: string; // IANA zone; the booking form's times are wall-clock times there
 };
 
+interface ErrorResponseData {
+  message?: string;
+  code?: string;
+}
+
 type BookingAvailabilityResponse = {
     isBookable: boolean;
     message: string;
@@ -29,12 +37,48 @@ type BookingAvailabilityResponse = {
     currentBookedCountInSlot?: number;
 };
 
+// One date of a recurring booking, as reported by POST /api/locations/bookings/series
+type SeriesOccurrence = {
+    date: string;
+    startTime: string;
+    endTime: string;
+    bookingId?: number;
+    reason?: string;
+};
+
+// GET /api/locations/:id/booking-suggestions, offered when the chosen window is full
+type BookingSuggestions = {
+    windows: { startTime: string; endTime: string; available: number }[];
+    locations: { id: number; name: string; distanceKm: number; available: number }[];
+};
+
+type SeriesReport = {
+    message: string;
+    booked: SeriesOccurrence[];
+    failed: SeriesOccurrence[];
+    quotedTotal?: number;
+};
+
+// GET /api/locations/:id/quote: the price of the window at the current rate, as checkout would charge it
+type BookingQuote = {
+    hourlyRate: number;
+    billableHours: number;
+    amount: number;
+};
+
+const WEEKDAYS = [
+    { day: 1, label: 'Mon' }, { day: 2, label: 'Tue' }, { day: 3, label: 'Wed' }, { day: 4, label: 'Thu' },
+    { day: 5, label: 'Fri' }, { day: 6, label: 'Sat' }, { day: 0, label: 'Sun' },
+];
+const MAX_SERIES_WEEKS = 12;
+
 const UserDashboard: React.FC = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const [location, setLocation] = useState<Location | null>(null);
   const [loading, setLoading] = useState(true);
   const [isBooking, setIsBooking] = useState(false); // For booking submission spinner
+  const [isJoiningWaitlist, setIsJoiningWaitlist] = useState(false);
   const [error, setError] = useState<string | null>(null); // For general/submission errors
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   
@@ -48,18 +92,26 @@ const UserDashboard: React.FC = () => {
   const [bookingAvailability, setBookingAvailability] = useState<BookingAvailabilityResponse | null>(null);
   const [isCheckingAvailability, setIsCheckingAvailability] = useState(false);
 
+  // Recurrence: the start/end times above are the first day; the series repeats on these days for `weeks` weeks
+  const [recurrence, setRecurrence] = useState({ enabled: false, daysOfWeek: [1, 2, 3, 4, 5], weeks: 4 });
+  const [seriesReport, setSeriesReport] = useState<SeriesReport | null>(null);
+  const [suggestions, setSuggestions] = useState<BookingSuggestions | null>(null);
+  const [quote, setQuote] = useState<BookingQuote | null>(null);
 
-  const fetchLocation = useCallback(async (id: string) => {
+
+  const fetchLocation = useCallback(async (id: string): Promise<Location | null> => {
     setLoading(true);
     setError(null);
     setBookingAvailability(null); // Reset availability when location changes
     try {
       const response = await axios.get(`/api/locations/${id}`);
       setLocation(response.data);
+      return response.data;
     } catch (err) {
       console.error('Error fetching location:', err);
       setError('Failed to load location details. Please ensure the location exists or try again.');
       setLocation(null);
+      return null;
     } finally {
       setLoading(false);
     }
@@ -68,13 +120,27 @@ const UserDashboard: React.FC = () => {
   useEffect(() => {
     const locationId = searchParams.get('locationId');
     if (locationId) {
-      fetchLocation(locationId);
+      const loadLocation = async () => {
+        const loadedLocation = await fetchLocation(locationId);
+        // Times carried over from a suggestion at another location, shown in this location's zone
+        const startTime = searchParams.get('startTime');
+        const endTime = searchParams.get('endTime');
+        if (loadedLocation && startTime && endTime && dayjs(startTime).isValid() && dayjs(endTime).isValid()) {
+          setBookingData(prev => ({
+            ...prev,
+            startTime: toTimeZoneInputValue(startTime, loadedLocation.timeZone),
+            endTime: toTimeZoneInputValue(endTime, loadedLocation.timeZone),
+          }));
+        }
+      };
+      loadLocation();
     } else {
       navigate('/user/bookings');
     }
   }, [searchParams, navigate, fetchLocation]);
 
 
+  // startTimeParam/endTimeParam are ISO-8601 instants
   const checkBookingAvailability = useCallback(async (locationIdParam: number, startTimeParam: string, endTimeParam: string) => {
     if (!startTimeParam || !endTimeParam || !dayjs(startTimeParam).isValid() || !dayjs(endTimeParam).isValid() || dayjs(endTimeParam).isBefore(dayjs(startTimeParam))) {
       setBookingAvailability(null);
@@ -82,8 +148,24 @@ const UserDashboard: React.FC = () => {
     }
     setIsCheckingAvailability(true);
     setBookingAvailability(null); // Clear previous while checking
+    setSeriesReport(null);
+    setQuote(null);
     setError(null); 
     try {
+      if (recurrence.enabled) {
+        // Dry run of the series: which dates would be booked and which are full
+        const response = await axios.post('/api/locations/bookings/series', {
+          parkingLocationId: locationIdParam,
+          startTime: dayjs(startTimeParam).toISOString(),
+          endTime: dayjs(endTimeParam).toISOString(),
+          daysOfWeek: recurrence.daysOfWeek,
+          weeks: recurrence.weeks,
+          preview: true,
+        });
+        setSeriesReport(response.data);
+        setBookingAvailability({ isBookable: response.data.booked.length > 0, message: response.data.message });
+        return;
+      }
       const response = await axios.get(`/api/locations/${locationIdParam}/booking-availability`, {
         params: {
           startTime: dayjs(startTimeParam).toISOString(),
@@ -91,6 +173,18 @@ const UserDashboard: React.FC = () => {
         },
       });
       setBookingAvailability(response.data);
+      try {
+        const quoteResponse = await axios.get(`/api/locations/${locationIdParam}/quote`, {
+          params: {
+            startTime: dayjs(startTimeParam).toISOString(),
+            endTime: dayjs(endTimeParam).toISOString(),
+          },
+        });
+        setQuote(quoteResponse.data);
+      } catch (quoteErr) {
+        // The booking can still be made without an estimate on screen
+        console.error('Error fetching price quote:', quoteErr);
+      }
     } catch (err: any) {
       console.error('Error checking booking availability:', err);
       setBookingAvailability({ 
@@ -100,17 +194,21 @@ const UserDashboard: React.FC = () => {
     } finally {
       setIsCheckingAvailability(false);
     }
-  }, []); // No dependencies, it's a static utility essentially triggered by other effects/handlers
+  }, [recurrence]); // Re-created when the recurrence changes so the check covers the whole series
 
   // useEffect to check availability when times change (with debounce)
   useEffect(() => {
     if (location && bookingData.startTime && bookingData.endTime &&
         dayjs(bookingData.startTime).isValid() && dayjs(bookingData.endTime).isValid() &&
         dayjs(bookingData.endTime).isAfter(dayjs(bookingData.startTime)) &&
-        dayjs(bookingData.startTime).isAfter(dayjs().subtract(1, 'minute'))) { // Prevent check for past times
+        dayjs(fromTimeZoneInputValue(bookingData.startTime, location.timeZone)).isAfter(dayjs().subtract(1, 'minute'))) { // Prevent check for past times
 
       const handler = setTimeout(() => {
-        checkBookingAvailability(location.id, bookingData.startTime, bookingData.endTime);
+        checkBookingAvailability(
+          location.id,
+          fromTimeZoneInputValue(bookingData.startTime, location.timeZone),
+          fromTimeZoneInputValue(bookingData.endTime, location.timeZone)
+        );
       }, 700); // Debounce for 700ms
 
       return () => {
@@ -145,6 +243,49 @@ const UserDashboard: React.FC = () => {
     }
   };
 
+  // Alternatives for a full window; not offered for recurring bookings, whose full dates are listed instead
+  useEffect(() => {
+    setSuggestions(null);
+    if (!location || recurrence.enabled || !bookingAvailability || bookingAvailability.isBookable ||
+        !bookingData.startTime || !bookingData.endTime) {
+      return;
+    }
+    const fetchSuggestions = async () => {
+      try {
+        const response = await axios.get(`/api/locations/${location.id}/booking-suggestions`, {
+          params: {
+            startTime: fromTimeZoneInputValue(bookingData.startTime, location.timeZone),
+            endTime: fromTimeZoneInputValue(bookingData.endTime, location.timeZone),
+          },
+        });
+        setSuggestions(response.data);
+      } catch (err) {
+        console.error('Error fetching booking suggestions:', err);
+      }
+    };
+    fetchSuggestions();
+  }, [location, recurrence.enabled, bookingAvailability, bookingData.startTime, bookingData.endTime]);
+
+  // The same instants are carried over; the other location may be in a different zone
+  const handleSuggestedLocation = (locationId: number) => {
+    const startTime = fromTimeZoneInputValue(bookingData.startTime, location?.timeZone);
+    const endTime = fromTimeZoneInputValue(bookingData.endTime, location?.timeZone);
+    navigate(`/user/dashboard?locationId=${locationId}&startTime=${encodeURIComponent(startTime)}&endTime=${encodeURIComponent(endTime)}`);
+  };
+
+  // A range picked on the availability heatmap; the debounced check above re-validates it
+  const handleTimelineSelect = (startTime: string, endTime: string) => {
+    setBookingData(prev => ({ ...prev, startTime, endTime }));
+    setBookingAvailability(null);
+  };
+
+  const toggleRecurrenceDay = (day: number) => {
+    setRecurrence(prev => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day) ? prev.daysOfWeek.filter(d => d !== day) : [...prev.daysOfWeek, day],
+    }));
+  };
+
   const handleBooking = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!location) return;
@@ -152,8 +293,11 @@ const UserDashboard: React.FC = () => {
     setError(null); // Clear previous general errors
     setSuccessMessage(null);
 
-    const STime = dayjs(bookingData.startTime);
-    const ETime = dayjs(bookingData.endTime);
+    if (!dayjs(bookingData.startTime).isValid() || !dayjs(bookingData.endTime).isValid()) {
+      setError('Please enter valid start and end times.'); return;
+    }
+    const STime = dayjs(fromTimeZoneInputValue(bookingData.startTime, location.timeZone));
+    const ETime = dayjs(fromTimeZoneInputValue(bookingData.endTime, location.timeZone));
 
     if (!STime.isValid() || !ETime.isValid()) {
       setError('Please enter valid start and end times.'); return;
@@ -189,6 +333,31 @@ const UserDashboard: React.FC = () => {
 
     setIsBooking(true); // Spinner for booking submission
 
+    if (recurrence.enabled) {
+      try {
+        const response = await axios.post('/api/locations/bookings/series', {
+          parkingLocationId: location.id,
+          startTime: STime.toISOString(),
+          endTime: ETime.toISOString(),
+          daysOfWeek: recurrence.daysOfWeek,
+          weeks: recurrence.weeks,
+          licensePlateBooked: bookingData.licensePlateBooked.trim() || null,
+        });
+        // Stay on the page so the user can see which dates (if any) could not be booked
+        setSeriesReport(response.data);
+        setSuccessMessage(response.data.message);
+        setBookingData({ startTime: '', endTime: '', licensePlateBooked: '' });
+        setBookingAvailability(null);
+      } catch (err) {
+        const axiosErr = err as AxiosError<ErrorResponseData & Partial<SeriesReport>>;
+        console.error('Error creating recurring booking:', err);
+        setError(axiosErr.response?.data?.message || 'Failed to create recurring booking. Please try again.');
+      } finally {
+        setIsBooking(false);
+      }
+      return;
+    }
+
     try {
       await axios.post('/api/locations/bookings', { 
         parkingLocationId: location.id,
@@ -208,12 +377,39 @@ const UserDashboard: React.FC = () => {
 
     } catch (err: any) {
       console.error('Error creating booking:', err);
-      setError(err.response?.data?.message || 'Failed to create booking. Please try again.');
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      if (axiosErr.response?.data?.code === 'CAPACITY_REACHED') {
+        // Someone else took the last space since the availability check; offer the waitlist instead
+        setBookingAvailability({ isBookable: false, message: axiosErr.response.data.message || 'Booking capacity reached.' });
+      }
+      setError(axiosErr.response?.data?.message || 'Failed to create booking. Please try again.');
     } finally {
       setIsBooking(false);
     }
   };
 
+  // Queue for the selected window; the booking is made automatically if a cancellation frees a space
+  const handleJoinWaitlist = async () => {
+    if (!location) return;
+    setError(null);
+    setSuccessMessage(null);
+    setIsJoiningWaitlist(true);
+    try {
+      const response = await axios.post('/api/locations/waitlist', {
+        parkingLocationId: location.id,
+        startTime: fromTimeZoneInputValue(bookingData.startTime, location.timeZone),
+        endTime: fromTimeZoneInputValue(bookingData.endTime, location.timeZone),
+        licensePlateBooked: bookingData.licensePlateBooked.trim() || null,
+      });
+      setSuccessMessage(response.data.message);
+    } catch (err) {
+      const axiosErr = err as AxiosError<ErrorResponseData>;
+      setError(axiosErr.response?.data?.message || 'Failed to join the waitlist. Please try again.');
+    } finally {
+      setIsJoiningWaitlist(false);
+    }
+  };
+
   if (loading && searchParams.get('locationId')) { 
     return (
       <div className="flex justify-center items-center h-screen">
@@ -226,7 +422,7 @@ const UserDashboard: React.FC = () => {
     return null; 
   }
 
-  const minStartTime = dayjs().add(5, 'minute').format('YYYY-MM-DDTHH:mm');
+  const minStartTime = toTimeZoneInputValue(dayjs().add(5, 'minute'), location?.timeZone);
   const minEndTime = bookingData.startTime && dayjs(bookingData.startTime).isValid()
     ? dayjs(bookingData.startTime).add(15, 'minute').format('YYYY-MM-DDTHH:mm') // Min 15 min booking
     : minStartTime; // Fallback if startTime is not valid yet
@@ -300,6 +496,14 @@ const UserDashboard: React.FC = () => {
           <div className="bg-white rounded-lg shadow-xl p-6 md:p-8">
             <h3 className="text-xl font-semibold text-secondary-900 mb-6 border-b pb-3">Make a Reservation</h3>
             <form onSubmit={handleBooking} className="space-y-6">
+              <AvailabilityHeatmap
+                locationId={location.id}
+                timeZone={location.timeZone}
+                selectedStart={bookingData.startTime}
+                selectedEnd={bookingData.endTime}
+                onSelectRange={handleTimelineSelect}
+              />
+
               <div>
                 <label htmlFor="startTime" className="block text-sm font-medium text-secondary-700 mb-1">Start Time</label>
                 <div className="relative">
@@ -318,6 +522,7 @@ const UserDashboard: React.FC = () => {
                     className="pl-10 w-full px-3 py-2 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 sm:text-sm"
                     required disabled={isBooking || !bookingData.startTime} /> 
                 </div>
+                <p className="text-xs text-secondary-500 mt-1">Times are local to the car park ({location.timeZone}).</p>
               </div>
 
               <div>
@@ -339,6 +544,39 @@ const UserDashboard: React.FC = () => {
                 </div>
               </div>
 
+              {/* Recurrence */}
+              <div className="border border-secondary-200 rounded-md p-4 space-y-3">
+                <label className="flex items-center text-sm font-medium text-secondary-700 cursor-pointer">
+                  <input type="checkbox" checked={recurrence.enabled} disabled={isBooking}
+                         onChange={(e) => setRecurrence(prev => ({ ...prev, enabled: e.target.checked }))}
+                         className="mr-2 h-4 w-4 text-primary-600 border-secondary-300 rounded" />
+                  <Repeat className="h-4 w-4 mr-1.5 text-secondary-500" /> Repeat this booking
+                </label>
+                {recurrence.enabled && (
+                  <>
+                    <div className="flex flex-wrap gap-2">
+                      {WEEKDAYS.map(({ day, label }) => (
+                        <button key={day} type="button" onClick={() => toggleRecurrenceDay(day)} disabled={isBooking}
+                                className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                                  recurrence.daysOfWeek.includes(day)
+                                    ? 'bg-primary-600 text-white border-primary-600'
+                                    : 'bg-white text-secondary-600 border-secondary-300 hover:bg-secondary-50'
+                                }`}>
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center text-sm text-secondary-700">
+                      <span className="mr-2">For the next</span>
+                      <input type="number" min={1} max={MAX_SERIES_WEEKS} value={recurrence.weeks} disabled={isBooking}
+                             onChange={(e) => setRecurrence(prev => ({ ...prev, weeks: Math.min(MAX_SERIES_WEEKS, Math.max(1, parseInt(e.target.value, 10) || 1)) }))}
+                             className="w-16 px-2 py-1 border border-secondary-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500" />
+                      <span className="ml-2">week(s), starting on the day above</span>
+                    </div>
+                  </>
+                )}
+              </div>
+
               {/* Availability Check Display */}
               <div className="h-10 mt-2"> {/* Reserve space for the message */}
                 {isCheckingAvailability && (
@@ -351,10 +589,33 @@ const UserDashboard: React.FC = () => {
                   <div className={`text-sm p-2 rounded-md flex items-center ${bookingAvailability.isBookable ? 'bg-green-50 text-green-700 border border-green-200' : 'bg-red-50 text-red-700 border border-red-200'}`}>
                     {bookingAvailability.isBookable ? <CheckCircle className="h-4 w-4 mr-2" /> : <AlertCircle className="h-4 w-4 mr-2" />}
                     {bookingAvailability.message}
+                    {bookingAvailability.isBookable && quote && (
+                      <span className="ml-auto pl-3 text-secondary-700 whitespace-nowrap"
+                            title={`${quote.billableHours} h at ₹${quote.hourlyRate.toFixed(2)}/h`}>
+                        Est. <span className="font-semibold">₹{quote.amount.toFixed(2)}</span>
+                      </span>
+                    )}
+                    {bookingAvailability.isBookable && seriesReport?.quotedTotal !== undefined && (
+                      <span className="ml-auto pl-3 text-secondary-700 whitespace-nowrap">
+                        Est. <span className="font-semibold">₹{seriesReport.quotedTotal.toFixed(2)}</span> total
+                      </span>
+                    )}
                   </div>
                 )}
               </div>
 
+              {/* Dates of a recurring booking that are (or would be) full */}
+              {seriesReport && seriesReport.failed.length > 0 && (
+                <div className="text-sm bg-orange-50 text-orange-800 border border-orange-200 rounded-md p-3">
+                  <p className="font-medium mb-1">These dates are fully booked and {successMessage ? 'were not' : 'will not be'} booked:</p>
+                  <ul className="list-disc list-inside">
+                    {seriesReport.failed.map(occurrence => (
+                      <li key={occurrence.date}>{formatInTimeZone(occurrence.startTime, location.timeZone, 'ddd, MMM D')}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <button type="submit" disabled={isBookingButtonDisabled}
                 className={`w-full py-3 px-4 rounded-md text-white font-semibold transition-colors text-base flex items-center justify-center
                   ${isBooking ? 'bg-primary-400 cursor-wait' : 
@@ -373,6 +634,53 @@ const UserDashboard: React.FC = () => {
                     'Confirm Booking'
                 )}
               </button>
+
+              {bookingAvailability && !bookingAvailability.isBookable && !isCheckingAvailability && !recurrence.enabled
+                && bookingData.startTime && bookingData.endTime && (
+                <button type="button" onClick={handleJoinWaitlist} disabled={isJoiningWaitlist}
+                  className="w-full py-3 px-4 rounded-md font-semibold text-base flex items-center justify-center border border-primary-600 text-primary-700 hover:bg-primary-50 disabled:opacity-50"
+                >
+                  {isJoiningWaitlist
+                    ? <> <Loader2 className="animate-spin h-5 w-5 mr-2"/> Joining... </>
+                    : <> <Hourglass className="h-5 w-5 mr-2"/> Join Waitlist </>}
+                </button>
+              )}
+
+              {suggestions && (suggestions.windows.length > 0 || suggestions.locations.length > 0) && (
+                <div className="border border-secondary-200 rounded-md p-4 space-y-3">
+                  <p className="flex items-center text-sm font-medium text-secondary-700"><Lightbulb className="h-4 w-4 mr-2 text-primary-600" /> Try one of these instead</p>
+                  {suggestions.windows.length > 0 && (
+                    <div>
+                      <p className="text-xs text-secondary-500 mb-1">Other times at {location.name}</p>
+                      <div className="flex flex-wrap gap-2">
+                        {suggestions.windows.map(option => (
+                          <button key={option.startTime} type="button" disabled={isBooking}
+                                  onClick={() => handleTimelineSelect(toTimeZoneInputValue(option.startTime, location.timeZone), toTimeZoneInputValue(option.endTime, location.timeZone))}
+                                  className="px-3 py-1 rounded-md text-sm border border-primary-300 text-primary-700 hover:bg-primary-50 disabled:opacity-50">
+                            {formatInTimeZone(option.startTime, location.timeZone, 'HH:mm')} - {formatInTimeZone(option.endTime, location.timeZone, 'HH:mm')}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {suggestions.locations.length > 0 && (
+                    <div>
+                      <p className="text-xs text-secondary-500 mb-1">Nearby locations free at this time</p>
+                      <ul className="space-y-1">
+                        {suggestions.locations.map(nearby => (
+                          <li key={nearby.id}>
+                            <button type="button" disabled={isBooking} onClick={() => handleSuggestedLocation(nearby.id)}
+                                    className="w-full flex items-center justify-between px-3 py-2 rounded-md text-sm border border-secondary-200 hover:bg-secondary-50 disabled:opacity-50">
+                              <span className="flex items-center text-secondary-800"><MapPin className="h-4 w-4 mr-2 text-secondary-400" /> {nearby.name}</span>
+                              <span className="text-xs text-secondary-500">{nearby.distanceKm} km · {nearby.available} free</span>
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
             </form>
           </div>
         </div>
@@ -0,0 +1,37 @@
+// Which pages a user can open is decided by permissions (see server/config/permissions.js), not by role name.
+
+export type NavUser = {
+  permissions?: string[];
+};
+
+export type NavPage = {
+  path: string;
+  label: string;
+  permission: string;
+};
+
+// Back-office pages in menu order. Custom roles see whichever of these their permissions allow.
+export const BACK_OFFICE_PAGES: NavPage[] = [
+  { path: '/admin/dashboard', label: 'Dashboard', permission: 'dashboard:read' },
+  { path: '/admin/bookings', label: 'Bookings', permission: 'bookings:read' },
+  { path: '/admin/locations', label: 'Locations', permission: 'locations:read' },
+  { path: '/admin/employees', label: 'Employees', permission: 'employees:read' },
+  { path: '/admin/feedbacks', label: 'Feedback', permission: 'feedback:read' },
+  { path: '/admin/settings', label: 'Settings', permission: 'rates:read' },
+  { path: '/admin/roles', label: 'Roles', permission: 'roles:manage' },
+  { path: '/admin/audit-log', label: 'Audit Log', permission: 'audit:read' },
+  { path: '/admin/api-keys', label: 'API Keys', permission: 'api-keys:manage' }
+];
+
+const can = (user: NavUser, permission: string) => Boolean(user.permissions?.includes(permission));
+
+export const getBackOfficePages = (user: NavUser) => BACK_OFFICE_PAGES.filter(page => can(user, page.permission));
+
+// Where "Dashboard" points and where users land when they open a page they aren't allowed to see
+export const getHomePath = (user: NavUser | null) => {
+  if (!user) return '/';
+  if (can(user, 'parking:operate')) return '/employee/dashboard';
+  if (can(user, 'bookings:create')) return '/user/dashboard';
+  const [firstPage] = getBackOfficePages(user);
+  return firstPage ? firstPage.path : '/profile';
+};
@@ -0,0 +1,26 @@
+// The server sends times as ISO-8601 with the location's offset and each location has an IANA time zone.
+// Times are shown and entered in the location's zone, whatever zone the browser is in.
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// Value format of <input type="datetime-local">
+export const DATETIME_INPUT_FORMAT = 'YYYY-MM-DDTHH:mm';
+
+// A time in the location's zone; without a zone (older API responses) the browser's zone is used
+export const inTimeZone = (value: dayjs.ConfigType, timeZone?: string | null) =>
+  timeZone ? dayjs(value).tz(timeZone) : dayjs(value);
+
+export const formatInTimeZone = (value: string | null | undefined, timeZone: string | null | undefined, format: string) =>
+  value ? inTimeZone(value, timeZone).format(format) : 'N/A';
+
+// An instant as the wall-clock value of a datetime-local input in the location's zone
+export const toTimeZoneInputValue = (value: dayjs.ConfigType, timeZone?: string | null) =>
+  inTimeZone(value, timeZone).format(DATETIME_INPUT_FORMAT);
+
+// A datetime-local input value read as wall-clock time in the location's zone, as ISO-8601 with the offset
+export const fromTimeZoneInputValue = (value: string, timeZone?: string | null) =>
+  (timeZone ? dayjs.tz(value, timeZone) : dayjs(value)).format();